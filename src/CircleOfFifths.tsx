@@ -1,5 +1,38 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { motion } from "framer-motion";
+import {
+  MODES, MODE_ORDER, NOTE_NAMINGS, POSITIONS, buildScaleFromKeyName, diatonicSevenths, diatonicTriads, keySignatureFor,
+  ascendingLine, cadenceFor, chordForNumeral, detectKeys, extendedPalette, findInPalettes, keyHeat, keySpoke, circleDistance, nameChord, noteName, parseKeyInput, normalizeToken, pitchClass, positionOfTonic, pretty, resolveEnharmonic, signatureNotes, spellInKey, tonicAt, tonicAtFifths, mod12,
+  voiceChord, voiceLead, voiceSequence,
+} from "./theory";
+import type { EnhPref, ExtendedChord, KeyCandidate, KeyRef, Mode, ModulationPath, NoteNaming, Pos, Progression, VoicedNote, VoicingOptions } from "./theory";
+import { useAudio } from "./audio/useAudio";
+import type { SeqSettings } from "./audio/sequencer";
+import type { SynthSettings } from "./audio/synth";
+import { InfoTile, ModeSelect, Seg } from "./components/ui";
+import { ProgressionPanel } from "./components/ProgressionPanel";
+import type { Playhead } from "./components/ProgressionPanel";
+import { ExportPanel } from "./components/ExportPanel";
+import { MidiInputPanel } from "./components/MidiInputPanel";
+import { KeyFinderPanel } from "./components/KeyFinderPanel";
+import { ExtendedPalette } from "./components/ExtendedPalette";
+import { NotationPanel } from "./components/NotationPanel";
+import { VoicingControls } from "./components/VoicingControls";
+import { InstrumentsPanel } from "./components/InstrumentsPanel";
+import { ChartPanel } from "./components/ChartPanel";
+import { ModulationPanel } from "./components/ModulationPanel";
+import { TuningPanel } from "./components/TuningPanel";
+import { SynthPanel } from "./components/SynthPanel";
+import { PosterPanel } from "./components/PosterPanel";
+import { QuizPanel } from "./components/QuizPanel";
+import { SPIRAL_MAX, SPIRAL_MIN, SpiralOfFifths } from "./components/SpiralOfFifths";
+import type { TuningChoice } from "./components/TuningPanel";
+import { octaveOf } from "./instruments/instruments";
+import { useMidiInput } from "./midi/useMidiInput";
+import { DEFAULT_LINK, decodeLink, loadSettings, saveSettings, selectionFor } from "./settings/settings";
+import type { CircleView, LinkState } from "./settings/settings";
+import { useLinkSync } from "./settings/useLinkSync";
+import { useQuiz } from "./quiz/useQuiz";
 
 /* ============================================================
    Circle of Fifths — Vercel-safe build (TS fixes)
@@ -11,233 +44,6 @@ const CENTER = 220;
 const OUTER_R = 200;
 const INNER_R = 120;
 
-// ---------- Circle data ------------------------------------------------------
-type Pos = { major: string; minor: string; acc: number }; // acc>0 sharps; acc<0 flats
-
-const POSITIONS: readonly Pos[] = [
-  { major: "C",         minor: "a",        acc:  0 },
-  { major: "G",         minor: "e",        acc:  1 },
-  { major: "D",         minor: "b",        acc:  2 },
-  { major: "A",         minor: "f#",       acc:  3 },
-  { major: "E",         minor: "c#",       acc:  4 },
-  { major: "B",         minor: "g#",       acc:  5 },
-  { major: "F# / Gb",   minor: "d# / eb",  acc:  6 },  // enharmonic spoke
-  { major: "Db / C#",   minor: "bb / a#",  acc: -5 },  // enharmonic spoke
-  { major: "Ab",        minor: "f",        acc: -4 },
-  { major: "Eb",        minor: "c",        acc: -3 },
-  { major: "Bb",        minor: "g",        acc: -2 },
-  { major: "F",         minor: "d",        acc: -1 },
-] as const;
-
-// ---------- Accidentals / letter pitch-classes ------------------------------
-const ORDER_SHARPS = ["F","C","G","D","A","E","B"];
-const ORDER_FLATS  = ["B","E","A","D","G","C","F"];
-const NAT_PC: Record<string, number> = { C:0, D:2, E:4, F:5, G:7, A:9, B:11 };
-
-// Major key signature counts (positive = sharps, negative = flats)
-const MAJOR_SIG_COUNTS: Record<string, number> = {
-  C: 0, G: +1, D: +2, A: +3, E: +4, B: +5, "F#": +6, "C#": +7,
-  F: -1, Bb: -2, Eb: -3, Ab: -4, Db: -5, Gb: -6, Cb: -7,
-};
-
-// Relative major for minor names (lowercase)
-const MINOR_REL_MAJOR: Record<string, string> = {
-  a:"C", e:"G", b:"D", "f#":"A", "c#":"E", "g#":"B", "d#":"F#", "a#":"C#",
-  d:"F", g:"Bb", c:"Eb", f:"Ab", bb:"Db", eb:"Gb", ab:"Cb",
-};
-
-// ---------- String helpers ---------------------------------------------------
-function asciiNote(n: string) {
-  return n.replace(/♯/g, "#").replace(/𝄪/g, "##").replace(/♭/g, "b").replace(/𝄫/g, "bb");
-}
-function normalizeToken(n: string) {
-  if (!n) return "C";
-  let t = asciiNote(n);
-  t = t.split("/")[0].trim();
-  const L = t[0]?.toUpperCase() ?? "C";
-  const rest = t.slice(1).replace(/[^#b]/g, "");
-  return L + rest;
-}
-function normalizeMinorToken(n: string) {
-  let t = asciiNote(n).split("/")[0].trim();
-  const L = t[0]?.toLowerCase() ?? "a";
-  const rest = t.slice(1).replace(/[^#b]/g, "");
-  return L + rest;
-}
-function pretty(n: string) {
-  return n.replace(/##/g,"𝄪").replace(/bb/g,"𝄫").replace(/#/g,"♯").replace(/b/g,"♭");
-}
-
-// ---------- Enharmonic preference -------------------------------------------
-type EnhPref = "auto" | "sharps" | "flats";
-
-/** Choose sharp/flat token by accidental, not by slash position. */
-function resolveEnharmonic(raw: string, posAcc: number, pref: EnhPref) {
-  if (!raw.includes("/")) return raw;
-  const [aRaw, bRaw] = raw.split("/").map(s => s.trim());
-  const a = asciiNote(aRaw);
-  const aSharp = a.includes("#");
-  const sharpName = aSharp ? aRaw : bRaw;
-  const flatName  = aSharp ? bRaw : aRaw;
-
-  if (pref === "sharps") return sharpName;
-  if (pref === "flats")  return flatName;
-  return posAcc >= 0 ? sharpName : flatName; // auto by circle side
-}
-
-// ---------- Signatures & scale building -------------------------------------
-type Sig = { type: "#" | "b"; count: number; set: Set<string> };
-
-function signatureForMajorName(majorName: string): Sig {
-  const key = normalizeToken(majorName);
-  const count = MAJOR_SIG_COUNTS[key];
-  const type: "#" | "b" = count >= 0 ? "#" : "b";
-  const letters = (type === "#" ? ORDER_SHARPS : ORDER_FLATS).slice(0, Math.abs(count));
-  return { type, count: Math.abs(count), set: new Set(letters) };
-}
-function applySignature(letter: string, sig: Sig) {
-  if (sig.count === 0) return letter;
-  if (sig.type === "#" && sig.set.has(letter)) return letter + "#";
-  if (sig.type === "b" && sig.set.has(letter)) return letter + "b";
-  return letter;
-}
-function raiseHalfStep(spelled: string) {
-  const L = spelled[0];
-  const acc = spelled.slice(1);
-  if (acc.includes("b")) return L + acc.replace("b", ""); // remove one flat
-  return L + acc + "#";                                    // add one sharp
-}
-
-function relativeMajorFromMinor(minorName: string, pref: EnhPref) {
-  const nm = normalizeMinorToken(minorName);
-  if (nm === "a#" || nm === "bb") return pref === "flats" ? "Db" : "C#";
-  if (nm === "d#" || nm === "eb") return pref === "flats" ? "Gb" : "F#";
-  if (nm === "g#" || nm === "ab") return pref === "flats" ? "Cb" : "B";
-  return MINOR_REL_MAJOR[nm] ?? "C";
-}
-
-/** Build scale by key name + mode using formal key signatures.
- *  Minor (harmonic): relative-major signature + raised 7th.
- */
-function buildScaleFromKeyName(tonicRaw: string, mode: "major"|"minor", enhPref: EnhPref) {
-  const LETTERS = ["C","D","E","F","G","A","B"];
-  if (mode === "major") {
-    const tonic = normalizeToken(tonicRaw);
-    const sig = signatureForMajorName(tonic);
-    const start = LETTERS.indexOf(tonic[0]);
-    const letters = Array.from({length:7},(_,i)=>LETTERS[(start+i)%7]);
-    const scale = letters.map(L => applySignature(L, sig));
-    scale[0] = tonic; // ensure tonic accidental matches name
-    return scale;
-  } else {
-    const tonic = normalizeMinorToken(tonicRaw);         // e.g., "d#"
-    const tonicLetter = tonic[0].toUpperCase();          // "D"
-    const relMaj = relativeMajorFromMinor(tonicRaw, enhPref);
-    const sig = signatureForMajorName(relMaj);
-    const start = LETTERS.indexOf(tonicLetter);
-    const letters = Array.from({length:7},(_,i)=>LETTERS[(start+i)%7]);
-    const scale = letters.map(L => applySignature(L, sig));
-    scale[0] = tonicLetter + tonic.slice(1);             // keep minor tonic’s accidental
-    scale[6] = raiseHalfStep(scale[6]);                  // harmonic minor leading tone
-    return scale;
-  }
-}
-
-// ---------- Chords -----------------------------------------------------------
-function diatonicTriads(scale: string[], mode: "major"|"minor") {
-  const rn = mode === "minor" ? ["i","ii°","III+","iv","V","VI","vii°"] : ["I","ii","iii","IV","V","vi","vii°"];
-  return scale.map((r,i)=>({ rn: rn[i], tones: [r, scale[(i+2)%7], scale[(i+4)%7]] }));
-}
-function diatonicSevenths(scale: string[], mode: "major"|"minor") {
-  const pc = (i:number)=>scale[i%7];
-  return mode === "major"
-    ? [
-        { rn: "Imaj7",  tones: [pc(0),pc(2),pc(4),pc(6)] },
-        { rn: "ii7",    tones: [pc(1),pc(3),pc(5),pc(0)] },
-        { rn: "iii7",   tones: [pc(2),pc(4),pc(6),pc(1)] },
-        { rn: "IVmaj7", tones: [pc(3),pc(5),pc(0),pc(2)] },
-        { rn: "V7",     tones: [pc(4),pc(6),pc(1),pc(3)] },
-        { rn: "vi7",    tones: [pc(5),pc(0),pc(2),pc(4)] },
-        { rn: "viiø7",  tones: [pc(6),pc(1),pc(3),pc(5)] },
-      ]
-    : [
-        { rn: "i mMaj7", tones: [pc(0),pc(2),pc(4),pc(6)] },
-        { rn: "iiø7",    tones: [pc(1),pc(3),pc(5),pc(0)] },
-        { rn: "III+maj7",tones: [pc(2),pc(4),pc(6),pc(1)] },
-        { rn: "iv7",     tones: [pc(3),pc(5),pc(0),pc(2)] },
-        { rn: "V7",      tones: [pc(4),pc(6),pc(1),pc(3)] },
-        { rn: "VImaj7",  tones: [pc(5),pc(0),pc(2),pc(4)] },
-        { rn: "vii°7",   tones: [pc(6),pc(1),pc(3),pc(5)] },
-      ];
-}
-
-// ---------- Audio ------------------------------------------------------------
-function useAudio() {
-  const ctxRef = useRef<AudioContext | null>(null);
-  const gainRef = useRef<GainNode | null>(null);
-  const [volume, setVolume] = useState(0.7);
-  const [muted, setMuted] = useState(false);
-
-  const ensure = () => {
-    if (!ctxRef.current) {
-      // Use a permissive 'any' to satisfy TS across browsers (AudioContext / webkitAudioContext)
-      const Ctor: any = (window as any).AudioContext ?? (window as any).webkitAudioContext;
-      const ctx: any = new Ctor();
-      const g: any = ctx.createGain();
-      g.gain.value = volume;
-      g.connect(ctx.destination);
-      ctxRef.current = ctx as AudioContext;
-      gainRef.current = g as GainNode;
-    }
-  };
-  const resumeIfNeeded = async () => {
-    ensure();
-    const ctx = ctxRef.current!;
-    if (ctx.state === "suspended") { try { await ctx.resume(); } catch {} }
-  };
-  useEffect(() => { if (gainRef.current) gainRef.current.gain.value = muted ? 0 : volume; }, [volume, muted]);
-
-  const midiToFreq = (m:number)=> 440*Math.pow(2,(m-69)/12);
-  const spelledToMidi = (note:string, oct=4) => {
-    const N = asciiNote(normalizeToken(note));
-    const L = N[0] as keyof typeof NAT_PC;
-    const acc = N.slice(1);
-    const sigma = (acc.match(/#/g)?.length ?? 0) - (acc.match(/b/g)?.length ?? 0);
-    const pc = (NAT_PC[L] + sigma + 120) % 12;
-    return 12*(oct+1) + pc;
-  };
-  const noteToFreq = (n:string,o=4)=> midiToFreq(spelledToMidi(n,o));
-
-  const playChord = async (freqs:number[], dur=0.8) => {
-    await resumeIfNeeded();
-    const ctx = ctxRef.current!, bus = gainRef.current!, t = ctx.currentTime;
-    freqs.forEach((f,i)=>{
-      const o = ctx.createOscillator(), g = ctx.createGain();
-      o.type="sine"; o.frequency.setValueAtTime(f,t);
-      o.connect(g).connect(bus);
-      g.gain.setValueAtTime(0.0001,t);
-      g.gain.exponentialRampToValueAtTime(i===2?0.22:0.28, t+0.02+i*0.01);
-      g.gain.exponentialRampToValueAtTime(0.0001,t+dur);
-      o.start(t); o.stop(t+dur+0.02);
-    });
-  };
-
-  const playFreq = async (f:number, dur=0.45) => {
-    await resumeIfNeeded();
-    const ctx = ctxRef.current!, bus = gainRef.current!;
-    const o = ctx.createOscillator(), g = ctx.createGain();
-    o.type="sine"; o.frequency.setValueAtTime(f, ctx.currentTime);
-    o.connect(g).connect(bus);
-    const t = ctx.currentTime;
-    g.gain.setValueAtTime(0.0001,t);
-    g.gain.exponentialRampToValueAtTime(0.32,t+0.02);
-    g.gain.exponentialRampToValueAtTime(0.0001,t+dur);
-    o.start(t); o.stop(t+dur+0.02);
-  };
-
-  return { playChord, playFreq, noteToFreq, volume, setVolume, muted, setMuted };
-}
-
 // ---------- Drawing utils ----------------------------------------------------
 function arcPath(cx:number, cy:number, r1:number, r2:number, a0:number, a1:number){
   const p0o=[cx+r1*Math.cos(a0), cy+r1*Math.sin(a0)];
@@ -252,76 +58,259 @@ const sliceFill = (i:number, sel:boolean) => {
   return `hsl(${h} ${s}% ${l}%)`;
 };
 const sliceStroke = (i:number)=> `hsl(${(i*30)%360} 40% 66%)`;
-
-// ---------- Small UI atoms ---------------------------------------------------
-function Seg({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
-  return (
-    <button
-      onClick={onClick}
-      className={`px-3 py-1.5 rounded-xl border text-sm transition focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500
-        ${active ? "bg-slate-900 text-white border-slate-900" : "bg-white/80 text-slate-900 border-slate-300 hover:bg-white"}`}
-    >
-      {children}
-    </button>
-  );
+const spokeAngle = (i:number) => -Math.PI/2 + ((i+0.5)*TAU)/12;
+/** Curved arrow between two spokes, bowing toward the center. */
+function spokeArrowPath(from:number, to:number){
+  const r = INNER_R-6;
+  const [x0, y0] = [CENTER + r*Math.cos(spokeAngle(from)), CENTER + r*Math.sin(spokeAngle(from))];
+  const [x1, y1] = [CENTER + r*Math.cos(spokeAngle(to)), CENTER + r*Math.sin(spokeAngle(to))];
+  const cx = CENTER + ((x0+x1)/2 - CENTER)*0.3, cy = CENTER + ((y0+y1)/2 - CENTER)*0.3;
+  return `M ${x0} ${y0} Q ${cx} ${cy} ${x1} ${y1}`;
 }
-function InfoTile({ label, value }: { label: string; value: string }) {
-  return (
-    <div className="rounded-xl border bg-white/90 px-3 py-2">
-      <div className="text-[10px] uppercase tracking-wider opacity-70">{label}</div>
-      <div className="font-medium truncate" title={value}>{value}</div>
-    </div>
-  );
+const PATH_R = INNER_R-14;
+const spokePoint = (i:number) => [CENTER + PATH_R*Math.cos(spokeAngle(i)), CENTER + PATH_R*Math.sin(spokeAngle(i))];
+/** Arc just inside the ring from one spoke, `steps` spokes round (clockwise when positive). */
+function ringArcPath(from:number, steps:number){
+  const [x0, y0] = spokePoint(from), [x1, y1] = spokePoint(from + steps);
+  return `M ${x0} ${y0} A ${PATH_R} ${PATH_R} 0 0 ${steps > 0 ? 1 : 0} ${x1} ${y1}`;
 }
 
+// ---------- Voicing ----------------------------------------------------------
+const voicedFreqs = (voiced: VoicedNote[], noteToFreq: (n: string, o: number) => number) =>
+  voiced.map(v => noteToFreq(v.note, v.oct));
+const QUIZ_BPM = 80;
+
 // ---------- Main component ---------------------------------------------------
 export default function CircleOfFifths() {
-  const [mode, setMode] = useState<"major" | "minor">("major");
-  const [showRel, setShowRel] = useState(true);
-  const [useSevenths, setUseSevenths] = useState(true);
-  const [enhPref, setEnhPref] = useState<EnhPref>("auto");
-  const [idx, setIdx] = useState(0);
+  // A link in the address bar wins over the key saved last time; preferences always come from storage
+  const [initial] = useState(() => {
+    const stored = loadSettings();
+    const link = decodeLink(window.location.search) ?? stored.link ?? DEFAULT_LINK;
+    return { link, ...selectionFor(link), prefs: stored.prefs };
+  });
+  const [mode, setMode] = useState<Mode>(initial.link.mode);
+  const [showRel, setShowRel] = useState(initial.link.showRel);
+  const [useSevenths, setUseSevenths] = useState(initial.link.sevenths);
+  const [showExtended, setShowExtended] = useState(false);
+  const [hoverChord, setHoverChord] = useState<ExtendedChord | null>(null);
+  const [hoverTones, setHoverTones] = useState<string[] | null>(null);
+  const [shownPath, setShownPath] = useState<ModulationPath | null>(null);
+  const [cadence, setCadence] = useState<{ path: ModulationPath; step: number } | null>(null);
+  const [enhPref, setEnhPref] = useState<EnhPref>(initial.link.enhPref);
+  const [voicing, setVoicing] = useState<VoicingOptions>(initial.prefs.voicing);
+  const [idx, setIdx] = useState(initial.idx);
+  const [view, setView] = useState<CircleView>(initial.link.view);
+  const [spiralAt, setSpiralAt] = useState<number | null>(initial.spiralAt);   // key picked on the spiral, in fifths
+
+  const [progression, setProgression] = useState<Progression>({ steps: [], bpm: 96, loop: true, click: false });
+  const [playhead, setPlayhead] = useState<Playhead | null>(null);
+  const [keyFinderText, setKeyFinderText] = useState("");
+
+  const [tuning, setTuning] = useState<TuningChoice>(initial.prefs.tuning);
+  const [naming, setNaming] = useState<NoteNaming>(initial.prefs.naming);
+  const [synth, setSynth] = useState<SynthSettings>(initial.prefs.synth);
+  const [midiThrough, setMidiThrough] = useState(false);
 
-  const { playFreq, playChord, noteToFreq, volume, setVolume, muted, setMuted } = useAudio();
   const pos = POSITIONS[idx];
+  // A key picked on the spiral keeps its own spelling (G♯ stays G♯); otherwise the spoke and Enh decide
+  const tonicNameForSpelling = useMemo(
+    () => spiralAt === null ? tonicAt(pos, mode, enhPref) : tonicAtFifths(spiralAt, mode),
+    [pos, mode, enhPref, spiralAt]
+  );
+  // Fifth-based tunings are built on the selected key's tonic
+  const temperament = useMemo(() => ({ ...tuning, tonic: normalizeToken(tonicNameForSpelling) }), [tuning, tonicNameForSpelling]);
+
+  const { playFreq, playChord, noteOn, noteOff, noteToFreq, startSequence, stopSequence, volume, setVolume, muted, setMuted } = useAudio(temperament, initial.prefs, synth);
+  const midi = useMidiInput();
+
+  // Key and view go into the URL (back/forward moves between keys); preferences are saved locally
+  const link = useMemo((): LinkState => (
+    { key: normalizeToken(tonicNameForSpelling), mode, enhPref, sevenths: useSevenths, showRel, view }
+  ), [tonicNameForSpelling, mode, enhPref, useSevenths, showRel, view]);
+  useLinkSync(link, l => {
+    const sel = selectionFor(l);
+    setMode(l.mode);
+    setEnhPref(l.enhPref);
+    setUseSevenths(l.sevenths);
+    setShowRel(l.showRel);
+    setView(l.view);
+    setIdx(sel.idx);
+    setSpiralAt(sel.spiralAt);
+  });
+  useEffect(() => saveSettings(link, { volume, muted, tuning, voicing, naming, synth }), [link, volume, muted, tuning, voicing, naming, synth]);
+  // Chords clicked one at a time still voice-lead from whatever was played last
+  const lastVoiced = useRef<VoicedNote[]>([]);
+  const playTones = (tones: string[]) => {
+    const voiced = voicing.lead ? voiceLead(lastVoiced.current, tones, voicing) : voiceChord(tones, voicing);
+    lastVoiced.current = voiced;
+    playChord(voicedFreqs(voiced, noteToFreq));
+  };
 
-  const labelFor = (raw: string, p: Pos) => pretty(normalizeToken(resolveEnharmonic(raw, p.acc, enhPref)));
-  const displayMain = (p: Pos) => labelFor(mode === "major" ? p.major : p.minor, p);
-  const displayRel  = (p: Pos) => labelFor(mode === "major" ? p.minor : p.major, p);
+  const selectSpoke = (i: number) => { setIdx(i); setSpiralAt(null); };
+  const selectFifths = (k: number) => { setSpiralAt(k); setIdx(mod12(k)); };
 
-  const tonicNameForSpelling = useMemo(() => {
-    const raw = mode === "major" ? pos.major : pos.minor;
-    return resolveEnharmonic(raw, pos.acc, enhPref);
-  }, [pos, mode, enhPref]);
+  // Every note label goes through the naming system; movable do and degrees count from the selected tonic
+  const nameOf = (note: string) => noteName(normalizeToken(note), naming, normalizeToken(tonicNameForSpelling));
+  const labelFor = (raw: string, p: Pos) => nameOf(resolveEnharmonic(raw, p.acc, enhPref));
+  const displayMain = (p: Pos) => nameOf(tonicAt(p, mode, enhPref));
+  // Relative key on the same spoke: the relative minor for major, the parent major for every other mode
+  const displayRel  = (p: Pos) => labelFor(mode === "major" ? p.minor : p.major, p);
 
   const spelledScale = useMemo(
-    () => buildScaleFromKeyName(tonicNameForSpelling, mode, enhPref),
-    [tonicNameForSpelling, mode, enhPref]
+    () => buildScaleFromKeyName(tonicNameForSpelling, mode),
+    [tonicNameForSpelling, mode]
   );
   const triads = useMemo(() => diatonicTriads(spelledScale, mode), [spelledScale, mode]);
   const sevenths = useMemo(() => diatonicSevenths(spelledScale, mode), [spelledScale, mode]);
   const chords = useSevenths ? sevenths : triads;
+  const paletteVoicings = useMemo(() => voiceSequence(chords.map(c => c.tones), voicing), [chords, voicing]);
+  const extended = useMemo(() => extendedPalette(spelledScale, mode, useSevenths), [spelledScale, mode, useSevenths]);
+
+  // Hovered chromatic chord: arrow from the spoke of its root (bass for augmented sixths) to its target's spoke
+  const hoverArrow = hoverChord && {
+    from: positionOfTonic(pitchClass(hoverChord.tones[0]), false),
+    to: positionOfTonic(pitchClass(hoverChord.target), false),
+  };
+  const highlightTones = hoverChord?.tones ?? hoverTones;
+  const addToProgression = (rn: string) => setProgression(p => ({ ...p, steps: [...p.steps, { rn, beats: 4 }] }));
+
+  // Live MIDI chord: named in the current key, matched to the palette and to a spoke on the circle
+  const heard = useMemo(() => nameChord(midi.notes, spelledScale), [midi.notes, spelledScale]);
+  const heardDiatonic = useMemo(
+    () => heard && findInPalettes(heard, useSevenths ? [sevenths, triads] : [triads, sevenths]),
+    [heard, triads, sevenths, useSevenths]
+  );
+  const heardSlice = heard ? positionOfTonic(pitchClass(heard.root), heard.minor) : -1;
+
+  // MIDI play-through: a voice per held key at its strike velocity, released on key-up
+  const midiVoices = useRef(new Map<number, number>());
+  const midiLevel = midi.levelOf;
+  useEffect(() => {
+    const held = new Set(midiThrough ? midi.notes : []);
+    midiVoices.current.forEach((id, m) => { if (!held.has(m)) { noteOff(id); midiVoices.current.delete(m); } });
+    held.forEach(m => {
+      if (!midiVoices.current.has(m)) midiVoices.current.set(m, noteOn(noteToFreq(spellInKey(mod12(m), spelledScale), octaveOf(m)), midiLevel(m)));
+    });
+  }, [midi.notes, midiLevel, midiThrough, noteOn, noteOff, noteToFreq, spelledScale]);
 
-  const selectedPretty = displayMain(pos);
-  const relativePretty = displayRel(pos);
+  // Key finder: rank every spoke against the entered notes/chords; best fit per spoke drives the heat map
+  const keyInput = useMemo(
+    () => parseKeyInput(keyFinderText, naming, normalizeToken(tonicNameForSpelling)),
+    [keyFinderText, naming, tonicNameForSpelling]
+  );
+  const keyCandidates = useMemo(() => detectKeys(keyInput.items, enhPref), [keyInput, enhPref]);
+  const heat = useMemo(() => keyCandidates.length ? keyHeat(keyCandidates) : null, [keyCandidates]);
+  const pickKey = (c: KeyCandidate) => {
+    selectSpoke(c.position);
+    setMode(c.mode);
+    if (c.enhPref) setEnhPref(c.enhPref);
+  };
+
+  // Progression steps are Roman numerals, so they re-spell whenever the key or mode changes
+  const progressionChords = useMemo(
+    () => progression.steps.map(s => chordForNumeral(s.rn, spelledScale, mode)),
+    [progression.steps, spelledScale, mode]
+  );
+  const progressionVoicings = useMemo(
+    () => voiceSequence(progressionChords.map(c => c?.tones ?? []), voicing),
+    [progressionChords, voicing]
+  );
+  const seqSettings = useRef<SeqSettings>({ steps: [], bpm: 96, loop: true, click: false });
+  useEffect(() => {
+    seqSettings.current = {
+      steps: progression.steps.map((s,i)=>({ beats: s.beats, freqs: voicedFreqs(progressionVoicings[i], noteToFreq) })),
+      bpm: progression.bpm, loop: progression.loop, click: progression.click,
+    };
+  });
+  const playProgression = () => {
+    let tick = 0;
+    setCadence(null);
+    startSequence(() => seqSettings.current, (index, dur) => setPlayhead(index === null ? null : { index, dur, tick: tick++ }));
+  };
+  const stopProgression = () => { stopSequence(); setPlayhead(null); setCadence(null); };
+
+  // Modulation paths play once as a cadence, two beats a chord, at the progression's tempo
+  const homeKey = useMemo((): KeyRef => ({ tonic: normalizeToken(tonicNameForSpelling), mode }), [tonicNameForSpelling, mode]);
+  const playCadence = (path: ModulationPath) => {
+    const voiced = voiceSequence(cadenceFor(path).map(c => c.tones), voicing);
+    const steps = voiced.map(v => ({ beats: 2, freqs: voicedFreqs(v, noteToFreq) }));
+    setPlayhead(null);
+    startSequence(
+      () => ({ steps, bpm: progression.bpm, loop: false, click: false }),
+      index => setCadence(index === null ? null : { path, step: index })
+    );
+  };
+  const arcPathShown = cadence?.path ?? shownPath;
+
+  // Ear-training questions play once, a beat a chord
+  const quiz = useQuiz(sound => {
+    const steps = sound.map(v => ({ beats: 1, freqs: voicedFreqs(v, noteToFreq) }));
+    setPlayhead(null);
+    setCadence(null);
+    startSequence(() => ({ steps, bpm: QUIZ_BPM, loop: false, click: false }), () => {});
+  });
+
+  const keySig = useMemo(() => keySignatureFor(tonicNameForSpelling, mode), [tonicNameForSpelling, mode]);
+  const keyFifths = keySig.fifths;
+  const selectedPretty = spiralAt === null ? displayMain(pos) : nameOf(tonicNameForSpelling);
+  const relativePretty = spiralAt === null
+    ? displayRel(pos)
+    : nameOf(tonicAtFifths(spiralAt, mode === "major" ? "aeolian" : "major"));
+  const parallelMode: Mode = mode === "major" ? "aeolian" : "major";
 
   // Keyboard shortcuts
+  const heldKeys = useRef(new Map<string, number>());   // Shift+digit → synth voice, released on key-up
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      if (e.key === "ArrowRight") setIdx(i => (i+1)%12);
-      if (e.key === "ArrowLeft")  setIdx(i => (i+11)%12);
+      if (e.target instanceof HTMLElement && e.target.closest("input, select, textarea")) return;
+      // Shift+1…8 holds scale degrees, tonic to tonic
+      const degree = /^Digit([1-8])$/.exec(e.code);
+      if (e.shiftKey && degree) {
+        if (!e.repeat && !heldKeys.current.has(e.code)) {
+          const v = ascendingLine([...spelledScale, spelledScale[0]], 4)[Number(degree[1]) - 1];
+          heldKeys.current.set(e.code, noteOn(noteToFreq(v.note, v.oct)));
+        }
+        e.preventDefault();
+        return;
+      }
+      const turn = e.key === "ArrowRight" ? 1 : e.key === "ArrowLeft" ? -1 : 0;
+      if (turn && view === "spiral") {
+        const k = Math.max(SPIRAL_MIN, Math.min(SPIRAL_MAX, keyFifths + turn));
+        setSpiralAt(k);
+        setIdx(mod12(k));
+      } else if (turn) {
+        setSpiralAt(null);
+        setIdx(i => mod12(i + turn));
+      }
       if (e.key.toLowerCase() === "m") setMode(m => m==="major"?"minor":"major");
+      if (e.key.toLowerCase() === "s") setMode(m => MODE_ORDER[(MODE_ORDER.indexOf(m)+1) % MODE_ORDER.length]);
       if (e.key === "7") setUseSevenths(v => !v);
       if (e.key.toLowerCase() === "h") setEnhPref(p => p==="auto" ? "sharps" : p==="sharps" ? "flats" : "auto");
       if (e.key === " ") {
-        const freqs = [spelledScale[0], spelledScale[2], spelledScale[4]].map((n,j)=> noteToFreq(n, j<2?4:5));
-        playChord(freqs);
+        playChord(voicedFreqs(voiceChord([spelledScale[0], spelledScale[2], spelledScale[4]], voicing), noteToFreq));
         e.preventDefault();
       }
     };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const id = heldKeys.current.get(e.code);
+      if (id === undefined) return;
+      noteOff(id);
+      heldKeys.current.delete(e.code);
+    };
+    // A key released while the window is unfocused never sends key-up, so let go of everything held
+    const onBlur = () => {
+      heldKeys.current.forEach(id => noteOff(id));
+      heldKeys.current.clear();
+    };
     window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [spelledScale, noteToFreq, playChord]);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    };
+  }, [spelledScale, voicing, noteToFreq, playChord, noteOn, noteOff, view, keyFifths]);
 
   return (
     <div className="min-h-screen bg-[radial-gradient(60%_80%_at_70%_10%,rgba(99,102,241,.18),transparent),radial-gradient(50%_60%_at_20%_20%,rgba(236,72,153,.18),transparent)] bg-white text-slate-900">
@@ -333,8 +322,7 @@ export default function CircleOfFifths() {
             <strong className="text-sm md:text-base">Circle of Fifths</strong>
           </div>
           <div className="hidden sm:flex items-center gap-2">
-            <Seg active={mode==="major"} onClick={()=>setMode("major")}>Major</Seg>
-            <Seg active={mode==="minor"} onClick={()=>setMode("minor")}>Minor (harmonic)</Seg>
+            <ModeSelect mode={mode} onChange={setMode} />
             <label className="ml-2 inline-flex items-center gap-2 text-xs md:text-sm">
               <input type="checkbox" className="rounded border-slate-300" checked={showRel} onChange={(e)=>setShowRel(e.target.checked)} />
               <span>{mode==="major"?"Show relative minors":"Show relative majors"}</span>
@@ -366,8 +354,7 @@ export default function CircleOfFifths() {
           <Seg active={enhPref==="flats"}  onClick={()=>setEnhPref("flats")}>♭</Seg>
         </div>
         <div className="sm:hidden px-4 pb-3 flex items-center gap-2">
-          <Seg active={mode==="major"} onClick={()=>setMode("major")}>Major</Seg>
-          <Seg active={mode==="minor"} onClick={()=>setMode("minor")}>Minor</Seg>
+          <ModeSelect mode={mode} onChange={setMode} />
           <label className="ml-1 inline-flex items-center gap-2 text-xs">
             <input type="checkbox" className="rounded" checked={showRel} onChange={(e)=>setShowRel(e.target.checked)} />
             <span>Rel</span>
@@ -379,6 +366,20 @@ export default function CircleOfFifths() {
       <main className="max-w-6xl mx-auto px-4 py-6 grid gap-6 lg:grid-cols-[520px_1fr]">
         {/* Circle */}
         <section aria-label="Circle of Fifths" className="rounded-2xl bg-white/90 p-4 border border-slate-200 shadow-sm">
+          <div className="flex justify-between items-center gap-1 text-xs mb-2">
+            <select
+              aria-label="Note names"
+              value={naming}
+              onChange={(e)=>setNaming(e.target.value as NoteNaming)}
+              className="px-2 py-1 rounded-lg border border-slate-300 bg-white/80"
+            >
+              {NOTE_NAMINGS.map(n => <option key={n.naming} value={n.naming}>{n.label}</option>)}
+            </select>
+            <span className="inline-flex items-center gap-1">
+              <Seg active={view==="circle"} onClick={()=>setView("circle")}>Circle</Seg>
+              <Seg active={view==="spiral"} onClick={()=>setView("spiral")}>Spiral</Seg>
+            </span>
+          </div>
           <motion.svg
             initial={{ opacity: 0, scale: 0.98 }}
             animate={{ opacity: 1, scale: 1 }}
@@ -388,7 +389,23 @@ export default function CircleOfFifths() {
             viewBox={`0 0 ${CENTER*2} ${CENTER*2}`}
             role="img"
           >
-            {POSITIONS.map((p,i)=>{
+            {view === "spiral" && (
+              <SpiralOfFifths
+                center={CENTER}
+                mode={mode}
+                selected={keyFifths}
+                showRel={showRel}
+                name={nameOf}
+                onSelect={k=>{
+                  if (quiz.awaitingSpoke) { quiz.answer(String(k)); return; }
+                  selectFifths(k);
+                  const local = buildScaleFromKeyName(tonicAtFifths(k, mode), mode);
+                  playTones([local[0], local[2], local[4]]);
+                }}
+                onHover={k=>playFreq(noteToFreq(normalizeToken(tonicAtFifths(k, mode)), 4))}
+              />
+            )}
+            {view === "circle" && POSITIONS.map((p,i)=>{
               const a0 = -Math.PI/2 + (i*TAU)/12;
               const a1 = -Math.PI/2 + ((i+1)*TAU)/12;
               const path = arcPath(CENTER, CENTER, OUTER_R, INNER_R, a0, a1);
@@ -401,9 +418,7 @@ export default function CircleOfFifths() {
               const mainLabel = displayMain(p);
               const subLabel  = showRel ? displayRel(p) : "";
 
-              const resolvedTonicRaw = mode==="major"
-                ? resolveEnharmonic(p.major, p.acc, enhPref)
-                : resolveEnharmonic(p.minor, p.acc, enhPref);
+              const resolvedTonicRaw = tonicAt(p, mode, enhPref);
 
               return (
                 <motion.g
@@ -414,17 +429,17 @@ export default function CircleOfFifths() {
                   className="cursor-pointer focus:outline-none"
                   whileHover={{ scale: 1.012 }}
                   onClick={()=>{
-                    setIdx(i);
-                    const local = buildScaleFromKeyName(resolvedTonicRaw, mode, enhPref);
-                    const freqs = [local[0], local[2], local[4]].map((n,j)=> noteToFreq(n, j<2?4:5));
-                    playChord(freqs);
+                    if (quiz.awaitingSpoke) { quiz.answer(String(p.acc)); return; }
+                    selectSpoke(i);
+                    const local = buildScaleFromKeyName(resolvedTonicRaw, mode);
+                    playTones([local[0], local[2], local[4]]);
                   }}
                   onKeyDown={(e)=>{
                     if(e.key==="Enter"||e.key===" "){
-                      setIdx(i);
-                      const local = buildScaleFromKeyName(resolvedTonicRaw, mode, enhPref);
-                      const freqs = [local[0], local[2], local[4]].map((n,j)=> noteToFreq(n, j<2?4:5));
-                      playChord(freqs);
+                      if (quiz.awaitingSpoke) { quiz.answer(String(p.acc)); return; }
+                      selectSpoke(i);
+                      const local = buildScaleFromKeyName(resolvedTonicRaw, mode);
+                      playTones([local[0], local[2], local[4]]);
                     }
                   }}
                   onMouseEnter={()=>{
@@ -433,6 +448,15 @@ export default function CircleOfFifths() {
                   }}
                 >
                   <path d={path} fill={sliceFill(i,isSel)} stroke={sliceStroke(i)} strokeWidth={isSel?2:1} />
+                  {heat && heat[i] > 0 && (
+                    <path d={path} fill={`rgba(16,185,129,${(heat[i]**3*0.55).toFixed(3)})`} stroke="none" pointerEvents="none" />
+                  )}
+                  {hoverArrow && (i===hoverArrow.from || i===hoverArrow.to) && (
+                    <path d={path} fill="rgba(139,92,246,.16)" stroke="#8b5cf6" strokeWidth={2} strokeDasharray={i===hoverArrow.to ? undefined : "4 3"} pointerEvents="none" />
+                  )}
+                  {i===heardSlice && (
+                    <path d={path} fill="rgba(245,158,11,.28)" stroke="#f59e0b" strokeWidth={3} pointerEvents="none" />
+                  )}
                   <text x={lx} y={ly-2} textAnchor="middle" fontSize={14} fontWeight={800} className="select-none fill-slate-900">
                     {mainLabel}
                   </text>
@@ -451,6 +475,12 @@ export default function CircleOfFifths() {
                 <stop offset="0%" stopColor="#a78bfa" stopOpacity={0.35} />
                 <stop offset="100%" stopColor="transparent" />
               </radialGradient>
+              <marker id="arrowHead" viewBox="0 0 10 10" refX={8} refY={5} markerWidth={7} markerHeight={7} orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#7c3aed" />
+              </marker>
+              <marker id="pathHead" viewBox="0 0 10 10" refX={8} refY={5} markerWidth={5} markerHeight={5} orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="#0d9488" />
+              </marker>
             </defs>
             <circle cx={CENTER} cy={CENTER} r={INNER_R-40} fill="#fff" stroke="#e2e8f0" />
             <circle cx={CENTER} cy={CENTER} r={INNER_R-72} fill="url(#centerGlow)" />
@@ -458,8 +488,30 @@ export default function CircleOfFifths() {
               {selectedPretty}
             </text>
             <text x={CENTER} y={CENTER+16} textAnchor="middle" fontSize={12}>
-              {mode==="major" ? "Key" : "Scale (harmonic minor)"}
+              {MODES[mode].caption}
             </text>
+            {view === "circle" && arcPathShown && (
+              <g pointerEvents="none">
+                {arcPathShown.hops.map((h, j) => {
+                  const { steps } = circleDistance(h.from, h.to);
+                  return steps !== 0 && (
+                    <path key={j} d={ringArcPath(keySpoke(h.from), steps)} fill="none" stroke="#0d9488" strokeWidth={3} strokeLinecap="round"
+                      opacity={cadence && Math.floor((cadence.step - 1) / 3) !== j ? 0.45 : 1} markerEnd="url(#pathHead)" />
+                  );
+                })}
+                {arcPathShown.keys.map((k, j) => {
+                  const [x, y] = spokePoint(keySpoke(k));
+                  return <circle key={j} cx={x} cy={y} r={j === 0 || j === arcPathShown.keys.length - 1 ? 5 : 3.5} fill="#0d9488" stroke="#fff" strokeWidth={1.5} />;
+                })}
+              </g>
+            )}
+            {view === "circle" && hoverArrow && hoverArrow.from !== hoverArrow.to && (
+              <path
+                d={spokeArrowPath(hoverArrow.from, hoverArrow.to)}
+                fill="none" stroke="#7c3aed" strokeWidth={2.5} strokeLinecap="round"
+                markerEnd="url(#arrowHead)" pointerEvents="none"
+              />
+            )}
           </motion.svg>
         </section>
 
@@ -469,55 +521,157 @@ export default function CircleOfFifths() {
           <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
             <h2 className="text-base md:text-lg font-semibold mb-3">{selectedPretty} overview</h2>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-              <InfoTile label="Scale" value={spelledScale.map(pretty).join(" ")} />
+              <InfoTile label="Scale" value={spelledScale.map(nameOf).join(" ")} />
               <InfoTile label={mode==="major"?"Relative minor":"Relative major"} value={relativePretty} />
-              <InfoTile label="Accidentals" value={
-                (() => {
-                  const tonic = normalizeToken(tonicNameForSpelling);
-                  const sig = mode==="major"
-                    ? signatureForMajorName(tonic)
-                    : signatureForMajorName(relativeMajorFromMinor(tonicNameForSpelling, enhPref));
-                  if (sig.count === 0) return "—";
-                  const order = sig.type === "#" ? ORDER_SHARPS : ORDER_FLATS;
-                  return order.slice(0, sig.count).map(pretty).join(" ");
-                })()
-              } />
+              <InfoTile label={parallelMode==="major"?"Parallel major":"Parallel minor"} value={`${selectedPretty} ${MODES[parallelMode].label.toLowerCase()}`} />
+              <InfoTile label="Accidentals" value={keySig.count === 0 ? "—" : signatureNotes(keySig).map(nameOf).join(" ")} />
             </div>
           </div>
 
+          <TuningPanel temperament={temperament} scale={spelledScale} onChange={setTuning} name={nameOf} />
+
+          <SynthPanel synth={synth} onChange={setSynth} onTry={()=>playTones([spelledScale[0], spelledScale[2], spelledScale[4]])} />
+
           {/* Chord palette */}
           <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
             <div className="flex items-center justify-between mb-3">
               <h3 className="text-base md:text-lg font-semibold">Diatonic {useSevenths ? "7th chords" : "triads"}</h3>
-              <label className="inline-flex items-center gap-2 text-sm opacity-90">
-                <input type="checkbox" className="rounded border-slate-300" checked={useSevenths} onChange={(e)=>setUseSevenths(e.target.checked)} />
-                <span>Use 7th chords</span>
-              </label>
+              <div className="flex items-center gap-3">
+                <label className="inline-flex items-center gap-2 text-sm opacity-90">
+                  <input type="checkbox" className="rounded border-slate-300" checked={useSevenths} onChange={(e)=>setUseSevenths(e.target.checked)} />
+                  <span>Use 7th chords</span>
+                </label>
+                <label className="inline-flex items-center gap-2 text-sm opacity-90">
+                  <input type="checkbox" className="rounded border-slate-300" checked={showExtended} onChange={(e)=>{ setShowExtended(e.target.checked); setHoverChord(null); }} />
+                  <span>Chromatic</span>
+                </label>
+              </div>
             </div>
 
+            <VoicingControls voicing={voicing} onChange={setVoicing} />
+
             <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
               {chords.map((c,i)=>(
-                <motion.button
-                  key={i}
-                  whileHover={{ y: -3 }}
-                  whileTap={{ scale: 0.98 }}
-                  onClick={()=>{
-                    const freqs = c.tones.map((n,j)=> (j<2 ? noteToFreq(n,4) : noteToFreq(n,5)));
-                    playChord(freqs);
-                  }}
-                  className="text-left rounded-xl border bg-gradient-to-br from-indigo-600 to-fuchsia-600 text-white p-3 shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60"
-                >
-                  <div className="text-[11px] opacity-85">{c.rn}</div>
-                  <div className="font-semibold leading-tight">{c.tones.map(pretty).join(" ")}</div>
-                </motion.button>
+                <motion.div key={i} whileHover={{ y: -3 }} className="relative" onMouseEnter={()=>setHoverTones(c.tones)} onMouseLeave={()=>setHoverTones(null)}>
+                  <motion.button
+                    whileTap={{ scale: 0.98 }}
+                    onClick={()=>playTones(c.tones)}
+                    className={`w-full text-left rounded-xl border bg-gradient-to-br from-indigo-600 to-fuchsia-600 text-white p-3 shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60
+                      ${heardDiatonic?.degree===i ? "ring-4 ring-amber-400" : ""}`}
+                  >
+                    <div className="text-[11px] opacity-85">{pretty(c.rn)}</div>
+                    <div className="font-semibold leading-tight">{c.tones.map(nameOf).join(" ")}</div>
+                  </motion.button>
+                  <button
+                    aria-label={`Add ${c.rn} to progression`}
+                    title="Add to progression"
+                    onClick={()=>addToProgression(c.rn)}
+                    className="absolute top-1.5 right-1.5 h-6 w-6 rounded-lg bg-white/20 text-white text-sm leading-none hover:bg-white/35 focus:outline-none focus-visible:ring-2 focus-visible:ring-white/60"
+                  >
+                    +
+                  </button>
+                </motion.div>
               ))}
             </div>
+
+            {showExtended && (
+              <ExtendedPalette
+                chords={extended}
+                name={nameOf}
+                onPlay={c=>playTones(c.tones)}
+                onAdd={c=>addToProgression(c.rn)}
+                onHover={setHoverChord}
+              />
+            )}
           </div>
+
+          <InstrumentsPanel
+            scale={spelledScale}
+            highlight={highlightTones}
+            onPlay={(midi, name)=>playFreq(noteToFreq(name, octaveOf(midi)))}
+            name={nameOf}
+          />
+
+          <NotationPanel
+            tonic={tonicNameForSpelling}
+            mode={mode}
+            scale={spelledScale}
+            chords={chords}
+            voicings={paletteVoicings}
+            onNote={v=>playFreq(noteToFreq(v.note, v.oct))}
+            onChord={c=>playTones(c.tones)}
+            name={nameOf}
+          />
+
+          <KeyFinderPanel
+            text={keyFinderText}
+            onText={setKeyFinderText}
+            candidates={keyCandidates}
+            errors={keyInput.errors}
+            scale={spelledScale}
+            onPick={pickKey}
+            name={nameOf}
+          />
+
+          <QuizPanel quiz={quiz} name={nameOf} />
+
+          <ModulationPanel
+            home={homeKey}
+            enhPref={enhPref}
+            playing={cadence}
+            onPlay={playCadence}
+            onShow={setShownPath}
+            name={nameOf}
+          />
+
+          <ChartPanel circleIndex={idx} enhPref={enhPref} name={nameOf} />
+
+          <MidiInputPanel
+            status={midi.status}
+            devices={midi.devices}
+            notes={midi.notes}
+            scale={spelledScale}
+            match={heard}
+            numeral={heardDiatonic?.chord.rn}
+            monitor={midiThrough}
+            onMonitor={setMidiThrough}
+            onConnect={midi.connect}
+            onDisconnect={midi.disconnect}
+            name={nameOf}
+          />
+
+          <ProgressionPanel
+            progression={progression}
+            onChange={setProgression}
+            chords={progressionChords}
+            playhead={playhead}
+            onPlay={playProgression}
+            onStop={stopProgression}
+            name={nameOf}
+          />
+
+          <ExportPanel
+            tonic={tonicNameForSpelling}
+            mode={mode}
+            caption={`${nameOf(tonicNameForSpelling)} ${MODES[mode].label}`}
+            scale={spelledScale}
+            chords={chords}
+            chordsLabel={useSevenths ? "sevenths" : "triads"}
+            steps={progression.steps}
+            stepChords={progressionChords}
+            bpm={progression.bpm}
+            voicing={voicing}
+            currentChord={()=>lastVoiced.current}
+            synth={synth}
+            noteToFreq={noteToFreq}
+          />
+
+          <PosterPanel enhPref={enhPref} name={nameOf} />
         </section>
       </main>
 
       <footer className="max-w-6xl mx-auto px-4 pb-8 text-xs opacity-70">
-        Tip: ←/→ navigate • M Major/Minor • 7 toggle 7ths • H cycles Enh (Auto → ♯ → ♭) • Space plays tonic.
+        Tip: ←/→ navigate • M Major/Minor • S cycles scale type • 7 toggle 7ths • H cycles Enh (Auto → ♯ → ♭) • Space plays tonic • ⇧1–8 play scale degrees.
       </footer>
     </div>
   );
@@ -0,0 +1,72 @@
+/* ============================================================
+   Synth presets — plain data: add an entry to SYNTH_PRESETS for a new sound
+   ============================================================ */
+
+export type OscShape = "sine" | "triangle" | "sawtooth" | "square";
+
+/** One oscillator of a voice: `octave` shifts it whole octaves, `detune` in cents thickens it. */
+export type OscLayer = { shape: OscShape; level: number; octave?: number; detune?: number };
+
+/** Seconds for attack, decay and release; sustain is a share of the peak, 0–1. */
+export type Envelope = { attack: number; decay: number; sustain: number; release: number };
+
+/** Per-voice filter. `sweep` opens the cutoff that many octaves at the attack and closes it over the decay. */
+export type FilterSpec = { type: "lowpass" | "highpass" | "bandpass"; cutoff: number; q: number; sweep?: number };
+
+export type SynthPreset = {
+  id: string;
+  label: string;
+  layers: OscLayer[];
+  envelope: Envelope;
+  filter?: FilterSpec;
+  level: number;        // peak gain of one voice
+};
+
+export const SYNTH_PRESETS: SynthPreset[] = [
+  {
+    id: "sine", label: "Sine",
+    layers: [{ shape: "sine", level: 1 }],
+    envelope: { attack: 0.02, decay: 0.3, sustain: 0.6, release: 0.25 },
+    level: 0.28,
+  },
+  {
+    id: "ep", label: "Electric piano",
+    layers: [{ shape: "sine", level: 1 }, { shape: "triangle", level: 0.25, octave: 1, detune: 4 }, { shape: "sine", level: 0.12, octave: 2 }],
+    envelope: { attack: 0.004, decay: 1.4, sustain: 0.25, release: 0.35 },
+    filter: { type: "lowpass", cutoff: 2800, q: 0.7, sweep: 1 },
+    level: 0.3,
+  },
+  {
+    id: "organ", label: "Organ",
+    layers: [{ shape: "sine", level: 1 }, { shape: "sine", level: 0.6, octave: 1 }, { shape: "sine", level: 0.5, octave: -1 }, { shape: "sine", level: 0.25, octave: 2 }],
+    envelope: { attack: 0.01, decay: 0.05, sustain: 1, release: 0.06 },
+    level: 0.16,
+  },
+  {
+    id: "pluck", label: "Pluck / guitar",
+    layers: [{ shape: "sawtooth", level: 0.7 }, { shape: "triangle", level: 0.5, detune: -3 }],
+    envelope: { attack: 0.002, decay: 0.9, sustain: 0, release: 0.15 },
+    filter: { type: "lowpass", cutoff: 900, q: 2, sweep: 2.5 },
+    level: 0.32,
+  },
+  {
+    id: "pad", label: "Pad",
+    layers: [{ shape: "sawtooth", level: 0.5, detune: -9 }, { shape: "sawtooth", level: 0.5, detune: 9 }, { shape: "triangle", level: 0.4, octave: -1 }],
+    envelope: { attack: 0.6, decay: 0.8, sustain: 0.8, release: 1.2 },
+    filter: { type: "lowpass", cutoff: 1400, q: 0.8 },
+    level: 0.18,
+  },
+  {
+    id: "strings", label: "Strings",
+    layers: [{ shape: "sawtooth", level: 0.5, detune: -6 }, { shape: "sawtooth", level: 0.5, detune: 7 }, { shape: "sawtooth", level: 0.25, octave: 1, detune: 2 }],
+    envelope: { attack: 0.18, decay: 0.4, sustain: 0.85, release: 0.45 },
+    filter: { type: "lowpass", cutoff: 2600, q: 0.6, sweep: 0.5 },
+    level: 0.16,
+  },
+];
+
+export const DEFAULT_PRESET = "ep";
+
+/** Preset by id; unknown ids (say, from an older save) fall back to the default. */
+export const presetById = (id: string) =>
+  SYNTH_PRESETS.find(p => p.id === id) ?? SYNTH_PRESETS.find(p => p.id === DEFAULT_PRESET)!;
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { RENDER_SAMPLE_RATE, renderSequence, renderTimeline } from "./render";
+import type { RenderContext } from "./render";
+import { DEFAULT_SYNTH, tailSeconds } from "./synth";
+
+const steps = (...beats: number[]) => beats.map(b => ({ beats: b, freqs: [440] }));
+
+describe("renderTimeline", () => {
+  it("lays steps end to end after the lead-in", () => {
+    const { events, seconds } = renderTimeline({ steps: steps(1, 2, 4), bpm: 120, loop: true, click: false });
+    expect(events.map(e => [e.index, e.time, e.dur])).toEqual([[0, 0.02, 0.5], [1, 0.52, 1], [2, 1.52, 2]]);
+    expect(seconds).toBeCloseTo(3.67, 10);
+  });
+
+  it("plays a step at least one beat long", () => {
+    const { events } = renderTimeline({ steps: steps(0, 0.5), bpm: 60, loop: false, click: false });
+    expect(events.map(e => e.dur)).toEqual([1, 1]);
+  });
+
+  it("renders nothing but the lead-in for an empty sequence", () => {
+    const { events, seconds } = renderTimeline({ steps: [], bpm: 120, loop: false, click: false });
+    expect(events).toEqual([]);
+    expect(seconds).toBeCloseTo(0.17, 10);
+  });
+});
+
+/** Just enough of an OfflineAudioContext to record when oscillators start and stop. */
+function fakeContext(channels: number, length: number, sampleRate: number) {
+  const starts: number[] = [], stops: number[] = [];
+  const param = () => ({ value: 0, setValueAtTime() {}, linearRampToValueAtTime() {}, exponentialRampToValueAtTime() {}, cancelScheduledValues() {} });
+  const node = <T extends object>(extra: T) => ({ connect: (to: unknown) => to, ...extra });
+  const ctx = {
+    sampleRate,
+    destination: node({}),
+    createGain: () => node({ gain: param() }),
+    createDelay: () => node({ delayTime: param() }),
+    createConvolver: () => node({ buffer: null }),
+    createBiquadFilter: () => node({ type: "lowpass", frequency: param(), Q: param() }),
+    createOscillator: () => node({ type: "sine", frequency: param(), detune: param(), start: (t: number) => starts.push(t), stop: (t: number) => stops.push(t) }),
+    createBuffer: (_: number, n: number) => ({ getChannelData: () => new Float32Array(n) }),
+    startRendering: async () => ({ numberOfChannels: channels, getChannelData: () => new Float32Array(length) }),
+  };
+  return { ctx: ctx as unknown as RenderContext, starts, stops, length };
+}
+
+describe("renderSequence", () => {
+  it("schedules every step at its time and sizes the buffer for the tail", async () => {
+    let fake: ReturnType<typeof fakeContext> | undefined;
+    const synth = { ...DEFAULT_SYNTH, preset: "sine" };
+    const out = await renderSequence(
+      { steps: steps(1, 1), bpm: 120, loop: false, click: false },
+      { synth, sampleRate: 8000, createContext: (c, n, r) => (fake = fakeContext(c, n, r)).ctx },
+    );
+    expect(out.sampleRate).toBe(8000);
+    expect(out.channels).toHaveLength(1);
+    expect(fake!.length).toBe(Math.ceil((0.02 + 1 + 0.15 + tailSeconds(synth)) * 8000));
+    // One sine layer per note: starts on each step, stops after 95% of it plus the release
+    expect(fake!.starts).toEqual([0.02, 0.52]);
+    const release = 0.25;
+    expect(fake!.stops[0]).toBeCloseTo(0.02 + 0.475 + release + 0.02, 10);
+    expect(fake!.stops[1]).toBeCloseTo(0.52 + 0.475 + release + 0.02, 10);
+  });
+
+  it("defaults to CD sample rate", async () => {
+    let rate = 0;
+    await renderSequence({ steps: steps(1), bpm: 120, loop: false, click: false }, {
+      createContext: (c, n, r) => { rate = r; return fakeContext(c, n, r).ctx; },
+    });
+    expect(rate).toBe(RENDER_SAMPLE_RATE);
+  });
+
+  it("passes context failures to the caller", async () => {
+    await expect(renderSequence({ steps: steps(1), bpm: 120, loop: false, click: false }, {
+      createContext: () => { throw new Error("no audio"); },
+    })).rejects.toThrow("no audio");
+  });
+});
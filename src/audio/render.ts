@@ -0,0 +1,51 @@
+/* ============================================================
+   Offline rendering — sequences to sample buffers
+   ============================================================ */
+import { advance } from "./sequencer";
+import type { SeqSettings } from "./sequencer";
+import { createSynth, DEFAULT_SYNTH, tailSeconds } from "./synth";
+import type { SynthSettings } from "./synth";
+import { scheduleChord, scheduleClick } from "./voices";
+
+export const RENDER_SAMPLE_RATE = 44100;
+const LEAD_IN = 0.02;   // seconds of silence before the first step
+const TAIL = 0.15;      // headroom past the last release and effect tail
+
+/** What the renderer needs from an offline context; a stand-in can replace OfflineAudioContext. */
+export type RenderContext = BaseAudioContext & { startRendering(): Promise<AudioBuffer> };
+export type RenderContextFactory = (channels: number, length: number, sampleRate: number) => RenderContext;
+
+export type RenderOptions = { sampleRate?: number; gain?: number; synth?: SynthSettings; createContext?: RenderContextFactory };
+
+/** Every step of one pass through `s` (never looped), with the length of audio it needs. */
+export function renderTimeline(s: SeqSettings) {
+  const r = advance({ ...s, loop: false }, { index: 0, time: LEAD_IN }, Infinity);
+  return { events: r.events, seconds: r.end + TAIL };
+}
+
+type OfflineCtor = typeof OfflineAudioContext;
+
+const browserContext: RenderContextFactory = (channels, length, sampleRate) => {
+  // Older Safari only has the prefixed constructor
+  const w = window as unknown as { OfflineAudioContext?: OfflineCtor; webkitOfflineAudioContext?: OfflineCtor };
+  const Ctor = w.OfflineAudioContext ?? w.webkitOfflineAudioContext;
+  if (!Ctor) throw new Error("this browser cannot render audio offline");
+  return new Ctor(channels, length, sampleRate);
+};
+
+/** Play `s` once through the same synth as live playback, faster than real time, into mono samples. */
+export async function renderSequence(s: SeqSettings, opts: RenderOptions = {}) {
+  const { sampleRate = RENDER_SAMPLE_RATE, gain = 0.7, synth: settings = DEFAULT_SYNTH, createContext = browserContext } = opts;
+  const { events, seconds } = renderTimeline(s);
+  const ctx = createContext(1, Math.ceil((seconds + tailSeconds(settings)) * sampleRate), sampleRate);
+  const bus = ctx.createGain();
+  bus.gain.value = gain;
+  bus.connect(ctx.destination);
+  const synth = createSynth(ctx, bus, settings);
+  events.forEach(ev => {
+    scheduleChord(synth, s.steps[ev.index].freqs, ev.time, ev.dur * 0.95);
+    if (s.click) for (let b = 0; b * ev.beatDur < ev.dur - 1e-6; b++) scheduleClick(ctx, bus, ev.time + b*ev.beatDur, b === 0);
+  });
+  const buffer = await ctx.startRendering();
+  return { channels: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c)), sampleRate };
+}
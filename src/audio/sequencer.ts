@@ -0,0 +1,36 @@
+/* ============================================================
+   Sequencer — pure timing for progression playback
+   ============================================================ */
+
+/** One chord slot as the audio engine sees it: already-voiced frequencies + length in beats. */
+export type SeqStep = { freqs: number[]; beats: number };
+
+export type SeqSettings = { steps: SeqStep[]; bpm: number; loop: boolean; click: boolean };
+
+/** Where the scheduler is: next step to play and its start time on the AudioContext clock. */
+export type SeqCursor = { index: number; time: number };
+
+export type SeqEvent = { index: number; time: number; dur: number; beatDur: number };
+
+export const beatSeconds = (bpm: number) => 60 / Math.max(1, bpm);
+
+/** Emit every step starting before `horizon` (seconds, context time).
+ *  Settings are read on each call, so edits (key, BPM, beats) apply from the next unscheduled step.
+ *  `done` is set once a non-looping run has scheduled its last step, with `end` = its release time.
+ */
+export function advance(s: SeqSettings, cursor: SeqCursor, horizon: number) {
+  const events: SeqEvent[] = [];
+  let { index, time } = cursor;
+  while (time < horizon) {
+    if (index >= s.steps.length) {
+      if (!s.loop || s.steps.length === 0) return { events, cursor: { index, time }, done: true, end: time };
+      index = 0;
+    }
+    const beatDur = beatSeconds(s.bpm);
+    const dur = Math.max(1, s.steps[index].beats) * beatDur;
+    events.push({ index, time, dur, beatDur });
+    time += dur;
+    index++;
+  }
+  return { events, cursor: { index, time }, done: false, end: time };
+}
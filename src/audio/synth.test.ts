@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRESET, SYNTH_PRESETS, presetById } from "./presets";
+import { DEFAULT_SYNTH, createSynth, tailSeconds } from "./synth";
+import type { SynthSettings } from "./synth";
+
+type Event = [method: string, value: number, time: number];
+
+/** Just enough of an audio context to record every node the synth builds and every automation call. */
+function recordingContext() {
+  const param = () => {
+    const events: Event[] = [];
+    const p = {
+      value: 0,
+      events,
+      setValueAtTime: (v: number, t: number) => { events.push(["set", v, t]); p.value = v; },
+      linearRampToValueAtTime: (v: number, t: number) => events.push(["linear", v, t]),
+      exponentialRampToValueAtTime: (v: number, t: number) => events.push(["exp", v, t]),
+      cancelScheduledValues: (t: number) => events.push(["cancel", 0, t]),
+    };
+    return p;
+  };
+  const node = <T extends object>(extra: T) => ({ connect: (to: unknown) => to, ...extra });
+  const gains: ReturnType<typeof gain>[] = [], oscs: ReturnType<typeof osc>[] = [], filters: ReturnType<typeof filter>[] = [];
+  const gain = () => node({ gain: param() });
+  const osc = () => node({ type: "sine", frequency: param(), detune: param(), starts: [] as number[], stops: [] as number[],
+    start(t: number) { this.starts.push(t); }, stop(t: number) { this.stops.push(t); } });
+  const filter = () => node({ type: "lowpass", frequency: param(), Q: param() });
+  const ctx = {
+    sampleRate: 8000,
+    createGain: () => { const g = gain(); gains.push(g); return g; },
+    createDelay: () => node({ delayTime: param() }),
+    createConvolver: () => node({ buffer: null }),
+    createBiquadFilter: () => { const f = filter(); filters.push(f); return f; },
+    createOscillator: () => { const o = osc(); oscs.push(o); return o; },
+    createBuffer: (_: number, n: number) => ({ getChannelData: () => new Float32Array(n) }),
+  };
+  return { ctx: ctx as unknown as BaseAudioContext, gains, oscs, filters };
+}
+
+const synthWith = (settings: Partial<SynthSettings> = {}) => {
+  const rec = recordingContext();
+  const synth = createSynth(rec.ctx, {} as AudioNode, { ...DEFAULT_SYNTH, ...settings });
+  const shared = rec.gains.length;   // bus, reverb send, delay send, feedback
+  /** The amp (attack/decay) and release gains of the nth voice started. */
+  const voice = (n: number) => {
+    const layers = presetById(settings.preset ?? DEFAULT_SYNTH.preset).layers.length;
+    const first = shared + n * (2 + layers);
+    return { amp: rec.gains[first].gain, release: rec.gains[first + 1].gain, layerGains: rec.gains.slice(first + 2, first + 2 + layers) };
+  };
+  return { synth, voice, ...rec };
+};
+
+describe("voices", () => {
+  it.each(SYNTH_PRESETS.map(p => [p.id, p] as const))("builds %s from its layers", (id, preset) => {
+    const { synth, oscs, voice } = synthWith({ preset: id });
+    synth.noteOn(220, 1);
+    expect(oscs.map(o => o.type)).toEqual(preset.layers.map(l => l.shape));
+    expect(oscs.map(o => o.frequency.events)).toEqual(preset.layers.map(l => [["set", 220 * 2 ** (l.octave ?? 0), 1]]));
+    expect(oscs.map(o => o.detune.events)).toEqual(preset.layers.map(l => [["set", l.detune ?? 0, 1]]));
+    expect(oscs.map(o => o.starts)).toEqual(preset.layers.map(() => [1]));
+    expect(voice(0).layerGains.map(g => g.gain.value)).toEqual(preset.layers.map(l => l.level));
+  });
+
+  it.each(SYNTH_PRESETS.map(p => [p.id, p] as const))("shapes %s with its envelope", (id, preset) => {
+    const { synth, voice } = synthWith({ preset: id });
+    synth.noteOn(440, 2);
+    const { attack, decay, sustain } = preset.envelope;
+    expect(voice(0).amp.events).toEqual([
+      ["set", 0, 2],
+      ["linear", preset.level, 2 + attack],
+      ["linear", preset.level * sustain, 2 + attack + decay],
+    ]);
+    expect(voice(0).release.events).toEqual([["set", 1, 2]]);
+  });
+
+  it("scales the peak and sustain by velocity", () => {
+    const { synth, voice } = synthWith({ preset: "sine" });
+    synth.noteOn(440, 0, 0.5);
+    const { level, envelope } = presetById("sine");
+    expect(voice(0).amp.events.map(e => e[1])).toEqual([0, level * 0.5, level * 0.5 * envelope.sustain]);
+  });
+
+  it("sweeps the filter down from above the cutoff over the attack and decay", () => {
+    const { synth, filters } = synthWith({ preset: "pluck" });
+    synth.noteOn(110, 0);
+    const { filter, envelope } = presetById("pluck");
+    expect(filters).toHaveLength(1);
+    expect(filters[0].type).toBe("lowpass");
+    expect(filters[0].frequency.events).toEqual([
+      ["set", filter!.cutoff * 2 ** filter!.sweep!, 0],
+      ["exp", filter!.cutoff, envelope.attack + envelope.decay],
+    ]);
+  });
+
+  it("holds the cutoff still without a sweep and adds no filter to presets without one", () => {
+    const pad = synthWith({ preset: "pad" });
+    pad.synth.noteOn(110, 0);
+    expect(pad.filters[0].frequency.events).toEqual([["set", presetById("pad").filter!.cutoff, 0]]);
+    const sine = synthWith({ preset: "sine" });
+    sine.synth.noteOn(110, 0);
+    expect(sine.filters).toEqual([]);
+  });
+});
+
+describe("release and stealing", () => {
+  it("fades over the release time from key-up and stops the oscillators after it", () => {
+    const { synth, voice, oscs } = synthWith({ preset: "sine" });
+    const { release } = presetById("sine").envelope;
+    synth.noteOff(synth.noteOn(440, 0), 1);
+    expect(voice(0).release.events).toEqual([["set", 1, 0], ["set", 1, 1], ["linear", 0, 1 + release]]);
+    expect(oscs[0].stops).toEqual([1 + release + 0.02]);
+  });
+
+  it("releases a note let go before it starts from its start time, and only once", () => {
+    const { synth, oscs } = synthWith({ preset: "sine" });
+    const id = synth.noteOn(440, 2);
+    synth.noteOff(id, 1);
+    synth.noteOff(id, 3);
+    expect(oscs[0].stops).toEqual([2 + presetById("sine").envelope.release + 0.02]);
+  });
+
+  it("plays a fixed-length note as noteOn then noteOff", () => {
+    const { synth, oscs } = synthWith({ preset: "organ" });
+    synth.play(440, 1, 0.5, 0.8);
+    const { release } = presetById("organ").envelope;
+    expect(oscs.map(o => o.stops)).toEqual(presetById("organ").layers.map(() => [1.5 + release + 0.02]));
+  });
+
+  it("steals the oldest held voice past the polyphony limit", () => {
+    const { synth, oscs } = synthWith({ preset: "sine", polyphony: 2 });
+    synth.noteOn(220, 0); synth.noteOn(330, 0.1); synth.noteOn(440, 0.2);
+    expect(oscs.map(o => o.stops.length)).toEqual([1, 0, 0]);
+    expect(oscs[0].stops[0]).toBeCloseTo(0.2 + 0.008 + 0.01, 10);
+  });
+
+  it("prefers a releasing voice to a held one when stealing", () => {
+    const { synth, oscs } = synthWith({ preset: "pad", polyphony: 2 });
+    synth.noteOn(220, 0);
+    synth.noteOff(synth.noteOn(330, 0.1), 0.2);
+    synth.noteOn(440, 0.3);
+    // The pad's second voice is releasing until 1.4: it goes, the older held voice stays
+    const layers = presetById("pad").layers.length;
+    expect(oscs.slice(0, layers).every(o => o.stops.length === 0)).toBe(true);
+    expect(oscs.slice(layers, 2 * layers).every(o => o.stops.length === 2)).toBe(true);
+  });
+
+  it("releases everything still held", () => {
+    const { synth, oscs } = synthWith({ preset: "sine" });
+    synth.noteOn(220, 0); synth.noteOn(330, 0);
+    synth.releaseAll(1);
+    expect(oscs.map(o => o.stops)).toEqual([[1.27], [1.27]]);
+  });
+});
+
+describe("settings", () => {
+  it("sets the effect sends and follows later changes", () => {
+    const { synth, gains } = synthWith({ reverb: 0.3, delay: 0.1 });
+    const [, reverbSend, delaySend] = gains;
+    expect([reverbSend.gain.value, delaySend.gain.value]).toEqual([0.3, 0.1]);
+    synth.configure({ ...DEFAULT_SYNTH, reverb: 0, delay: 0.5 });
+    expect([reverbSend.gain.value, delaySend.gain.value]).toEqual([0, 0.5]);
+  });
+
+  it("counts the release, reverb and echoes in the tail", () => {
+    const dry = { ...DEFAULT_SYNTH, preset: "sine", reverb: 0, delay: 0 };
+    expect(tailSeconds(dry)).toBe(0.25);
+    expect(tailSeconds({ ...dry, reverb: 0.2 })).toBeCloseTo(0.25 + 2.2, 10);
+    expect(tailSeconds({ ...dry, delay: 0.2 })).toBeCloseTo(0.25 + 5 * 0.32, 10);
+  });
+});
+
+describe("presets", () => {
+  it("have unique ids and labels, and the default is one of them", () => {
+    expect(new Set(SYNTH_PRESETS.map(p => p.id)).size).toBe(SYNTH_PRESETS.length);
+    expect(new Set(SYNTH_PRESETS.map(p => p.label)).size).toBe(SYNTH_PRESETS.length);
+    expect(SYNTH_PRESETS.map(p => p.id)).toContain(DEFAULT_PRESET);
+  });
+
+  it.each(SYNTH_PRESETS.map(p => [p.id, p] as const))("%s has a playable envelope and level", (_, p) => {
+    expect(p.layers.length).toBeGreaterThan(0);
+    const { attack, decay, sustain, release } = p.envelope;
+    for (const t of [attack, decay, release]) expect(t).toBeGreaterThan(0);
+    expect(sustain).toBeGreaterThanOrEqual(0);
+    expect(sustain).toBeLessThanOrEqual(1);
+    expect(p.level).toBeGreaterThan(0);
+    // One voice with every layer at its peak stays below full scale
+    expect(p.level * p.layers.reduce((s, l) => s + l.level, 0)).toBeLessThan(1);
+  });
+
+  it("falls back to the default for unknown ids", () => {
+    expect(presetById("pad").id).toBe("pad");
+    expect(presetById("theremin").id).toBe(DEFAULT_PRESET);
+  });
+});
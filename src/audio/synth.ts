@@ -0,0 +1,169 @@
+/* ============================================================
+   Synth — preset voices with envelopes, voice stealing and effect sends
+   ============================================================ */
+import { DEFAULT_PRESET, presetById } from "./presets";
+import type { Envelope, SynthPreset } from "./presets";
+
+/** What the player picks: a preset id, reverb and delay send levels (0–1) and how many voices may sound. */
+export type SynthSettings = { preset: string; reverb: number; delay: number; polyphony: number };
+
+export const DEFAULT_SYNTH: SynthSettings = { preset: DEFAULT_PRESET, reverb: 0.15, delay: 0, polyphony: 16 };
+export const POLYPHONY_CHOICES = [4, 8, 16, 32];
+
+const STEAL_FADE = 0.008;   // seconds to silence a stolen voice without a click
+const REVERB_SECONDS = 2.2;
+const DELAY_TIME = 0.32;
+const DELAY_FEEDBACK = 0.35;
+
+type Voice = {
+  id: number;
+  start: number;
+  end: number;                 // when it falls silent; Infinity while held
+  released?: number;
+  envelope: Envelope;
+  release: GainNode;           // release and stealing, apart from the attack/decay gain so a key-up never cuts a ramp short
+  oscs: OscillatorNode[];
+};
+
+/** Level of the release stage at `t`: 1 until key-up, then down to 0 over the release time. */
+function releaseAt(v: Voice, t: number) {
+  if (v.released === undefined || t <= v.released) return 1;
+  return Math.max(0, 1 - (t - v.released) / Math.max(v.envelope.release, 1e-3));
+}
+
+/** Decaying noise for the reverb; seeded so offline renders come out the same every time. */
+function impulseResponse(ctx: BaseAudioContext) {
+  const length = Math.round(REVERB_SECONDS * ctx.sampleRate);
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let seed = 0x2545f491;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    data[i] = (seed / 0xffffffff * 2 - 1) * (1 - i / length) ** 3;
+  }
+  return buffer;
+}
+
+/** Seconds a note can still be heard after its release starts: the release plus any echo or reverb. */
+export function tailSeconds(s: SynthSettings) {
+  const echoes = s.delay > 0 ? Math.ceil(Math.log(0.01) / Math.log(DELAY_FEEDBACK)) * DELAY_TIME : 0;
+  return presetById(s.preset).envelope.release + Math.max(s.reverb > 0 ? REVERB_SECONDS : 0, echoes);
+}
+
+/** Polyphonic synth on any audio context, playing into `out`.
+ *  Notes can be scheduled ahead (`play`) or held until released (`noteOn` / `noteOff`). Past the
+ *  polyphony limit the oldest voice is stolen, preferring ones already releasing.
+ */
+export function createSynth(ctx: BaseAudioContext, out: AudioNode, settings: SynthSettings = DEFAULT_SYNTH) {
+  const bus = ctx.createGain();
+  bus.connect(out);
+
+  const reverbSend = ctx.createGain();
+  const convolver = ctx.createConvolver();
+  convolver.buffer = impulseResponse(ctx);
+  bus.connect(reverbSend).connect(convolver).connect(out);
+
+  const delaySend = ctx.createGain();
+  const delay = ctx.createDelay(1);
+  const feedback = ctx.createGain();
+  delay.delayTime.value = DELAY_TIME;
+  feedback.gain.value = DELAY_FEEDBACK;
+  bus.connect(delaySend).connect(delay).connect(out);
+  delay.connect(feedback).connect(delay);
+
+  let preset: SynthPreset = presetById(settings.preset);
+  let polyphony = settings.polyphony;
+  let voices: Voice[] = [];
+  let nextId = 1;
+
+  const configure = (s: SynthSettings) => {
+    preset = presetById(s.preset);
+    polyphony = Math.max(1, s.polyphony);
+    reverbSend.gain.value = s.reverb;
+    delaySend.gain.value = s.delay;
+  };
+  configure(settings);
+
+  const silence = (v: Voice, t: number) => {
+    const level = releaseAt(v, t);
+    v.release.gain.cancelScheduledValues(t);
+    v.release.gain.setValueAtTime(level, t);
+    v.release.gain.linearRampToValueAtTime(0, t + STEAL_FADE);
+    v.oscs.forEach(o => o.stop(t + STEAL_FADE + 0.01));
+    v.end = t + STEAL_FADE;
+  };
+
+  /** Make room for one more voice at `t`. */
+  const allocate = (t: number) => {
+    voices = voices.filter(v => v.end > t);
+    while (voices.length >= polyphony) {
+      const victim = voices.reduce((a, b) => (a.released === undefined) !== (b.released === undefined)
+        ? (a.released !== undefined ? a : b)
+        : (a.start <= b.start ? a : b));
+      silence(victim, t);
+      voices = voices.filter(v => v !== victim);
+    }
+  };
+
+  /** Start a voice at `t`; it sounds until `noteOff` with the id returned. */
+  const noteOn = (freq: number, t: number, velocity = 1) => {
+    allocate(t);
+    const p = preset;
+    const { attack, decay, sustain } = p.envelope;
+    const amp = ctx.createGain(), release = ctx.createGain();
+    amp.gain.setValueAtTime(0, t);
+    amp.gain.linearRampToValueAtTime(p.level * velocity, t + attack);
+    amp.gain.linearRampToValueAtTime(p.level * velocity * sustain, t + attack + decay);
+    release.gain.setValueAtTime(1, t);
+
+    let input: AudioNode = amp;
+    if (p.filter) {
+      const f = ctx.createBiquadFilter();
+      f.type = p.filter.type;
+      f.Q.value = p.filter.q;
+      f.frequency.setValueAtTime(p.filter.cutoff * 2 ** (p.filter.sweep ?? 0), t);
+      if (p.filter.sweep) f.frequency.exponentialRampToValueAtTime(p.filter.cutoff, t + attack + decay);
+      f.connect(amp);
+      input = f;
+    }
+    amp.connect(release).connect(bus);
+
+    const oscs = p.layers.map(layer => {
+      const o = ctx.createOscillator(), g = ctx.createGain();
+      o.type = layer.shape;
+      o.frequency.setValueAtTime(freq * 2 ** (layer.octave ?? 0), t);
+      o.detune.setValueAtTime(layer.detune ?? 0, t);
+      g.gain.value = layer.level;
+      o.connect(g).connect(input);
+      o.start(t);
+      return o;
+    });
+
+    const voice: Voice = { id: nextId++, start: t, end: Infinity, envelope: p.envelope, release, oscs };
+    voices.push(voice);
+    return voice.id;
+  };
+
+  /** Release a held voice at `t`; it fades over its preset's release time. */
+  const noteOff = (id: number, t: number) => {
+    const v = voices.find(x => x.id === id);
+    if (!v || v.released !== undefined) return;
+    // The release gain scales whatever the attack/decay has reached, so key-up mid-attack fades from there
+    const at = Math.max(t, v.start);
+    v.released = at;
+    v.release.gain.setValueAtTime(1, at);
+    v.release.gain.linearRampToValueAtTime(0, at + v.envelope.release);
+    v.oscs.forEach(o => o.stop(at + v.envelope.release + 0.02));
+    v.end = at + v.envelope.release;
+  };
+
+  /** A note of fixed length: held for `dur` seconds, then released. */
+  const play = (freq: number, t: number, dur: number, velocity = 1) => noteOff(noteOn(freq, t, velocity), t + dur);
+
+  /** Release everything still held. */
+  const releaseAll = (t: number) => voices.forEach(v => noteOff(v.id, t));
+
+  return { context: ctx, configure, noteOn, noteOff, play, releaseAll };
+}
+
+export type Synth = ReturnType<typeof createSynth>;
@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_TEMPERAMENT, frequencyOf } from "../theory";
+import type { Temperament } from "../theory";
+import { advance } from "./sequencer";
+import type { SeqCursor, SeqSettings } from "./sequencer";
+import { createSynth, DEFAULT_SYNTH } from "./synth";
+import type { Synth, SynthSettings } from "./synth";
+import { scheduleChord, scheduleClick } from "./voices";
+
+// ---------- Scheduling -------------------------------------------------------
+const LOOKAHEAD = 0.12;   // seconds of audio scheduled ahead of the clock
+const TICK_MS = 25;       // scheduler wake-up interval
+const START_DELAY = 0.06; // headroom before the first step
+
+type AudioCtor = typeof AudioContext;
+
+// ---------- Hook -------------------------------------------------------------
+/** Audio engine; notes are turned into hertz with `temperament` and played on a synth set up by `synth`.
+ *  `levels` seeds volume and mute. The returned functions keep their identity across renders
+ *  (`noteToFreq` changes with the temperament), so effects can depend on them.
+ */
+export function useAudio(temperament: Temperament = DEFAULT_TEMPERAMENT, levels = { volume: 0.7, muted: false }, synth: SynthSettings = DEFAULT_SYNTH) {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const gainRef = useRef<GainNode | null>(null);
+  const synthRef = useRef<Synth | null>(null);
+  const seqRef = useRef<{ timer: number; timeouts: number[] } | null>(null);
+  const startRef = useRef(0);   // bumped by every stop, so a start still waiting on resume() can tell it lost
+  const [volume, setVolume] = useState(levels.volume);
+  const [muted, setMuted] = useState(levels.muted);
+  // Latest settings for the context created on first use, read without making the callbacks change
+  const current = useRef({ volume, muted, synth });
+
+  const ensure = useCallback(() => {
+    if (!ctxRef.current) {
+      // Safari still ships the prefixed constructor
+      const w = window as unknown as { AudioContext?: AudioCtor; webkitAudioContext?: AudioCtor };
+      const Ctor = (w.AudioContext ?? w.webkitAudioContext)!;
+      const ctx = new Ctor();
+      const g = ctx.createGain();
+      const { volume, muted, synth } = current.current;
+      g.gain.value = muted ? 0 : volume;
+      g.connect(ctx.destination);
+      ctxRef.current = ctx;
+      gainRef.current = g;
+      synthRef.current = createSynth(ctx, g, synth);
+    }
+  }, []);
+  const resumeIfNeeded = useCallback(async () => {
+    ensure();
+    const ctx = ctxRef.current!;
+    if (ctx.state === "suspended") { try { await ctx.resume(); } catch { /* autoplay policy: retried on next gesture */ } }
+  }, [ensure]);
+  useEffect(() => {
+    current.current = { ...current.current, volume, muted };
+    if (gainRef.current) gainRef.current.gain.value = muted ? 0 : volume;
+  }, [volume, muted]);
+  useEffect(() => {
+    current.current = { ...current.current, synth };
+    synthRef.current?.configure(synth);
+  }, [synth]);
+
+  const noteToFreq = useCallback((n:string,o=4)=> frequencyOf(n, o, temperament), [temperament]);
+
+  const playChord = useCallback(async (freqs:number[], dur=0.8) => {
+    await resumeIfNeeded();
+    scheduleChord(synthRef.current!, freqs, ctxRef.current!.currentTime, dur);
+  }, [resumeIfNeeded]);
+
+  const playFreq = useCallback(async (f:number, dur=0.45) => {
+    await resumeIfNeeded();
+    synthRef.current!.play(f, ctxRef.current!.currentTime, dur);
+  }, [resumeIfNeeded]);
+
+  /** Hold a note until `noteOff` with the id returned (MIDI keys, held shortcut keys). */
+  const noteOn = useCallback((f: number, velocity = 1) => {
+    ensure();
+    void resumeIfNeeded();
+    return synthRef.current!.noteOn(f, ctxRef.current!.currentTime, velocity);
+  }, [ensure, resumeIfNeeded]);
+  const noteOff = useCallback((id: number) => synthRef.current?.noteOff(id, ctxRef.current!.currentTime), []);
+
+  // ---------- Sequencer ------------------------------------------------------
+  const stopSequence = useCallback(() => {
+    startRef.current++;
+    const seq = seqRef.current;
+    if (!seq) return;
+    window.clearInterval(seq.timer);
+    seq.timeouts.forEach(id => window.clearTimeout(id));
+    seqRef.current = null;
+  }, []);
+
+  /** Play steps on the AudioContext clock with a lookahead scheduler.
+   *  `settings` is polled every tick, so key changes and edits land on the next step.
+   *  `onStep` fires in sync with the audio: step index with its length in seconds, or null when done.
+   */
+  const startSequence = useCallback(async (settings: () => SeqSettings, onStep: (index: number | null, dur: number) => void) => {
+    stopSequence();
+    const start = startRef.current;
+    await resumeIfNeeded();
+    // Stopped, or started again (double click, Play then Loop), while the context resumed
+    if (start !== startRef.current) return;
+    const ctx = ctxRef.current!, bus = gainRef.current!, voices = synthRef.current!;
+    let cursor: SeqCursor = { index: 0, time: ctx.currentTime + START_DELAY };
+    const seq = { timer: 0, timeouts: [] as number[] };
+    const at = (time: number, fn: () => void) => {
+      seq.timeouts.push(window.setTimeout(fn, Math.max(0, (time - ctx.currentTime) * 1000)));
+    };
+    const tick = () => {
+      const s = settings();
+      const r = advance(s, cursor, ctx.currentTime + LOOKAHEAD);
+      for (const ev of r.events) {
+        const step = s.steps[ev.index];
+        scheduleChord(voices, step.freqs, ev.time, ev.dur * 0.95);
+        if (s.click) for (let b = 0; b * ev.beatDur < ev.dur - 1e-6; b++) scheduleClick(ctx, bus, ev.time + b*ev.beatDur, b === 0);
+        at(ev.time, () => onStep(ev.index, ev.dur));
+      }
+      cursor = r.cursor;
+      if (r.done) {
+        window.clearInterval(seq.timer);
+        at(r.end, () => { onStep(null, 0); if (seqRef.current === seq) seqRef.current = null; });
+      }
+      // Drop fired timeouts so long loops don't grow the list
+      if (seq.timeouts.length > 64) seq.timeouts = seq.timeouts.slice(-32);
+    };
+    seqRef.current = seq;
+    seq.timer = window.setInterval(tick, TICK_MS);
+    tick();
+  }, [stopSequence, resumeIfNeeded]);
+  useEffect(() => stopSequence, [stopSequence]);
+
+  return useMemo(
+    () => ({ playChord, playFreq, noteOn, noteOff, noteToFreq, startSequence, stopSequence, volume, setVolume, muted, setMuted }),
+    [playChord, playFreq, noteOn, noteOff, noteToFreq, startSequence, stopSequence, volume, muted]
+  );
+}
@@ -0,0 +1,20 @@
+/* ============================================================
+   Voices — what every step and click is played with
+   ============================================================ */
+import type { Synth } from "./synth";
+
+/** A chord on the synth: every note starts at `t` and is released after `dur` seconds. */
+export function scheduleChord(synth: Synth, freqs: number[], t: number, dur: number) {
+  freqs.forEach(f => synth.play(f, t, dur));
+}
+
+/** Metronome tick; the downbeat is higher. */
+export function scheduleClick(ctx: BaseAudioContext, bus: AudioNode, t: number, accent: boolean) {
+  const o = ctx.createOscillator(), g = ctx.createGain();
+  o.type="square"; o.frequency.setValueAtTime(accent ? 1600 : 1100, t);
+  o.connect(g).connect(bus);
+  g.gain.setValueAtTime(0.0001,t);
+  g.gain.exponentialRampToValueAtTime(accent ? 0.12 : 0.07, t+0.002);
+  g.gain.exponentialRampToValueAtTime(0.0001,t+0.04);
+  o.start(t); o.stop(t+0.05);
+}
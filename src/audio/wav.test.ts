@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { encodeWav } from "./wav";
+
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0));
+const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+const u32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+
+/** The 44-byte PCM header, little-endian throughout. */
+const header = (channels: number, rate: number, bits: number, dataBytes: number) => [
+  ...ascii("RIFF"), ...u32(36 + dataBytes), ...ascii("WAVE"),
+  ...ascii("fmt "), ...u32(16), ...u16(1), ...u16(channels), ...u32(rate),
+  ...u32(rate * channels * bits / 8), ...u16(channels * bits / 8), ...u16(bits),
+  ...ascii("data"), ...u32(dataBytes),
+];
+
+describe("encodeWav", () => {
+  it("writes 16-bit mono", () => {
+    const bytes = encodeWav([Float32Array.from([0, 1, -1, 0.5, -0.5, 2, -2])], 8000, 16);
+    expect([...bytes]).toEqual([
+      ...header(1, 8000, 16, 14),
+      0x00, 0x00,   // 0
+      0xff, 0x7f,   // 1 → 32767
+      0x00, 0x80,   // -1 → -32768
+      0x00, 0x40,   // 0.5 → 16384
+      0x00, 0xc0,   // -0.5 → -16384
+      0xff, 0x7f,   // clipped to 1
+      0x00, 0x80,   // clipped to -1
+    ]);
+  });
+
+  it("writes 24-bit stereo, interleaved", () => {
+    const bytes = encodeWav([Float32Array.from([1, -1]), Float32Array.from([0, 0.25])], 44100, 24);
+    expect([...bytes]).toEqual([
+      ...header(2, 44100, 24, 12),
+      0xff, 0xff, 0x7f,   0x00, 0x00, 0x00,   // frame 0: 1 → 8388607, 0
+      0x00, 0x00, 0x80,   0x00, 0x00, 0x20,   // frame 1: -1 → -8388608, 0.25 → 2097152
+    ]);
+  });
+
+  it("writes negative 24-bit samples in two's complement", () => {
+    const bytes = encodeWav([Float32Array.from([-0.25])], 48000, 24);
+    expect([...bytes.slice(44)]).toEqual([0x00, 0x00, 0xe0]);
+  });
+
+  it("pads a short channel with silence", () => {
+    const bytes = encodeWav([Float32Array.from([0.5, 0.5]), Float32Array.from([0.5])], 8000, 16);
+    expect([...bytes.slice(44)]).toEqual([0x00, 0x40, 0x00, 0x40, 0x00, 0x40, 0x00, 0x00]);
+  });
+
+  it("needs a channel", () => {
+    expect(() => encodeWav([], 44100)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,46 @@
+/* ============================================================
+   WAV writer — PCM, 16 or 24 bit
+   ============================================================ */
+
+export type WavBitDepth = 16 | 24;
+
+const HEADER_BYTES = 44;
+
+/** Interleave channels into a RIFF/WAVE PCM file. Samples are clipped to [-1, 1]. */
+export function encodeWav(channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16) {
+  if (channels.length === 0) throw new RangeError("WAV needs at least one channel");
+  const frames = channels[0].length;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels.length * bytesPerSample;
+  const dataBytes = frames * blockAlign;
+  const view = new DataView(new ArrayBuffer(HEADER_BYTES + dataBytes));
+  const ascii = (at: number, s: string) => { for (let i = 0; i < s.length; i++) view.setUint8(at + i, s.charCodeAt(i)); };
+
+  ascii(0, "RIFF");
+  view.setUint32(4, 36 + dataBytes, true);
+  ascii(8, "WAVE");
+  ascii(12, "fmt ");
+  view.setUint32(16, 16, true);                          // fmt chunk size
+  view.setUint16(20, 1, true);                           // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);     // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  ascii(36, "data");
+  view.setUint32(40, dataBytes, true);
+
+  // Asymmetric scaling so -1 and 1 both land on the extremes of the signed range
+  const max = 2 ** (bitDepth - 1);
+  let at = HEADER_BYTES;
+  for (let i = 0; i < frames; i++) {
+    for (const ch of channels) {
+      const s = Math.max(-1, Math.min(1, ch[i] ?? 0));
+      const v = Math.round(s < 0 ? s * max : s * (max - 1));
+      if (bitDepth === 16) view.setInt16(at, v, true);
+      else { view.setUint8(at, v & 0xff); view.setUint8(at + 1, (v >> 8) & 0xff); view.setUint8(at + 2, (v >> 16) & 0xff); }
+      at += bytesPerSample;
+    }
+  }
+  return new Uint8Array(view.buffer);
+}
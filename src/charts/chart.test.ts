@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { chartChords, formatChordPro, formatPlain, mapChords, parseChart } from "./chart";
+
+const PLAIN = [
+  "Verse:",
+  "C        Am7/G      F",
+  "Hello my old friend again",
+  "| G7sus4 | CmM7 | C2 N.C. |",
+].join("\n");
+
+const CHORDPRO = [
+  "{title: Song}",
+  "{key: C}",
+  "# first verse",
+  "[C]Hello my [Am7/G]old friend [F]again",
+  "[G7sus4] [CmM7]",
+].join("\n");
+
+describe("charts", () => {
+  it("finds the chords of a plain chart", () => {
+    expect(chartChords(parseChart(PLAIN))).toEqual(["C", "Am7/G", "F", "G7sus4", "CmM7", "C2"]);
+  });
+
+  it("round-trips ChordPro", () => {
+    expect(formatChordPro(parseChart(CHORDPRO))).toBe(CHORDPRO);
+  });
+
+  it("round-trips chords over lyrics through ChordPro", () => {
+    const verse = PLAIN.split("\n").slice(0, 3).join("\n");
+    const chordPro = formatChordPro(parseChart(verse));
+    expect(chordPro).toBe("Verse:\n[C]Hello my [Am7/G]old friend [F]again");
+    expect(formatPlain(parseChart(chordPro))).toBe(verse);
+  });
+
+  it("rewrites chords and the key directive, keeping marks", () => {
+    expect(formatChordPro(mapChords(parseChart(CHORDPRO), c => `${c}7`)).split("\n")).toEqual([
+      "{title: Song}",
+      "{key: C7}",
+      "# first verse",
+      "[C7]Hello my [Am7/G7]old friend [F7]again",
+      "[G7sus47] [CmM77]",
+    ]);
+    expect(formatPlain(mapChords(parseChart(PLAIN), c => c === "C2" ? "D2" : c)).split("\n")[3]).toBe("| G7sus4 | CmM7 | D2 N.C. |");
+  });
+});
@@ -0,0 +1,151 @@
+/* ============================================================
+   Charts — chord-over-lyrics text and ChordPro
+   ============================================================ */
+import { parseChordSymbol } from "../theory";
+
+/** A chord (or bar mark such as "|" or "N.C.") at a column of a chord line. */
+export type ChartChord = { col: number; text: string };
+
+export type ChartLine =
+  | { kind: "chords"; chords: ChartChord[] }                      // chord line over lyrics
+  | { kind: "lyrics"; text: string }                              // lyrics, headings, blank lines
+  | { kind: "inline"; parts: { chord?: string; text: string }[] } // ChordPro "[C]Hello [G]world"
+  | { kind: "directive"; name: string; value: string }            // ChordPro "{title: …}"
+  | { kind: "comment"; text: string };                            // ChordPro "# …"
+
+// Tokens that may sit on a chord line without being chords
+const MARK_RE = /^(?:\|{1,2}:?|:?\|{1,2}|\/|%|-|N\.?C\.?|\(?x\d+\)?)$/i;
+const DIRECTIVE_RE = /^\{\s*([^:}]+?)\s*(?::\s*(.*?))?\s*\}\s*$/;
+
+/** True when `text` parses as a chord symbol. */
+export function isChordToken(text: string) {
+  try {
+    parseChordSymbol(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Read a plain chord chart or a ChordPro file. A line counts as a chord line when every token
+ *  is a chord or a bar mark and at least one is a chord.
+ */
+export function parseChart(text: string): ChartLine[] {
+  return text.replace(/\r\n?/g, "\n").split("\n").map((line): ChartLine => {
+    const directive = DIRECTIVE_RE.exec(line);
+    if (directive) return { kind: "directive", name: directive[1].toLowerCase(), value: directive[2] ?? "" };
+    if (/^\s*#/.test(line)) return { kind: "comment", text: line.replace(/^\s*#\s?/, "") };
+    if (/\[[^\]]+\]/.test(line)) {
+      const parts: { chord?: string; text: string }[] = [];
+      const lead = line.split("[")[0];
+      if (lead) parts.push({ text: lead });
+      for (const m of line.matchAll(/\[([^\]]*)\]([^[]*)/g)) parts.push({ chord: m[1], text: m[2] });
+      return { kind: "inline", parts };
+    }
+    const tokens = [...line.matchAll(/\S+/g)].map(m => ({ col: m.index, text: m[0] }));
+    const chords = tokens.filter(t => isChordToken(t.text));
+    if (chords.length && tokens.every(t => MARK_RE.test(t.text) || isChordToken(t.text))) return { kind: "chords", chords: tokens };
+    return { kind: "lyrics", text: line };
+  });
+}
+
+/** Chord symbols in order of appearance (bar marks skipped). */
+export function chartChords(lines: ChartLine[]) {
+  return lines.flatMap(l =>
+    l.kind === "chords" ? l.chords.map(c => c.text) :
+    l.kind === "inline" ? l.parts.flatMap(p => p.chord ? [p.chord] : []) : []
+  ).filter(isChordToken);
+}
+
+/** Rewrite every chord symbol (and a {key:} directive) with `fn`; marks and unreadable chords are kept. */
+export function mapChords(lines: ChartLine[], fn: (chord: string) => string): ChartLine[] {
+  const map = (t: string) => isChordToken(t) ? fn(t) : t;
+  return lines.map(l => {
+    switch (l.kind) {
+      case "chords": return { ...l, chords: l.chords.map(c => ({ ...c, text: map(c.text) })) };
+      case "inline": return { ...l, parts: l.parts.map(p => p.chord ? { ...p, chord: map(p.chord) } : p) };
+      case "directive": return l.name === "key" ? { ...l, value: map(l.value) } : l;
+      default: return l;
+    }
+  });
+}
+
+/** Lay chords out on one line at their columns, pushing later ones right when an earlier one grew. */
+function chordRow(chords: ChartChord[]) {
+  let out = "";
+  for (const c of chords) {
+    const at = Math.max(c.col, out.length ? out.length + 1 : 0);
+    out = out.padEnd(at) + c.text;
+  }
+  return out;
+}
+
+/** Start (`true`) and end (`false`) of the sections ChordPro marks with directives. */
+const SECTION_DIRECTIVES: Record<string, [string, boolean]> = {
+  soc: ["Chorus", true], start_of_chorus: ["Chorus", true], sov: ["Verse", true], start_of_verse: ["Verse", true],
+  sob: ["Bridge", true], start_of_bridge: ["Bridge", true],
+  eoc: ["", false], end_of_chorus: ["", false], eov: ["", false], end_of_verse: ["", false], eob: ["", false], end_of_bridge: ["", false],
+};
+
+/** Plain chord-over-lyrics text. Inline ChordPro chords move up onto their own line. */
+export function formatPlain(lines: ChartLine[]) {
+  return lines.flatMap(l => {
+    switch (l.kind) {
+      case "chords": return [chordRow(l.chords)];
+      case "lyrics": return [l.text];
+      case "comment": return [l.text];
+      case "inline": {
+        let lyric = "";
+        const chords: ChartChord[] = [];
+        for (const p of l.parts) {
+          if (p.chord) {
+            const at = Math.max(lyric.length, chords.length ? chordRow(chords).length + 1 : 0);
+            lyric = lyric.padEnd(at);
+            chords.push({ col: at, text: p.chord });
+          }
+          lyric += p.text;
+        }
+        return lyric.trim() ? [chordRow(chords), lyric.trimEnd()] : [chordRow(chords)];
+      }
+      case "directive": {
+        if (l.name === "title" || l.name === "t" || l.name === "subtitle" || l.name === "st") return [l.value];
+        if (l.name === "comment" || l.name === "c" || l.name === "ci") return [l.value];
+        if (l.name === "key") return [`Key: ${l.value}`];
+        const section = SECTION_DIRECTIVES[l.name];
+        if (section) return [section[1] ? `${section[0]}:` : ""];
+        return [];
+      }
+    }
+  }).join("\n");
+}
+
+/** ChordPro text. A chord line directly over lyrics is merged into them as [inline] chords. */
+export function formatChordPro(lines: ChartLine[]) {
+  const out: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const l = lines[i];
+    switch (l.kind) {
+      case "directive": out.push(l.value ? `{${l.name}: ${l.value}}` : `{${l.name}}`); break;
+      case "comment": out.push(`# ${l.text}`); break;
+      case "lyrics": out.push(l.text); break;
+      case "inline": out.push(l.parts.map(p => (p.chord ? `[${p.chord}]` : "") + p.text).join("")); break;
+      case "chords": {
+        const next = lines[i + 1];
+        if (next?.kind === "lyrics" && next.text.trim()) {
+          let lyric = next.text.padEnd(Math.max(...l.chords.map(c => c.col)));
+          // Insert from the right so earlier columns stay valid
+          for (const c of [...l.chords].reverse()) {
+            const chord = isChordToken(c.text) ? `[${c.text}]` : c.text;
+            lyric = lyric.slice(0, c.col) + chord + lyric.slice(c.col);
+          }
+          out.push(lyric.trimEnd());
+          i++;
+        } else {
+          out.push(l.chords.map(c => isChordToken(c.text) ? `[${c.text}]` : c.text).join(" "));
+        }
+        break;
+      }
+    }
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react";
+import {
+  MODES, POSITIONS, buildScaleFromKeyName, detectKeys, formatChordSymbol, keyInterval, nashvilleNumber,
+  normalizeToken, parseChordSymbol, parseKeyInput, tonicAt, transposeChordSymbol,
+} from "../theory";
+import type { EnhPref, Mode } from "../theory";
+import { chartChords, formatChordPro, formatPlain, mapChords, parseChart } from "../charts/chart";
+import { downloadFile, fileStem } from "../export/download";
+import { Seg } from "./ui";
+
+type Props = {
+  circleIndex: number;   // selected spoke: the target key when transposing "to the circle"
+  enhPref: EnhPref;
+  name: (note: string) => string;   // note label in the chosen naming system
+};
+
+type SourceKey = { position: number; mode: Mode };
+
+const SOURCE_MODES: Mode[] = ["major", "aeolian"];
+// Whole spokes only: a fraction would land between keys on the circle
+const clampSteps = (n: number) => Math.max(-11, Math.min(11, Math.round(n)));
+
+const PLACEHOLDER = `{title: Example}
+C        Am7       Dm7   G7
+Paste a chord chart or a ChordPro file`;
+
+/** Paste a chart, pick source and target keys, get it back transposed or in Nashville numbers. */
+export function ChartPanel({ circleIndex, enhPref, name }: Props) {
+  const [text, setText] = useState("");
+  const [source, setSource] = useState<SourceKey | "auto">("auto");
+  const [target, setTarget] = useState<"circle" | "steps">("circle");
+  const [steps, setSteps] = useState(1);
+  const [view, setView] = useState<"chords" | "nashville">("chords");
+  const [format, setFormat] = useState<"plain" | "chordpro">("plain");
+
+  const lines = useMemo(() => parseChart(text), [text]);
+  const detected = useMemo((): SourceKey | undefined => {
+    const best = detectKeys(parseKeyInput(chartChords(lines).join(" ")).items, enhPref)[0];
+    return best && { position: best.position, mode: best.mode === "major" ? "major" : "aeolian" };
+  }, [lines, enhPref]);
+  const from = source === "auto" ? detected : source;
+
+  const result = useMemo(() => {
+    if (!from) return undefined;
+    const fromTonic = normalizeToken(tonicAt(POSITIONS[from.position], from.mode, enhPref));
+    const toPosition = target === "circle" ? circleIndex : ((from.position + steps) % 12 + 12) % 12;
+    const toTonic = normalizeToken(tonicAt(POSITIONS[toPosition], from.mode, enhPref));
+    const scale = buildScaleFromKeyName(toTonic, from.mode);
+    const interval = keyInterval(fromTonic, toTonic);
+    const moved = mapChords(lines, c => formatChordSymbol(transposeChordSymbol(parseChordSymbol(c), interval, scale)));
+    const shown = view === "nashville" ? mapChords(moved, c => nashvilleNumber(parseChordSymbol(c), toTonic)) : moved;
+    return { fromTonic, toTonic, text: format === "chordpro" ? formatChordPro(shown) : formatPlain(shown) };
+  }, [from, target, circleIndex, steps, enhPref, lines, view, format]);
+
+  const keyLabel = (k: SourceKey) => `${name(tonicAt(POSITIONS[k.position], k.mode, enhPref))} ${MODES[k.mode].label.toLowerCase()}`;
+  const load = (file: File | undefined) => { file?.text().then(setText); };
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-base md:text-lg font-semibold">Transpose a chart</h3>
+        <label className="px-2 py-1 rounded-lg border text-xs cursor-pointer">
+          Open file…
+          <input type="file" accept=".cho,.chordpro,.chopro,.crd,.pro,.txt" className="hidden" onChange={(e)=>load(e.target.files?.[0])} />
+        </label>
+      </div>
+      <textarea
+        aria-label="Chord chart or ChordPro"
+        value={text}
+        onChange={(e)=>setText(e.target.value)}
+        placeholder={PLACEHOLDER}
+        rows={6}
+        className="w-full px-3 py-2 rounded-xl border border-slate-300 text-sm font-mono"
+      />
+
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        <span className="opacity-70">From</span>
+        <select
+          aria-label="Source key"
+          value={source === "auto" ? "auto" : `${source.position}:${source.mode}`}
+          onChange={(e)=>{
+            const [p, m] = e.target.value.split(":");
+            setSource(e.target.value === "auto" ? "auto" : { position: Number(p), mode: m as Mode });
+          }}
+          className="px-2 py-1 rounded-lg border border-slate-300 bg-white/80"
+        >
+          <option value="auto">Detect{detected ? ` (${keyLabel(detected)})` : ""}</option>
+          {SOURCE_MODES.map(m => POSITIONS.map((_, i) => (
+            <option key={`${i}:${m}`} value={`${i}:${m}`}>{keyLabel({ position: i, mode: m })}</option>
+          )))}
+        </select>
+        <span className="opacity-70 ml-2">To</span>
+        <Seg active={target==="circle"} onClick={()=>setTarget("circle")}>Circle key</Seg>
+        <Seg active={target==="steps"} onClick={()=>setTarget("steps")}>Steps</Seg>
+        {target === "steps" && (
+          <label className="inline-flex items-center gap-1">
+            <input aria-label="Steps clockwise" type="number" min={-11} max={11} step={1} value={steps} onChange={(e)=>{ if (e.target.value !== "") setSteps(clampSteps(Number(e.target.value))); }} className="w-14 px-2 py-1 rounded-lg border border-slate-300" />
+            <span className="opacity-70">clockwise</span>
+          </label>
+        )}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center gap-1 text-xs">
+        <Seg active={view==="chords"} onClick={()=>setView("chords")}>Chords</Seg>
+        <Seg active={view==="nashville"} onClick={()=>setView("nashville")}>Nashville</Seg>
+        <span className="w-2" />
+        <Seg active={format==="plain"} onClick={()=>setFormat("plain")}>Plain</Seg>
+        <Seg active={format==="chordpro"} onClick={()=>setFormat("chordpro")}>ChordPro</Seg>
+      </div>
+
+      {result && text.trim() ? (
+        <>
+          <div className="mt-3 text-xs opacity-70">{name(result.fromTonic)} → {name(result.toTonic)}</div>
+          <pre className="mt-1 p-3 rounded-xl bg-slate-50 border border-slate-200 text-sm font-mono overflow-x-auto whitespace-pre">{result.text}</pre>
+          <div className="mt-2 flex gap-2 text-xs">
+            <button onClick={()=>navigator.clipboard?.writeText(result.text)} className="px-2 py-1 rounded-lg border">Copy</button>
+            <button
+              onClick={()=>downloadFile(result.text, `${fileStem(result.toTonic, view)}.${format === "chordpro" ? "cho" : "txt"}`, "text/plain")}
+              className="px-2 py-1 rounded-lg border"
+            >
+              Download
+            </button>
+          </div>
+        </>
+      ) : (
+        text.trim() && <p className="mt-2 text-xs text-rose-600">No chords found to work out the key from — pick the source key.</p>
+      )}
+    </div>
+  );
+}
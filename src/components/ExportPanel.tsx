@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { normalizeToken, voiceChord, voiceSequence } from "../theory";
+import type { Chord, Mode, ProgressionStep, VoicedNote, VoicingOptions } from "../theory";
+import { chordsToMidi, progressionToMidi, scaleLine, scaleToMidi } from "../midi/export";
+import type { ExportKey, ScaleDirection } from "../midi/export";
+import { renderSequence } from "../audio/render";
+import type { SynthSettings } from "../audio/synth";
+import type { SeqStep } from "../audio/sequencer";
+import { encodeWav } from "../audio/wav";
+import type { WavBitDepth } from "../audio/wav";
+import { downloadFile, fileStem } from "../export/download";
+import { MUSICXML_TYPE, keyToMusicXml } from "../export/musicxml";
+import { Seg } from "./ui";
+
+type Props = {
+  tonic: string;
+  mode: Mode;
+  caption: string;            // human key name for the track title, e.g. "F♯ Dorian"
+  scale: string[];
+  chords: Chord[];            // current palette (triads or sevenths)
+  chordsLabel: string;
+  steps: ProgressionStep[];
+  stepChords: (Chord | undefined)[];
+  bpm: number;
+  voicing: VoicingOptions;
+  currentChord: () => VoicedNote[];   // the chord heard last, as voiced
+  noteToFreq: (note: string, oct: number) => number;
+  synth: SynthSettings;               // rendered with the sound picked for playback
+};
+
+const MIDI_TYPE = "audio/midi";
+const WAV_TYPE = "audio/wav";
+
+/** Download buttons for the current key's material. */
+export function ExportPanel({ tonic, mode, caption, scale, chords, chordsLabel, steps, stepChords, bpm, voicing, currentChord, noteToFreq, synth }: Props) {
+  const [format, setFormat] = useState<0 | 1>(1);
+  const [dir, setDir] = useState<ScaleDirection>("both");
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [rendering, setRendering] = useState(false);
+  const [wavError, setWavError] = useState<string | null>(null);
+  const stem = fileStem(normalizeToken(tonic), mode);
+  const key: ExportKey = { tonic, mode, bpm, title: caption };
+
+  const step = (notes: VoicedNote[], beats: number): SeqStep => ({ beats, freqs: notes.map(v => noteToFreq(v.note, v.oct)) });
+  const saveWav = async (seqSteps: SeqStep[], name: string) => {
+    setRendering(true);
+    setWavError(null);
+    try {
+      const { channels, sampleRate } = await renderSequence({ steps: seqSteps, bpm, loop: false, click: false }, { synth });
+      downloadFile(encodeWav(channels, sampleRate, bitDepth), `${stem}-${name}.wav`, WAV_TYPE);
+    } catch (e) {
+      // No offline audio (old browsers, privacy modes) or out of memory for a long progression
+      setWavError(`Couldn’t render the WAV: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setRendering(false);
+    }
+  };
+  const chordWav = () => {
+    const last = currentChord();
+    saveWav([step(last.length ? last : voiceChord([scale[0], scale[2], scale[4]], voicing), 4)], "chord");
+  };
+  const scaleWav = () => saveWav(scaleLine(scale, dir).map(v => step([v], 1)), "scale");
+  const progressionWav = () => {
+    const voiced = voiceSequence(steps.map((_,i)=> stepChords[i]?.tones ?? []), voicing);
+    saveWav(steps.map((s,i)=> step(voiced[i], s.beats)), "progression");
+  };
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Export</h3>
+        <div className="flex items-center gap-1 text-xs">
+          <span className="opacity-70">MIDI type</span>
+          <Seg active={format===0} onClick={()=>setFormat(0)}>0</Seg>
+          <Seg active={format===1} onClick={()=>setFormat(1)}>1</Seg>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          aria-label="Scale direction"
+          value={dir}
+          onChange={(e)=>setDir(e.target.value as ScaleDirection)}
+          className="px-2 py-1.5 rounded-xl border border-slate-300 bg-white/80"
+        >
+          <option value="up">Ascending</option>
+          <option value="down">Descending</option>
+          <option value="both">Up &amp; down</option>
+        </select>
+        <button className="px-3 py-1.5 rounded-xl border" onClick={()=>downloadFile(scaleToMidi(scale, dir, key, format), `${stem}-scale.mid`, MIDI_TYPE)}>
+          Scale .mid
+        </button>
+        <button className="px-3 py-1.5 rounded-xl border" onClick={()=>downloadFile(chordsToMidi(chords, key, format, voicing), `${stem}-${chordsLabel}.mid`, MIDI_TYPE)}>
+          {chordsLabel === "sevenths" ? "7th chords" : "Triads"} .mid
+        </button>
+        <button
+          className="px-3 py-1.5 rounded-xl border disabled:opacity-40"
+          disabled={steps.length === 0}
+          onClick={()=>downloadFile(progressionToMidi(steps, stepChords, key, format, voicing), `${stem}-progression.mid`, MIDI_TYPE)}
+        >
+          Progression .mid
+        </button>
+        <button
+          className="px-3 py-1.5 rounded-xl border"
+          title="Key signature, scale and chord palette for notation software"
+          onClick={()=>downloadFile(keyToMusicXml(key, scale, chords), `${stem}-${chordsLabel}.musicxml`, MUSICXML_TYPE)}
+        >
+          Score .musicxml
+        </button>
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+        <div className="flex items-center gap-1 text-xs">
+          <span className="opacity-70">WAV</span>
+          <Seg active={bitDepth===16} onClick={()=>setBitDepth(16)}>16-bit</Seg>
+          <Seg active={bitDepth===24} onClick={()=>setBitDepth(24)}>24-bit</Seg>
+        </div>
+        <button className="px-3 py-1.5 rounded-xl border disabled:opacity-40" disabled={rendering} onClick={chordWav}>Chord .wav</button>
+        <button className="px-3 py-1.5 rounded-xl border disabled:opacity-40" disabled={rendering} onClick={scaleWav}>Scale .wav</button>
+        <button className="px-3 py-1.5 rounded-xl border disabled:opacity-40" disabled={rendering || steps.length === 0} onClick={progressionWav}>
+          Progression .wav
+        </button>
+        {rendering && <span className="text-xs opacity-70">Rendering…</span>}
+      </div>
+      {wavError && <p className="mt-2 text-xs text-rose-600">{wavError}</p>}
+    </div>
+  );
+}
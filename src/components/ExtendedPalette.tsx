@@ -0,0 +1,54 @@
+import { motion } from "framer-motion";
+import { EXTENDED_KINDS, pretty } from "../theory";
+import type { ExtendedChord } from "../theory";
+
+type Props = {
+  chords: ExtendedChord[];
+  name: (note: string) => string;   // note label in the chosen naming system
+  onPlay: (c: ExtendedChord) => void;
+  onAdd: (c: ExtendedChord) => void;
+  onHover: (c: ExtendedChord | null) => void;   // drives the root → target arrow on the circle
+};
+
+/** Chromatic chords grouped by function; hovering or focusing one points at its target on the circle. */
+export function ExtendedPalette({ chords, name, onPlay, onAdd, onHover }: Props) {
+  return (
+    <div className="mt-4 grid gap-3">
+      {EXTENDED_KINDS.map(({ kind, label }) => {
+        const group = chords.filter(c => c.kind === kind);
+        if (group.length === 0) return null;
+        return (
+          <div key={kind}>
+            <h4 className="text-xs font-semibold uppercase tracking-wide opacity-70 mb-1.5">{label}</h4>
+            <div className="grid grid-cols-3 md:grid-cols-4 gap-1.5">
+              {group.map(c => (
+                <motion.div key={c.rn} whileHover={{ y: -2 }} className="relative">
+                  <button
+                    onClick={()=>onPlay(c)}
+                    onMouseEnter={()=>onHover(c)}
+                    onMouseLeave={()=>onHover(null)}
+                    onFocus={()=>onHover(c)}
+                    onBlur={()=>onHover(null)}
+                    title={`Resolves to ${pretty(c.targetRn)}`}
+                    className="w-full text-left rounded-lg border border-violet-200 bg-violet-50 px-2 py-1.5 hover:bg-violet-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-violet-500"
+                  >
+                    <div className="text-[11px] font-semibold text-violet-700">{pretty(c.rn)}</div>
+                    <div className="text-xs leading-tight">{c.tones.map(name).join(" ")}</div>
+                  </button>
+                  <button
+                    aria-label={`Add ${c.rn} to progression`}
+                    title="Add to progression"
+                    onClick={()=>onAdd(c)}
+                    className="absolute top-1 right-1 h-5 w-5 rounded bg-violet-200/70 text-violet-800 text-xs leading-none hover:bg-violet-300 focus:outline-none focus-visible:ring-2 focus-visible:ring-violet-500"
+                  >
+                    +
+                  </button>
+                </motion.div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
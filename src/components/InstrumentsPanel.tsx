@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { mod12, pitchClass, spellInKey } from "../theory";
+import { DEGREE_COLORS, FRET_MARKERS, TUNINGS, parseTuning, pianoKeys, scaleDegree } from "../instruments/instruments";
+import { Seg } from "./ui";
+
+type Props = {
+  scale: string[];
+  highlight: string[] | null;                   // tones of the hovered palette chord
+  onPlay: (midi: number, name: string) => void;
+  name: (note: string) => string;               // note label in the chosen naming system
+};
+
+type NoteLook = { degree: number; tonic: boolean; inChord: boolean; faded: boolean; name: string };
+
+/** How a MIDI note shows against the current scale and hovered chord. */
+function lookFor(midi: number, scale: string[], highlight: string[] | null): NoteLook {
+  const degree = scaleDegree(midi, scale);
+  const chordTone = highlight?.find(t => pitchClass(t) === mod12(midi));
+  const inChord = chordTone !== undefined;
+  return {
+    degree,
+    tonic: degree === 0,
+    inChord,
+    faded: highlight !== null && !inChord,
+    name: chordTone ?? (degree >= 0 ? scale[degree] : spellInKey(midi, scale)),
+  };
+}
+
+// ---------- Piano ------------------------------------------------------------
+const WHITE_W = 24, WHITE_H = 110, BLACK_W = 14, BLACK_H = 68;
+
+function PianoView({ scale, highlight, onPlay, name, octaves }: Props & { octaves: number }) {
+  const startOctave = 4 - Math.floor((octaves - 1) / 2);
+  const keys = pianoKeys(startOctave, octaves);
+  const whites = keys.filter(k => !k.black).length;
+  const width = whites * WHITE_W + 1;
+
+  const key = (k: (typeof keys)[number]) => {
+    const look = lookFor(k.midi, scale, highlight);
+    const w = k.black ? BLACK_W : WHITE_W, h = k.black ? BLACK_H : WHITE_H;
+    const x = k.x * WHITE_W - (k.black ? BLACK_W / 2 : 0);
+    const dotY = h - 12;
+    const showDot = look.degree >= 0 || look.inChord;
+    return (
+      <g
+        key={k.midi}
+        role="button"
+        tabIndex={0}
+        aria-label={`Play ${name(look.name)}`}
+        className="cursor-pointer focus:outline-none"
+        onClick={()=>onPlay(k.midi, look.name)}
+        onKeyDown={(e)=>{ if (e.key==="Enter" || e.key===" ") { onPlay(k.midi, look.name); e.preventDefault(); } }}
+      >
+        <rect x={x + 0.5} y={0.5} width={w} height={h} rx={3}
+          className={k.black ? "fill-slate-800 hover:fill-slate-600" : "fill-white hover:fill-indigo-50"} stroke="#94a3b8" />
+        {showDot && (
+          <circle cx={x + 0.5 + w/2} cy={dotY} r={look.tonic ? 7.5 : 6}
+            fill={look.degree >= 0 ? DEGREE_COLORS[look.degree] : "#94a3b8"}
+            stroke={look.inChord ? "#0f172a" : look.tonic ? "#fff" : "none"} strokeWidth={look.inChord ? 2.5 : 1.5}
+            opacity={look.faded ? 0.25 : 1} pointerEvents="none" />
+        )}
+        {showDot && !k.black && (
+          <text x={x + 0.5 + w/2} y={dotY - 12} fontSize={10} textAnchor="middle" opacity={look.faded ? 0.35 : 0.8}
+            className="select-none fill-slate-700" pointerEvents="none">
+            {name(look.name)}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  return (
+    <svg viewBox={`0 0 ${width} ${WHITE_H + 1}`} width="100%" role="img" aria-label="Piano" className="block">
+      {keys.filter(k => !k.black).map(key)}
+      {keys.filter(k => k.black).map(key)}
+    </svg>
+  );
+}
+
+// ---------- Fretboard --------------------------------------------------------
+const FRET_W = 44, STRING_GAP = 22, NUT_X = 34, PAD_Y = 16;
+
+function FretboardView({ scale, highlight, onPlay, name, strings, frets }: Props & { strings: number[]; frets: number }) {
+  const width = NUT_X + frets * FRET_W + 8;
+  const height = PAD_Y * 2 + (strings.length - 1) * STRING_GAP + 14;
+  const yOf = (s: number) => PAD_Y + (strings.length - 1 - s) * STRING_GAP;   // highest string on top
+  const xOf = (f: number) => f === 0 ? NUT_X / 2 : NUT_X + (f - 0.5) * FRET_W;
+  const boardBottom = yOf(0);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" style={{ minWidth: frets * 28 }} role="img" aria-label="Fretboard" className="block">
+      <rect x={NUT_X} y={PAD_Y} width={frets * FRET_W} height={boardBottom - PAD_Y} fill="#fef3c7" />
+      {FRET_MARKERS.filter(f => f <= frets).map(f => (
+        f % 12 === 0
+          ? [-1, 1].map(d => <circle key={`${f}${d}`} cx={xOf(f)} cy={(PAD_Y + boardBottom)/2 + d * STRING_GAP} r={4} fill="#d6d3d1" />)
+          : <circle key={f} cx={xOf(f)} cy={(PAD_Y + boardBottom)/2} r={4} fill="#d6d3d1" />
+      ))}
+      {Array.from({ length: frets + 1 }, (_, f) => (
+        <line key={f} x1={NUT_X + f * FRET_W} x2={NUT_X + f * FRET_W} y1={PAD_Y} y2={boardBottom} stroke="#a8a29e" strokeWidth={f === 0 ? 4 : 1.5} />
+      ))}
+      {strings.map((_, s) => (
+        <line key={s} x1={NUT_X} x2={width - 8} y1={yOf(s)} y2={yOf(s)} stroke="#78716c" strokeWidth={2.4 - (1.4 * s) / Math.max(1, strings.length - 1)} />
+      ))}
+      {FRET_MARKERS.filter(f => f <= frets).map(f => (
+        <text key={f} x={xOf(f)} y={height - 2} fontSize={10} textAnchor="middle" className="select-none fill-slate-500">{f}</text>
+      ))}
+      {strings.map((open, s) => Array.from({ length: frets + 1 }, (_, f) => {
+        const midi = open + f;
+        const look = lookFor(midi, scale, highlight);
+        const shown = look.degree >= 0 || look.inChord;
+        return (
+          <g
+            key={`${s}-${f}`}
+            role="button"
+            tabIndex={shown ? 0 : -1}
+            aria-label={`Play ${name(look.name)} (string ${strings.length - s}, fret ${f})`}
+            className="cursor-pointer focus:outline-none"
+            onClick={()=>onPlay(midi, look.name)}
+            onKeyDown={(e)=>{ if (e.key==="Enter" || e.key===" ") { onPlay(midi, look.name); e.preventDefault(); } }}
+          >
+            <rect x={xOf(f) - FRET_W/2} y={yOf(s) - STRING_GAP/2} width={FRET_W} height={STRING_GAP} fill="transparent" />
+            {shown && (
+              <>
+                <circle cx={xOf(f)} cy={yOf(s)} r={look.tonic ? 9.5 : 8.5}
+                  fill={look.degree >= 0 ? DEGREE_COLORS[look.degree] : "#94a3b8"}
+                  stroke={look.inChord ? "#0f172a" : look.tonic ? "#fff" : "none"} strokeWidth={look.inChord ? 2.5 : 1.5}
+                  opacity={look.faded ? 0.25 : 1} />
+                <text x={xOf(f)} y={yOf(s) + 3.5} fontSize={name(look.name).length > 1 ? 8.5 : 10} fontWeight={look.tonic ? 800 : 600}
+                  textAnchor="middle" opacity={look.faded ? 0.4 : 1} className="select-none fill-white" pointerEvents="none">
+                  {name(look.name)}
+                </text>
+              </>
+            )}
+          </g>
+        );
+      }))}
+    </svg>
+  );
+}
+
+// ---------- Panel ------------------------------------------------------------
+const FRET_CHOICES = [12, 15, 17, 19, 21, 22, 24];
+
+/** Piano and fretboard views of the current key; dots are colored by scale degree. */
+export function InstrumentsPanel({ scale, highlight, onPlay, name }: Props) {
+  const [view, setView] = useState<"piano" | "fretboard">("piano");
+  const [octaves, setOctaves] = useState(2);
+  const [tuningText, setTuningText] = useState(TUNINGS[0].strings.join(" "));
+  const [frets, setFrets] = useState(15);
+  const strings = parseTuning(tuningText);
+  const preset = TUNINGS.findIndex(t => t.strings.join(" ") === tuningText.trim());
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Instruments</h3>
+        <div className="flex items-center gap-1 text-xs">
+          <Seg active={view==="piano"} onClick={()=>setView("piano")}>Piano</Seg>
+          <Seg active={view==="fretboard"} onClick={()=>setView("fretboard")}>Fretboard</Seg>
+        </div>
+      </div>
+
+      {view === "piano" ? (
+        <>
+          <div className="flex items-center gap-2 text-xs mb-2">
+            <span className="opacity-70">Octaves</span>
+            {[2, 3, 4].map(n => <Seg key={n} active={octaves===n} onClick={()=>setOctaves(n)}>{n}</Seg>)}
+          </div>
+          <PianoView scale={scale} highlight={highlight} onPlay={onPlay} name={name} octaves={octaves} />
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-xs mb-2">
+            <select
+              aria-label="Tuning preset"
+              value={preset}
+              onChange={(e)=>{ const t = TUNINGS[Number(e.target.value)]; if (t) setTuningText(t.strings.join(" ")); }}
+              className="px-2 py-1 rounded-lg border border-slate-300 bg-white/80"
+            >
+              {preset < 0 && <option value={-1}>Custom</option>}
+              {TUNINGS.map((t,i) => <option key={t.name} value={i}>{t.name}</option>)}
+            </select>
+            <input
+              aria-label="Tuning, low string first"
+              value={tuningText}
+              onChange={(e)=>setTuningText(e.target.value)}
+              className={`w-44 px-2 py-1 rounded-lg border font-mono ${strings ? "border-slate-300" : "border-rose-400"}`}
+            />
+            <label className="inline-flex items-center gap-1">
+              <span className="opacity-70">Frets</span>
+              <select aria-label="Fret count" value={frets} onChange={(e)=>setFrets(Number(e.target.value))} className="px-2 py-1 rounded-lg border border-slate-300 bg-white/80">
+                {FRET_CHOICES.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            {strings
+              ? <FretboardView scale={scale} highlight={highlight} onPlay={onPlay} name={name} strings={strings} frets={frets} />
+              : <p className="text-xs text-rose-600">Write the tuning as notes with octaves, low string first: E2 A2 D3 G3 B3 E4</p>}
+          </div>
+        </>
+      )}
+
+      <div className="mt-2 flex flex-wrap gap-2 text-[11px]">
+        {scale.map((n,i) => (
+          <span key={i} className="inline-flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ background: DEGREE_COLORS[i] }} />
+            {i + 1} {name(n)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { MODES, spellInKey } from "../theory";
+import type { KeyCandidate } from "../theory";
+
+type Props = {
+  text: string;
+  onText: (t: string) => void;
+  candidates: KeyCandidate[];
+  errors: string[];
+  scale: string[];                 // current key, used to spell notes clicked on the piano
+  onPick: (c: KeyCandidate) => void;
+  name: (note: string) => string;  // note label in the chosen naming system
+};
+
+const WHITE_PCS = [0, 2, 4, 5, 7, 9, 11];
+const BLACK_PCS: [number, number][] = [[1, 1], [3, 2], [6, 4], [8, 5], [10, 6]]; // [pc, white key it sits before]
+const SHOWN = 8;
+
+/** Enter notes or chord symbols, get back the keys they most likely belong to. */
+export function KeyFinderPanel({ text, onText, candidates, errors, scale, onPick, name }: Props) {
+  const append = (pc: number) => onText((text.trim() ? text.trimEnd() + " " : "") + spellInKey(pc, scale));
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-base md:text-lg font-semibold">Find the key</h3>
+        <button onClick={()=>onText("")} disabled={!text} className="px-2 py-1 rounded-lg border text-xs disabled:opacity-40">Clear</button>
+      </div>
+      <textarea
+        aria-label="Notes or chord symbols"
+        value={text}
+        onChange={(e)=>onText(e.target.value)}
+        placeholder="E F# G A B  —  or  Am F C G"
+        rows={2}
+        className="w-full px-3 py-2 rounded-xl border border-slate-300 text-sm font-mono"
+      />
+      {errors.length > 0 && <p className="mt-1 text-xs text-rose-600">Couldn’t read: {errors.join(", ")}</p>}
+
+      {/* One-octave click input */}
+      <div className="relative mt-2 h-14 select-none" aria-label="Piano input">
+        {WHITE_PCS.map((pc,i)=>(
+          <button
+            key={pc}
+            aria-label={`Add ${spellInKey(pc, scale)}`}
+            onClick={()=>append(pc)}
+            className="absolute top-0 h-14 border border-slate-300 bg-white rounded-b hover:bg-indigo-50"
+            style={{ left: `${(i*100)/7}%`, width: `${100/7}%` }}
+          />
+        ))}
+        {BLACK_PCS.map(([pc, before])=>(
+          <button
+            key={pc}
+            aria-label={`Add ${spellInKey(pc, scale)}`}
+            onClick={()=>append(pc)}
+            className="absolute top-0 h-8 bg-slate-800 rounded-b hover:bg-indigo-700"
+            style={{ left: `${(before*100)/7 - 100/28}%`, width: `${100/14}%` }}
+          />
+        ))}
+      </div>
+
+      {candidates.length > 0 && (
+        <ol className="mt-3 grid gap-1 text-sm">
+          {candidates.slice(0, SHOWN).map((c,i)=>(
+            <li key={`${c.tonic}-${c.mode}`}>
+              <button onClick={()=>onPick(c)} className={`w-full flex items-center gap-2 px-2 py-1 rounded-lg text-left hover:bg-indigo-50 ${i===0 ? "font-semibold" : ""}`}>
+                <span className="w-28 truncate">{name(c.tonic)} {MODES[c.mode].label.toLowerCase()}</span>
+                <span className="flex-1 h-2 rounded bg-slate-100 overflow-hidden">
+                  <span className="block h-full bg-emerald-500" style={{ width: `${Math.round(c.fit*100)}%` }} />
+                </span>
+                <span className="w-10 text-right tabular-nums">{Math.round(c.fit*100)}%</span>
+                <span className="w-20 truncate text-xs opacity-70" title={c.outside.map(name).join(" ")}>
+                  {c.outside.length ? `✕ ${c.outside.map(name).join(" ")}` : ""}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { INVERSION_NAMES, mod12, pitchClass, pretty, spellInKey } from "../theory";
+import type { ChordMatch } from "../theory";
+import type { MidiStatus } from "../midi/useMidiInput";
+
+type Props = {
+  status: MidiStatus;
+  devices: string[];
+  notes: number[];
+  scale: string[];
+  match: ChordMatch | undefined;
+  numeral: string | undefined;   // palette numeral the held chord matches, if diatonic
+  monitor: boolean;              // play what comes in on the synth
+  onMonitor: (on: boolean) => void;
+  onConnect: () => void;
+  onDisconnect: () => void;
+  name: (note: string) => string;   // note label in the chosen naming system
+};
+
+const STATUS_TEXT: Record<MidiStatus, string> = {
+  unsupported: "Web MIDI is not available in this browser.",
+  idle: "Connect a keyboard to see chords as you play.",
+  connecting: "Waiting for MIDI permission…",
+  ready: "Listening",
+  denied: "MIDI access was blocked.",
+};
+
+/** Live readout of what is being played on a MIDI keyboard. */
+export function MidiInputPanel({ status, devices, notes, scale, match, numeral, monitor, onMonitor, onConnect, onDisconnect, name }: Props) {
+  const names = notes.map(m => name(match?.tones.find(t => pitchClass(t) === mod12(m)) ?? spellInKey(m, scale)));
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-base md:text-lg font-semibold">MIDI input</h3>
+        {status === "ready"
+          ? <button onClick={onDisconnect} className="px-3 py-1.5 rounded-xl border text-sm">Disconnect</button>
+          : <button onClick={onConnect} disabled={status === "unsupported" || status === "connecting"} className="px-3 py-1.5 rounded-xl border text-sm disabled:opacity-40">Connect MIDI</button>}
+      </div>
+      <p className="text-xs opacity-70 mb-3">
+        {STATUS_TEXT[status]}{status === "ready" && (devices.length ? ` — ${devices.join(", ")}` : " — no inputs found")}
+      </p>
+      {status === "ready" && (
+        <label className="inline-flex items-center gap-2 text-xs mb-2" title="Off for keyboards with their own sound">
+          <input type="checkbox" className="rounded border-slate-300" checked={monitor} onChange={(e)=>onMonitor(e.target.checked)} />
+          <span>Play through the app’s sound</span>
+        </label>
+      )}
+      {status === "ready" && (
+        <div className="grid gap-1">
+          <div className="text-2xl font-bold" aria-live="polite">{match ? pretty(match.symbol) : notes.length ? "?" : "—"}</div>
+          {match && (
+            <div className="text-sm opacity-80">
+              {match.quality}
+              {match.inversion !== null ? `, ${INVERSION_NAMES[match.inversion]}` : `, ${name(match.bass)} in the bass`}
+              {match.extensions.length > 0 && `, with ${match.extensions.map(pretty).join(" ")}`}
+              {numeral && <> · <strong>{pretty(numeral)}</strong></>}
+            </div>
+          )}
+          <div className="text-xs opacity-70">{names.length ? names.join(" ") : "No notes held"}</div>
+        </div>
+      )}
+    </div>
+  );
+}
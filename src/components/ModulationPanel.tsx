@@ -0,0 +1,130 @@
+import { useMemo, useState } from "react";
+import { MODES, POSITIONS, circleDistance, modulationPaths, normalizeToken, pivotChords, pretty, tonicAt } from "../theory";
+import type { EnhPref, KeyRef, Mode, ModulationPath } from "../theory";
+import { ModeSelect, Seg } from "./ui";
+
+type Props = {
+  home: KeyRef;                                   // the circle's key, the default source (memoized)
+  enhPref: EnhPref;
+  playing: { path: ModulationPath; step: number } | null;
+  onPlay: (path: ModulationPath) => void;
+  onShow: (path: ModulationPath | null) => void;  // drives the path arc on the circle
+  name: (note: string) => string;                 // note label in the chosen naming system
+};
+
+type SpokeKey = { position: number; mode: Mode };
+
+const spokeKey = (k: SpokeKey, enhPref: EnhPref): KeyRef =>
+  ({ tonic: normalizeToken(tonicAt(POSITIONS[k.position], k.mode, enhPref)), mode: k.mode });
+
+function KeyPicker({ label, value, onChange, enhPref, name }: { label: string; value: SpokeKey; onChange: (k: SpokeKey) => void; enhPref: EnhPref; name: (note: string) => string }) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      <select
+        aria-label={`${label} key`}
+        value={value.position}
+        onChange={(e)=>onChange({ ...value, position: Number(e.target.value) })}
+        className="px-2 py-1.5 rounded-xl border border-slate-300 bg-white/80 text-sm"
+      >
+        {POSITIONS.map((p,i) => <option key={i} value={i}>{name(tonicAt(p, value.mode, enhPref))}</option>)}
+      </select>
+      <ModeSelect mode={value.mode} onChange={mode=>onChange({ ...value, mode })} />
+    </span>
+  );
+}
+
+/** Pick two keys: circle distance, shared pivot chords and short paths through nearby keys. */
+export function ModulationPanel({ home, enhPref, playing, onPlay, onShow, name }: Props) {
+  const [source, setSource] = useState<SpokeKey | "circle">("circle");
+  const [dest, setDest] = useState<SpokeKey>({ position: 2, mode: "major" });
+  const [sevenths, setSevenths] = useState(false);
+
+  const from = useMemo(() => source === "circle" ? home : spokeKey(source, enhPref), [source, home, enhPref]);
+  const to = useMemo(() => spokeKey(dest, enhPref), [dest, enhPref]);
+
+  const { steps, distance } = circleDistance(from, to);
+  const pivots = useMemo(() => pivotChords(from, to, sevenths), [from, to, sevenths]);
+  const paths = useMemo(() => modulationPaths(from, to, enhPref), [from, to, enhPref]);
+  const keyName = (k: KeyRef) => `${name(k.tonic)} ${MODES[k.mode].label.toLowerCase()}`;
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <h3 className="text-base md:text-lg font-semibold mb-3">Modulation</h3>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="opacity-70">From</span>
+        <Seg active={source==="circle"} onClick={()=>setSource("circle")}>Circle key</Seg>
+        <Seg active={source!=="circle"} onClick={()=>setSource(source === "circle" ? { position: 0, mode: home.mode } : source)}>Other</Seg>
+        {source !== "circle" && <KeyPicker label="Source" value={source} onChange={setSource} enhPref={enhPref} name={name} />}
+      </div>
+      <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+        <span className="opacity-70">To</span>
+        <KeyPicker label="Destination" value={dest} onChange={setDest} enhPref={enhPref} name={name} />
+      </div>
+
+      <p className="mt-3 text-sm">
+        {keyName(from)} → {keyName(to)}:{" "}
+        {distance === 0
+          ? "same key signature"
+          : `${distance} step${distance > 1 ? "s" : ""} ${steps > 0 ? "clockwise (sharper)" : "counter-clockwise (flatter)"}`}
+      </p>
+
+      <div className="mt-3 flex items-center justify-between">
+        <h4 className="text-xs font-semibold uppercase tracking-wide opacity-70">Pivot chords</h4>
+        <label className="inline-flex items-center gap-2 text-xs opacity-90">
+          <input type="checkbox" className="rounded border-slate-300" checked={sevenths} onChange={(e)=>setSevenths(e.target.checked)} />
+          <span>7ths</span>
+        </label>
+      </div>
+      {pivots.length ? (
+        <div className="mt-1.5 grid grid-cols-2 md:grid-cols-3 gap-1.5">
+          {pivots.map(p => (
+            <div key={p.fromRn} className="rounded-lg border border-teal-200 bg-teal-50 px-2 py-1.5">
+              <div className="text-[11px] font-semibold text-teal-700">{pretty(p.fromRn)} = {pretty(p.toRn)}</div>
+              <div className="text-xs leading-tight">{p.tones.map(name).join(" ")}</div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-1 text-xs opacity-70">
+          {paths.length ? "No chords in common — go through one of the paths below." : "Pick a different key to see pivot chords."}
+        </p>
+      )}
+
+      <h4 className="mt-3 text-xs font-semibold uppercase tracking-wide opacity-70">Paths</h4>
+      {paths.length ? (
+        <ul className="mt-1.5 grid gap-1.5">
+          {paths.map((path, i) => {
+            const active = playing?.path === path;
+            return (
+              <li
+                key={i}
+                tabIndex={0}
+                onMouseEnter={()=>onShow(path)}
+                onMouseLeave={()=>onShow(null)}
+                onFocus={()=>onShow(path)}
+                onBlur={()=>onShow(null)}
+                className={`flex items-center justify-between gap-2 rounded-lg border px-2 py-1.5 focus:outline-none focus-visible:ring-2 focus-visible:ring-teal-500
+                  ${active ? "border-teal-400 bg-teal-50" : "border-slate-200 hover:bg-slate-50"}`}
+              >
+                <div className="text-xs">
+                  <div className="font-medium">{path.keys.map(keyName).join(" → ")}</div>
+                  <div className="opacity-70">
+                    {path.hops.map((h, j) => (
+                      <span key={j} className={active && playing && Math.floor((playing.step - 1) / 3) === j ? "text-teal-700 font-semibold" : ""}>
+                        {j > 0 && " · "}pivot {pretty(h.pivot.fromRn)} = {pretty(h.pivot.toRn)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <button onClick={()=>onPlay(path)} className="px-2 py-1 rounded-lg border text-xs shrink-0">Play</button>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="mt-1 text-xs opacity-70">Pick a different key to see paths.</p>
+      )}
+    </div>
+  );
+}
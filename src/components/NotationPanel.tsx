@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { ascendingLine, keySignatureFor, pretty, voicedMidi } from "../theory";
+import type { Chord, Mode, VoicedNote } from "../theory";
+import { LINE_GAP, layoutStaff, startOctave } from "../notation/staff";
+import type { Clef, StaffLayout } from "../notation/staff";
+import { Seg } from "./ui";
+
+type Props = {
+  tonic: string;
+  mode: Mode;
+  scale: string[];
+  chords: Chord[];
+  voicings: VoicedNote[][];   // how the palette chords are played, one per chord
+  onNote: (v: VoicedNote) => void;
+  onChord: (c: Chord) => void;
+  name: (note: string) => string;   // note label in the chosen naming system
+};
+
+const CLEF_GLYPH: Record<Clef, { glyph: string; size: number; line: number }> = {
+  treble: { glyph: "𝄞", size: 46, line: 3 },   // curls round the G line
+  bass:   { glyph: "𝄢", size: 34, line: 1 },   // dots either side of the F line
+};
+
+// Middle line of each staff (MIDI), for moving played voicings into view
+const STAFF_CENTER: Record<Clef, number> = { treble: 71, bass: 50 };
+
+/** Whole-octave shift that centres a set of voicings on a clef's staff. */
+function fitToClef(voicings: VoicedNote[][], clef: Clef) {
+  const all = voicings.flat();
+  if (all.length === 0) return voicings;
+  const mean = all.reduce((s, v) => s + voicedMidi(v), 0) / all.length;
+  const k = Math.round((STAFF_CENTER[clef] - mean) / 12);
+  return voicings.map(v => v.map(n => ({ note: n.note, oct: n.oct + k })));
+}
+
+/** One staff as SVG. Noteheads are buttons; `labels` (one per column) are drawn under the staff. */
+export function StaffView({ layout, label, labels, name, onNote, onLabel }: {
+  layout: StaffLayout;
+  label: string;
+  name: (note: string) => string;
+  labels?: string[];
+  onNote: (v: VoicedNote) => void;
+  onLabel?: (column: number) => void;
+}) {
+  const { width, lines, signature, notes, columns, barlines, clef } = layout;
+  const height = layout.height + (labels ? 18 : 0);
+  const clefGlyph = CLEF_GLYPH[clef];
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width="100%" style={{ maxWidth: width * 1.4 }} role="img" aria-label={label} className="block">
+      {lines.map(y => <line key={y} x1={0} x2={width} y1={y} y2={y} stroke="#334155" strokeWidth={1} />)}
+      <line x1={0} x2={0} y1={lines[0]} y2={lines[4]} stroke="#334155" />
+      {barlines.map(x => <line key={x} x1={x} x2={x} y1={lines[0]} y2={lines[4]} stroke="#334155" />)}
+      <text x={4} y={lines[clefGlyph.line] + (clef === "treble" ? 12 : LINE_GAP * 0.9)} fontSize={clefGlyph.size} className="select-none fill-slate-800">
+        {clefGlyph.glyph}
+      </text>
+      {signature.map((s,i) => (
+        <text key={i} x={s.x} y={s.y + 5} fontSize={17} className="select-none fill-slate-800">{s.glyph}</text>
+      ))}
+      {notes.map((n,i) => (
+        <g
+          key={i}
+          role="button"
+          tabIndex={0}
+          aria-label={`Play ${name(n.voiced.note)}`}
+          className="cursor-pointer focus:outline-none"
+          onClick={()=>onNote(n.voiced)}
+          onKeyDown={(e)=>{ if (e.key==="Enter" || e.key===" ") { onNote(n.voiced); e.preventDefault(); } }}
+        >
+          {n.ledgers.map((l,j) => <line key={j} x1={l.x1} x2={l.x2} y1={l.y} y2={l.y} stroke="#334155" />)}
+          {n.accidental && (
+            <text x={n.accidental.x} y={n.y + 5} fontSize={16} textAnchor="middle" className="select-none fill-slate-800">{n.accidental.glyph}</text>
+          )}
+          <ellipse cx={n.x} cy={n.y} rx={6.2} ry={4.4} transform={`rotate(-20 ${n.x} ${n.y})`} className="fill-white stroke-slate-900 hover:fill-indigo-200" strokeWidth={2} />
+        </g>
+      ))}
+      {labels && columns.map((c,i) => (
+        <text
+          key={i}
+          x={c.x}
+          y={height - 4}
+          fontSize={11}
+          textAnchor="middle"
+          className={`select-none fill-slate-600 ${onLabel ? "cursor-pointer hover:fill-indigo-600" : ""}`}
+          onClick={onLabel && (()=>onLabel(i))}
+        >
+          {labels[i]}
+        </text>
+      ))}
+    </svg>
+  );
+}
+
+/** Key signature, scale and palette chords on a staff. */
+export function NotationPanel({ tonic, mode, scale, chords, voicings, onNote, onChord, name }: Props) {
+  const [clef, setClef] = useState<Clef>("treble");
+  const sig = keySignatureFor(tonic, mode);
+  const scaleLine = ascendingLine([...scale, scale[0]], startOctave(scale[0], clef));
+  const scaleLayout = layoutStaff(clef, sig, [scaleLine.map(v => [v])]);
+  const chordLayout = layoutStaff(clef, sig, fitToClef(voicings, clef).map(v => [v]));
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Notation</h3>
+        <div className="flex items-center gap-1 text-xs">
+          <Seg active={clef==="treble"} onClick={()=>setClef("treble")}>Treble</Seg>
+          <Seg active={clef==="bass"} onClick={()=>setClef("bass")}>Bass</Seg>
+        </div>
+      </div>
+      <div className="grid gap-2 overflow-x-auto">
+        <StaffView layout={scaleLayout} label="Scale on the staff" name={name} onNote={onNote} />
+        <StaffView
+          layout={chordLayout}
+          label="Palette chords on the staff"
+          labels={chords.map(c => pretty(c.rn))}
+          name={name}
+          onNote={onNote}
+          onLabel={i=>onChord(chords[i])}
+        />
+      </div>
+      <p className="mt-1 text-xs opacity-60">Click a note to hear it, or a numeral to hear the chord.</p>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useMemo, useState } from "react";
+import type { EnhPref } from "../theory";
+import { COLOR_SCHEMES, DEFAULT_POSTER, RING_KINDS, handoutHtml, posterSvg } from "../poster/poster";
+import type { ColorScheme, RingKind } from "../poster/poster";
+import { downloadFile } from "../export/download";
+import { printHtml, svgToPng } from "../export/image";
+import { Seg } from "./ui";
+
+const PNG_SIZES = [2048, 4096];
+
+/** Build a printable circle: pick rings and colors, then save it as SVG or PNG or print a handout. */
+export function PosterPanel({ enhPref, name }: {
+  enhPref: EnhPref;
+  name: (note: string) => string;   // note label in the chosen naming system
+}) {
+  const [rings, setRings] = useState<RingKind[]>(DEFAULT_POSTER.rings);
+  const [scheme, setScheme] = useState<ColorScheme>(DEFAULT_POSTER.scheme);
+  const [pngSize, setPngSize] = useState(4096);
+  const [busy, setBusy] = useState(false);
+  const [pngError, setPngError] = useState<string | null>(null);
+
+  const opts = useMemo(() => ({ ...DEFAULT_POSTER, rings, scheme, enhPref, name }), [rings, scheme, enhPref, name]);
+  const svg = useMemo(() => posterSvg(opts), [opts]);
+
+  // Keep the rings in drawing order whatever order they were ticked in
+  const toggle = (kind: RingKind, on: boolean) =>
+    setRings(rs => RING_KINDS.map(r => r.kind).filter(k => k === kind ? on : rs.includes(k)));
+
+  const savePng = async () => {
+    setBusy(true);
+    setPngError(null);
+    try {
+      downloadFile(await svgToPng(svg, pngSize), `circle-of-fifths-${pngSize}.png`, "image/png");
+    } catch (e) {
+      setPngError(`Couldn’t make the PNG: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <h3 className="text-base md:text-lg font-semibold mb-3">Print &amp; poster</h3>
+      <div className="grid md:grid-cols-[1fr_180px] gap-3">
+        <div className="grid gap-2 text-xs content-start">
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {RING_KINDS.map(r => (
+              <label key={r.kind} className="inline-flex items-center gap-1">
+                <input type="checkbox" className="rounded border-slate-300" checked={rings.includes(r.kind)} onChange={(e)=>toggle(r.kind, e.target.checked)} />
+                <span>{r.label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="opacity-70">Colors</span>
+            {COLOR_SCHEMES.map(c => <Seg key={c.scheme} active={scheme===c.scheme} onClick={()=>setScheme(c.scheme)}>{c.label}</Seg>)}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button onClick={()=>downloadFile(svg, "circle-of-fifths.svg", "image/svg+xml")} disabled={!rings.length} className="px-3 py-1.5 rounded-xl border disabled:opacity-40">
+              .svg
+            </button>
+            <span className="inline-flex items-center gap-1">
+              <select
+                aria-label="PNG width in pixels"
+                value={pngSize}
+                onChange={(e)=>setPngSize(Number(e.target.value))}
+                className="px-2 py-1.5 rounded-xl border border-slate-300 bg-white/80 text-xs"
+              >
+                {PNG_SIZES.map(px => <option key={px} value={px}>{px} px</option>)}
+              </select>
+              <button onClick={savePng} disabled={busy || !rings.length} className="px-3 py-1.5 rounded-xl border disabled:opacity-40">.png</button>
+            </span>
+            <button onClick={()=>printHtml(handoutHtml(opts))} className="px-3 py-1.5 rounded-xl border">Print handout</button>
+            <button onClick={()=>downloadFile(handoutHtml(opts), "circle-of-fifths-handout.html", "text/html")} className="px-3 py-1.5 rounded-xl border">
+              Handout .html
+            </button>
+          </div>
+          {pngError && <p className="text-rose-600">{pngError}</p>}
+          <p className="opacity-70">The handout has the circle, then a page per key with its relative minor: scale, triads and seventh chords.</p>
+        </div>
+        <img
+          alt="Poster preview"
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          className="w-full max-w-[180px] justify-self-center rounded-lg border border-slate-200"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { pretty } from "../theory";
+import type { Chord, Progression, ProgressionStep } from "../theory";
+
+export type Playhead = { index: number; dur: number; tick: number };
+
+type Props = {
+  progression: Progression;
+  onChange: (p: Progression) => void;
+  chords: (Chord | undefined)[];   // each step spelled in the current key
+  playhead: Playhead | null;
+  onPlay: () => void;
+  onStop: () => void;
+  name: (note: string) => string;  // note label in the chosen naming system
+};
+
+const BEAT_CHOICES = [1, 2, 3, 4, 6, 8];
+const MIN_BPM = 30, MAX_BPM = 260;
+
+function move(steps: ProgressionStep[], from: number, to: number) {
+  if (to < 0 || to >= steps.length) return steps;
+  const next = steps.slice();
+  const [s] = next.splice(from, 1);
+  next.splice(to, 0, s);
+  return next;
+}
+
+/** Timeline of Roman-numeral steps with transport controls. */
+export function ProgressionPanel({ progression, onChange, chords, playhead, onPlay, onStop, name }: Props) {
+  const { steps, bpm, loop, click } = progression;
+  const setSteps = (s: ProgressionStep[]) => onChange({ ...progression, steps: s });
+  const playing = playhead !== null;
+  // What's typed in the tempo field; in-range values apply at once, anything else is clamped on blur or Enter
+  const [bpmDraft, setBpmDraft] = useState<string | null>(null);
+  const typeBpm = (text: string) => {
+    setBpmDraft(text);
+    const n = Number(text);
+    if (text.trim() && n >= MIN_BPM && n <= MAX_BPM) onChange({ ...progression, bpm: Math.round(n) });
+  };
+  const commitBpm = () => {
+    const n = Number(bpmDraft);
+    if (bpmDraft?.trim() && Number.isFinite(n)) onChange({ ...progression, bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(n))) });
+    setBpmDraft(null);
+  };
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Progression</h3>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <button
+            onClick={playing ? onStop : onPlay}
+            disabled={!playing && steps.length === 0}
+            className="px-3 py-1.5 rounded-xl border bg-slate-900 text-white border-slate-900 disabled:opacity-40"
+          >
+            {playing ? "Stop" : "Play"}
+          </button>
+          <label className="inline-flex items-center gap-1">
+            <span className="opacity-70">BPM</span>
+            <input
+              aria-label="Tempo (BPM)"
+              type="number" min={MIN_BPM} max={MAX_BPM} value={bpmDraft ?? bpm}
+              onChange={(e)=>typeBpm(e.target.value)}
+              onBlur={commitBpm}
+              onKeyDown={(e)=>{ if (e.key === "Enter") commitBpm(); }}
+              className="w-16 px-2 py-1 rounded-lg border border-slate-300"
+            />
+          </label>
+          <label className="inline-flex items-center gap-1">
+            <input type="checkbox" className="rounded border-slate-300" checked={loop} onChange={(e)=>onChange({ ...progression, loop: e.target.checked })} />
+            <span>Loop</span>
+          </label>
+          <label className="inline-flex items-center gap-1">
+            <input type="checkbox" className="rounded border-slate-300" checked={click} onChange={(e)=>onChange({ ...progression, click: e.target.checked })} />
+            <span>Click</span>
+          </label>
+          <button onClick={()=>setSteps([])} disabled={steps.length === 0} className="px-2 py-1 rounded-lg border text-xs disabled:opacity-40">Clear</button>
+        </div>
+      </div>
+
+      {steps.length === 0 ? (
+        <p className="text-sm opacity-70">Use + on a palette chord to add it here.</p>
+      ) : (
+        <ol className="flex flex-wrap gap-2">
+          {steps.map((s,i)=>{
+            const chord = chords[i];
+            const active = playhead?.index === i;
+            return (
+              <li key={i} className={`relative overflow-hidden w-32 rounded-xl border p-2 text-sm ${active ? "border-indigo-500 bg-indigo-50" : "border-slate-200 bg-white"}`}>
+                <div className="flex items-center justify-between">
+                  <span className="font-semibold">{pretty(chord?.rn ?? s.rn)}</span>
+                  <span className="text-[10px] opacity-60">{i+1}</span>
+                </div>
+                <div className="text-xs truncate opacity-80">{chord ? chord.tones.map(name).join(" ") : "—"}</div>
+                <div className="mt-1 flex items-center gap-1">
+                  <select
+                    aria-label={`Beats for step ${i+1}`}
+                    value={s.beats}
+                    onChange={(e)=>setSteps(steps.map((x,j)=> j===i ? { ...x, beats: Number(e.target.value) } : x))}
+                    className="px-1 py-0.5 rounded border border-slate-300 text-xs"
+                  >
+                    {BEAT_CHOICES.map(b => <option key={b} value={b}>{b} beat{b>1?"s":""}</option>)}
+                  </select>
+                  <button aria-label="Move earlier" onClick={()=>setSteps(move(steps, i, i-1))} disabled={i===0} className="px-1 text-xs disabled:opacity-30">‹</button>
+                  <button aria-label="Move later" onClick={()=>setSteps(move(steps, i, i+1))} disabled={i===steps.length-1} className="px-1 text-xs disabled:opacity-30">›</button>
+                  <button aria-label="Remove step" onClick={()=>setSteps(steps.filter((_,j)=>j!==i))} className="px-1 text-xs text-rose-600">×</button>
+                </div>
+                {active && (
+                  <motion.div
+                    key={playhead.tick}
+                    className="absolute left-0 bottom-0 h-1 bg-indigo-500"
+                    initial={{ width: "0%" }}
+                    animate={{ width: "100%" }}
+                    transition={{ duration: playhead.dur, ease: "linear" }}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
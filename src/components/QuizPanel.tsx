@@ -0,0 +1,121 @@
+import { noteAtFifths } from "../theory";
+import { QUIZ_LEVELS, QUIZ_TOPICS } from "../quiz/quiz";
+import type { Question } from "../quiz/quiz";
+import type { Quiz } from "../quiz/useQuiz";
+import { Seg } from "./ui";
+
+/** What the right answer was, in words, for the feedback line. */
+function answerText(q: Question, name: (note: string) => string) {
+  if (q.pickSpoke) {
+    const k = Number(q.answer);
+    return `${name(noteAtFifths(k))} major / ${name(noteAtFifths(k + 3))} minor`;
+  }
+  return q.choices.find(c => c.value === q.answer)?.label ?? q.answer;
+}
+
+/** Practice mode: questions on the circle and by ear, difficulty settings and per-topic scores. */
+export function QuizPanel({ quiz, name }: { quiz: Quiz; name: (note: string) => string }) {
+  const { settings, record, question, result } = quiz;
+  const level = QUIZ_LEVELS.findIndex(l =>
+    l.settings.maxAccidentals === settings.maxAccidentals && l.settings.sevenths === settings.sevenths && l.settings.strict === settings.strict
+  );
+  const toggleTopic = (topic: (typeof QUIZ_TOPICS)[number]["topic"], on: boolean) =>
+    quiz.setSettings({ ...settings, topics: QUIZ_TOPICS.map(t => t.topic).filter(t => t === topic ? on : settings.topics.includes(t)) });
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Practice</h3>
+        {question
+          ? <button onClick={quiz.stop} className="px-3 py-1.5 rounded-xl border text-sm">Stop</button>
+          : <button onClick={quiz.next} disabled={settings.topics.length === 0} className="px-3 py-1.5 rounded-xl border text-sm disabled:opacity-40">Start</button>}
+      </div>
+
+      {question ? (
+        <div>
+          <p className="text-sm font-medium">{question.prompt}</p>
+          {question.sound && <button onClick={quiz.replay} className="mt-1 px-2 py-1 rounded-lg border text-xs">Play again</button>}
+          {question.choices.length > 0 && (
+            <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-1.5">
+              {question.choices.map(c => {
+                const state = !result ? "" :
+                  c.value === question.answer ? "border-emerald-500 bg-emerald-50" :
+                  c.value === result.given ? "border-rose-400 bg-rose-50" : "opacity-60";
+                return (
+                  <button key={c.value} onClick={()=>quiz.answer(c.value)} disabled={!!result}
+                    className={`px-2 py-1.5 rounded-lg border text-sm text-left ${state || "border-slate-300 hover:bg-slate-50"}`}>
+                    {c.label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          {question.pickSpoke && !result && <p className="mt-2 text-xs opacity-70">Answer by clicking a key on the circle.</p>}
+          {result && (
+            <div className="mt-2 flex items-center justify-between gap-2">
+              <p className={`text-sm ${result.correct ? "text-emerald-700" : "text-rose-700"}`}>
+                {result.correct ? "Right" : "Not quite"} — {answerText(question, name)}
+              </p>
+              <button onClick={quiz.next} className="px-3 py-1.5 rounded-xl border text-sm">Next</button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="grid gap-2 text-xs">
+          <div className="flex flex-wrap items-center gap-1">
+            {QUIZ_LEVELS.map((l, i) => (
+              <Seg key={l.label} active={level===i} onClick={()=>quiz.setSettings({ ...settings, ...l.settings })}>{l.label}</Seg>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="inline-flex items-center gap-1">
+              <span className="opacity-70">Keys up to</span>
+              <select
+                aria-label="Most sharps or flats"
+                value={settings.maxAccidentals}
+                onChange={(e)=>quiz.setSettings({ ...settings, maxAccidentals: Number(e.target.value) })}
+                className="px-2 py-1 rounded-lg border border-slate-300 bg-white/80"
+              >
+                {Array.from({ length: 8 }, (_, n) => <option key={n} value={n}>{n} ♯/♭</option>)}
+              </select>
+            </label>
+            <label className="inline-flex items-center gap-1">
+              <input type="checkbox" className="rounded border-slate-300" checked={settings.sevenths} onChange={(e)=>quiz.setSettings({ ...settings, sevenths: e.target.checked })} />
+              <span>7th chords</span>
+            </label>
+            <label className="inline-flex items-center gap-1" title="Off: enharmonic answers (F♯ for G♭) count as right">
+              <input type="checkbox" className="rounded border-slate-300" checked={settings.strict} onChange={(e)=>quiz.setSettings({ ...settings, strict: e.target.checked })} />
+              <span>Strict spelling</span>
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {QUIZ_TOPICS.map(t => (
+              <label key={t.topic} className="inline-flex items-center gap-1">
+                <input type="checkbox" className="rounded border-slate-300" checked={settings.topics.includes(t.topic)} onChange={(e)=>toggleTopic(t.topic, e.target.checked)} />
+                <span>{t.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3 border-t border-slate-200 pt-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-xs font-semibold uppercase tracking-wide opacity-70">Scores</h4>
+          {record.turn > 0 && <button onClick={quiz.resetScores} className="text-xs underline opacity-70">Reset</button>}
+        </div>
+        <ul className="mt-1 grid grid-cols-2 md:grid-cols-3 gap-x-3 text-xs">
+          {QUIZ_TOPICS.map(t => {
+            const s = record.scores[t.topic];
+            return (
+              <li key={t.topic} className="flex justify-between gap-2">
+                <span className="opacity-70">{t.label}</span>
+                <span className="font-mono">{s ? `${s.right}/${s.asked} (${Math.round(100 * s.right / s.asked)}%)` : "—"}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { MODES, mod12, normalizeToken, tonicAtFifths } from "../theory";
+import type { Mode } from "../theory";
+
+type Props = {
+  center: number;
+  mode: Mode;
+  selected: number;                 // signature of the selected key, in fifths (G♯ major = 8)
+  showRel: boolean;
+  name: (note: string) => string;   // note label in the chosen naming system
+  onSelect: (fifths: number) => void;
+  onHover: (fifths: number) => void;
+};
+
+export const SPIRAL_MIN = -12;
+export const SPIRAL_MAX = 12;
+const TAU = Math.PI * 2;
+const MID_R = 150;                  // radius of C major
+const R_STEP = 4.4;                 // outward per fifth, so a full turn clears the nodes of the last one
+const NODE_R = 15;
+
+const angleOf = (k: number) => -Math.PI/2 + ((k + 0.5) * TAU) / 12;   // same spokes as the circle
+const pointOf = (k: number, center: number) => {
+  const r = MID_R + k * R_STEP;
+  return [center + r * Math.cos(angleOf(k)), center + r * Math.sin(angleOf(k))];
+};
+
+/** Keys laid on a spiral that keeps winding past seven sharps or flats, so G♯ and A♭ are separate keys.
+ *  Flat keys wind inward, sharp keys outward; keys beyond seven accidentals are drawn dashed.
+ */
+export function SpiralOfFifths({ center, mode, selected, showRel, name, onSelect, onHover }: Props) {
+  const keys = Array.from({ length: SPIRAL_MAX - SPIRAL_MIN + 1 }, (_, i) => SPIRAL_MIN + i);
+  const guide = Array.from({ length: (SPIRAL_MAX - SPIRAL_MIN + 1) * 10 + 1 }, (_, i) => pointOf(SPIRAL_MIN - 0.5 + i / 10, center))
+    .map(([x, y], i) => `${i ? "L" : "M"} ${x.toFixed(1)} ${y.toFixed(1)}`).join(" ");
+  // The relative key shares the signature: minor for major, the parent major for every other mode
+  const relMode: Mode = mode === "major" ? "aeolian" : "major";
+
+  return (
+    <g>
+      <path d={guide} fill="none" stroke="#cbd5e1" strokeWidth={1.5} />
+      {keys.map(k => {
+        const [x, y] = pointOf(k, center);
+        const tonic = normalizeToken(tonicAtFifths(k, mode));
+        const rel = normalizeToken(tonicAtFifths(k, relMode));
+        const isSel = k === selected;
+        const theoretical = Math.abs(k) > 7;
+        const label = `${name(tonic)} ${MODES[mode].label.toLowerCase()}`;
+        return (
+          <g
+            key={k}
+            role="button"
+            tabIndex={0}
+            aria-label={`Select ${label}`}
+            className="cursor-pointer focus:outline-none"
+            onClick={()=>onSelect(k)}
+            onKeyDown={(e)=>{ if (e.key==="Enter" || e.key===" ") { onSelect(k); e.preventDefault(); } }}
+            onMouseEnter={()=>onHover(k)}
+          >
+            <title>{`${label} — ${k === 0 ? "no accidentals" : `${Math.abs(k)} ${k < 0 ? "flats" : "sharps"}`}`}</title>
+            <circle cx={x} cy={y} r={NODE_R}
+              fill={`hsl(${mod12(k) * 30} 85% ${isSel ? 80 : theoretical ? 96 : 91}%)`}
+              stroke={isSel ? "#0f172a" : `hsl(${mod12(k) * 30} 40% 66%)`}
+              strokeWidth={isSel ? 2 : 1} strokeDasharray={theoretical && !isSel ? "3 2" : undefined} />
+            <text x={x} y={showRel ? y + 1 : y + 3.5} textAnchor="middle" fontSize={tonic.length > 2 ? 8.5 : 10} fontWeight={800}
+              className="select-none fill-slate-900">
+              {name(tonic)}
+            </text>
+            {showRel && (
+              <text x={x} y={y + 9.5} textAnchor="middle" fontSize={7} className="select-none fill-slate-600">
+                {name(rel)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
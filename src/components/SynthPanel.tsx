@@ -0,0 +1,54 @@
+import { SYNTH_PRESETS } from "../audio/presets";
+import { POLYPHONY_CHOICES } from "../audio/synth";
+import type { SynthSettings } from "../audio/synth";
+import { Seg } from "./ui";
+
+type Props = {
+  synth: SynthSettings;
+  onChange: (s: SynthSettings) => void;
+  onTry: () => void;            // play something with the current sound
+};
+
+/** Instrument preset, effect sends and polyphony for everything the app plays. */
+export function SynthPanel({ synth, onChange, onTry }: Props) {
+  const send = (label: string, value: number, set: (v: number) => void) => (
+    <label className="inline-flex items-center gap-2">
+      <span className="opacity-70">{label}</span>
+      <input
+        aria-label={`${label} send`}
+        type="range" min={0} max={1} step={0.01} value={value}
+        onChange={(e)=>set(Number(e.target.value))}
+        className="w-24 accent-indigo-600"
+      />
+    </label>
+  );
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Sound</h3>
+        <button onClick={onTry} className="px-3 py-1.5 rounded-xl border text-sm">Try</button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        {SYNTH_PRESETS.map(p => (
+          <Seg key={p.id} active={synth.preset===p.id} onClick={()=>onChange({ ...synth, preset: p.id })}>{p.label}</Seg>
+        ))}
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-xs">
+        {send("Reverb", synth.reverb, reverb => onChange({ ...synth, reverb }))}
+        {send("Delay", synth.delay, delay => onChange({ ...synth, delay }))}
+        <label className="inline-flex items-center gap-1">
+          <span className="opacity-70">Voices</span>
+          <select
+            aria-label="Polyphony"
+            value={synth.polyphony}
+            onChange={(e)=>onChange({ ...synth, polyphony: Number(e.target.value) })}
+            className="px-2 py-1 rounded-lg border border-slate-300 bg-white/80"
+          >
+            {POLYPHONY_CHOICES.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { TUNING_SYSTEMS, ascendingLine, centsOffset, frequencyOf } from "../theory";
+import type { Temperament, TuningSystem } from "../theory";
+import { Seg } from "./ui";
+
+/** The parts of a temperament the user picks; the tonic follows the selected key. */
+export type TuningChoice = Pick<Temperament, "system" | "a4">;
+
+type Props = {
+  temperament: Temperament;
+  scale: string[];
+  onChange: (t: TuningChoice) => void;
+  name: (note: string) => string;   // note label in the chosen naming system
+};
+
+const A4_PRESETS = [415, 432, 440, 442];
+
+const formatCents = (c: number) => (Math.abs(c) < 0.05 ? "±0.0" : `${c > 0 ? "+" : "−"}${Math.abs(c).toFixed(1)}`);
+
+/** Tuning system, A4 reference, and how far each scale degree sits from equal temperament. */
+export function TuningPanel({ temperament, scale, onChange, name }: Props) {
+  const { system, a4 } = temperament;
+  const line = ascendingLine(scale, 4);
+
+  return (
+    <div className="rounded-2xl bg-white/90 border border-slate-200 p-4 md:p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-base md:text-lg font-semibold">Tuning</h3>
+        <select
+          aria-label="Tuning system"
+          value={system}
+          onChange={(e)=>onChange({ system: e.target.value as TuningSystem, a4 })}
+          className="px-2 py-1.5 rounded-xl border border-slate-300 bg-white/80 text-sm"
+        >
+          {TUNING_SYSTEMS.map(t => <option key={t.system} value={t.system}>{t.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <label className="inline-flex items-center gap-1">
+          <span className="opacity-70">A4 =</span>
+          <input
+            aria-label="A4 reference in hertz"
+            type="number" min={380} max={480} step={0.5} value={a4}
+            onChange={(e)=>{ const v = Number(e.target.value); if (v > 0) onChange({ system, a4: v }); }}
+            className="w-20 px-2 py-1 rounded-lg border border-slate-300"
+          />
+          <span className="opacity-70">Hz</span>
+        </label>
+        {A4_PRESETS.map(f => <Seg key={f} active={a4===f} onClick={()=>onChange({ system, a4: f })}>{f}</Seg>)}
+      </div>
+
+      <div className="mt-3 grid grid-cols-4 md:grid-cols-7 gap-1.5">
+        {line.map((v, i) => {
+          const cents = centsOffset(v.note, temperament);
+          return (
+            <div key={i} className="rounded-lg border border-slate-200 px-2 py-1.5 text-center">
+              <div className="text-[10px] uppercase tracking-wider opacity-70">{i + 1}</div>
+              <div className="font-semibold">{name(v.note)}</div>
+              <div className={`text-xs font-mono ${Math.abs(cents) < 0.05 ? "opacity-60" : cents > 0 ? "text-rose-600" : "text-sky-600"}`}>{formatCents(cents)}¢</div>
+              <div className="text-[10px] opacity-60">{frequencyOf(v.note, v.oct, temperament).toFixed(1)} Hz</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
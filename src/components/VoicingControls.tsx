@@ -0,0 +1,47 @@
+import { VOICING_STYLES } from "../theory";
+import type { VoicingOptions, VoicingStyle } from "../theory";
+
+type Props = { voicing: VoicingOptions; onChange: (v: VoicingOptions) => void };
+
+const INVERSIONS = ["Root", "1st inv", "2nd inv", "3rd inv"];
+// Bass floor and top note (MIDI) for each register choice
+const REGISTERS: { label: string; low: number; high: number }[] = [
+  { label: "Low", low: 48, high: 76 },
+  { label: "Mid", low: 60, high: 88 },
+  { label: "High", low: 72, high: 100 },
+];
+
+const selectClass = "px-2 py-1 rounded-lg border border-slate-300 bg-white/80 text-xs focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500";
+
+/** Style, inversion, register and voice-leading for every chord that is played or notated. */
+export function VoicingControls({ voicing, onChange }: Props) {
+  const register = REGISTERS.findIndex(r => r.low === voicing.low && r.high === voicing.high);
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs mb-3">
+      <span className="opacity-70">Voicing</span>
+      <select aria-label="Voicing style" value={voicing.style} onChange={(e)=>onChange({ ...voicing, style: e.target.value as VoicingStyle })} className={selectClass}>
+        {VOICING_STYLES.map(s => <option key={s.style} value={s.style}>{s.label}</option>)}
+      </select>
+      <select
+        aria-label="Inversion"
+        value={voicing.inversion}
+        title={voicing.lead ? "With voice-leading, only the first chord uses this inversion" : undefined}
+        onChange={(e)=>onChange({ ...voicing, inversion: Number(e.target.value) })}
+        className={selectClass}
+      >
+        {INVERSIONS.map((label,i) => <option key={i} value={i}>{label}</option>)}
+      </select>
+      <select aria-label="Register" value={register} onChange={(e)=>{
+        const r = REGISTERS[Number(e.target.value)];
+        if (r) onChange({ ...voicing, low: r.low, high: r.high });
+      }} className={selectClass}>
+        {register < 0 && <option value={-1}>Custom</option>}
+        {REGISTERS.map((r,i) => <option key={r.label} value={i}>{r.label}</option>)}
+      </select>
+      <label className="inline-flex items-center gap-1.5">
+        <input type="checkbox" className="rounded border-slate-300" checked={voicing.lead} onChange={(e)=>onChange({ ...voicing, lead: e.target.checked })} />
+        <span>Voice-lead</span>
+      </label>
+    </div>
+  );
+}
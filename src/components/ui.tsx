@@ -0,0 +1,36 @@
+import type React from "react";
+import { MODES, MODE_ORDER } from "../theory";
+import type { Mode } from "../theory";
+
+// ---------- Small UI atoms ---------------------------------------------------
+export function Seg({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1.5 rounded-xl border text-sm transition focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500
+        ${active ? "bg-slate-900 text-white border-slate-900" : "bg-white/80 text-slate-900 border-slate-300 hover:bg-white"}`}
+    >
+      {children}
+    </button>
+  );
+}
+export function ModeSelect({ mode, onChange, className = "" }: { mode: Mode; onChange: (m: Mode) => void; className?: string }) {
+  return (
+    <select
+      aria-label="Scale type"
+      value={mode}
+      onChange={(e)=>onChange(e.target.value as Mode)}
+      className={`px-2 py-1.5 rounded-xl border border-slate-300 bg-white/80 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 ${className}`}
+    >
+      {MODE_ORDER.map(m => <option key={m} value={m}>{MODES[m].label}</option>)}
+    </select>
+  );
+}
+export function InfoTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border bg-white/90 px-3 py-2">
+      <div className="text-[10px] uppercase tracking-wider opacity-70">{label}</div>
+      <div className="font-medium truncate" title={value}>{value}</div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/** Save bytes or text as a file through a temporary object URL. */
+export function downloadFile(data: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** File-name-safe stem for a key, e.g. "F#-dorian". */
+export const fileStem = (tonic: string, mode: string) => `${tonic}-${mode}`.replace(/[^A-Za-z0-9#_-]/g, "");
@@ -0,0 +1,34 @@
+/** Rasterize a standalone SVG to a PNG `px` pixels wide (height keeps the aspect ratio). */
+export async function svgToPng(svg: string, px: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = px;
+    canvas.height = Math.round(px * img.naturalHeight / img.naturalWidth);
+    // Browsers cap canvas size and memory; past the cap there is no context to draw on
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error(`this browser cannot draw a ${canvas.width}×${canvas.height} px image`);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return await new Promise((resolve, reject) =>
+      canvas.toBlob(b => b ? resolve(b) : reject(new Error("PNG encoding failed")), "image/png"));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Print an HTML document through a hidden frame, so the page itself stays put. */
+export function printHtml(html: string) {
+  const frame = document.createElement("iframe");
+  frame.style.cssText = "position:fixed;width:0;height:0;border:0;visibility:hidden";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // Remove once the print dialog has taken its copy
+    window.setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
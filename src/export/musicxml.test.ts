@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { validateXML } from "xmllint-wasm";
+import { buildScaleFromKeyName, diatonicSevenths, diatonicTriads } from "../theory";
+import type { Mode } from "../theory";
+import { keyToMusicXml } from "./musicxml";
+import MUSICXML_XSD from "./schema/musicxml.xsd?raw";
+import XLINK_XSD from "./schema/xlink.xsd?raw";
+import XML_XSD from "./schema/xml.xsd?raw";
+
+type El = { name: string; attrs: string; children: El[]; text: string };
+
+/** Just enough of an XML reader for the exporter's output: elements, attributes as written, text. */
+function parseXml(xml: string): El {
+  const root: El = { name: "#document", attrs: "", children: [], text: "" };
+  const stack = [root];
+  for (const m of xml.matchAll(/<[?!][^>]*>|<(\/?)([\w-]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const top = stack[stack.length - 1];
+    if (m[5] !== undefined) top.text += m[5].trim();
+    else if (m[1]) { expect(m[2]).toBe(top.name); stack.pop(); }
+    else if (m[2]) {
+      const el: El = { name: m[2], attrs: m[3].trim(), children: [], text: "" };
+      top.children.push(el);
+      if (!m[4]) stack.push(el);
+    }
+  }
+  expect(stack).toHaveLength(1);
+  return root;
+}
+
+const names = (el: El) => el.children.map(c => c.name);
+const child = (el: El, name: string) => {
+  const found = el.children.find(c => c.name === name);
+  if (!found) throw new Error(`<${el.name}> has no <${name}>`);
+  return found;
+};
+const text = (el: El, ...path: string[]) => path.reduce(child, el).text;
+
+const score = (tonic: string, mode: Mode, sevenths = false) => {
+  const scale = buildScaleFromKeyName(tonic, mode);
+  const chords = sevenths ? diatonicSevenths(scale, mode) : diatonicTriads(scale, mode);
+  const xml = keyToMusicXml({ tonic, mode, bpm: 96, title: `${tonic} ${mode}` }, scale, chords);
+  return { xml, doc: parseXml(xml) };
+};
+const measures = (doc: El) => child(child(doc, "score-partwise"), "part").children;
+
+/** Does `list` keep the relative order of `order`? Unknown names fail. */
+const inOrder = (list: string[], order: string[]) =>
+  list.every(n => order.includes(n)) && list.every((n, i) => i === 0 || order.indexOf(list[i - 1]) <= order.indexOf(n));
+
+describe("keyToMusicXml", () => {
+  it("writes a partwise 4.0 document with the header in schema order", () => {
+    const { xml, doc } = score("C", "major");
+    expect(xml.split("\n").slice(0, 2)).toEqual([
+      `<?xml version="1.0" encoding="UTF-8" standalone="no"?>`,
+      `<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">`,
+    ]);
+    expect(names(doc)).toEqual(["score-partwise"]);
+    const partwise = child(doc, "score-partwise");
+    expect(partwise.attrs).toBe(`version="4.0"`);
+    expect(names(partwise)).toEqual(["work", "identification", "part-list", "part"]);
+    expect(text(partwise, "work", "work-title")).toBe("C major");
+    expect(child(child(partwise, "part-list"), "score-part").attrs).toBe(`id="P1"`);
+    expect(child(partwise, "part").attrs).toBe(`id="P1"`);
+  });
+
+  it("numbers one measure for the scale and one per chord", () => {
+    const { doc } = score("C", "major");
+    const m = measures(doc);
+    expect(m.map(x => x.name)).toEqual(Array(8).fill("measure"));
+    expect(m.map(x => x.attrs)).toEqual(m.map((_, i) => `number="${i + 1}"`));
+  });
+
+  it("opens with divisions, key, time and clef in schema order", () => {
+    const [first] = measures(score("C", "major").doc);
+    expect(names(first)).toEqual(["attributes", "direction", ...Array(8).fill("note")]);
+    const attributes = child(first, "attributes");
+    expect(names(attributes)).toEqual(["divisions", "key", "time", "clef"]);
+    expect(names(child(attributes, "key"))).toEqual(["fifths", "mode"]);
+    expect(names(child(attributes, "time"))).toEqual(["beats", "beat-type"]);
+    expect(names(child(attributes, "clef"))).toEqual(["sign", "line"]);
+    expect(text(attributes, "clef", "sign") + text(attributes, "clef", "line")).toBe("G2");
+    expect(child(child(first, "direction"), "sound").attrs).toBe(`tempo="96"`);
+  });
+
+  it.each<[string, Mode, number, string]>([
+    ["C", "major", 0, "major"],
+    ["F#", "major", 6, "major"],
+    ["Gb", "major", -6, "major"],
+    ["A", "aeolian", 0, "minor"],
+    ["E", "minor", 1, "minor"],
+    ["D", "melodic", -1, "minor"],
+    ["D", "dorian", 0, "dorian"],
+    ["E", "phrygian", 0, "phrygian"],
+    ["Bb", "lydian", -1, "lydian"],
+    ["G", "mixolydian", 0, "mixolydian"],
+    ["B", "locrian", 0, "locrian"],
+    ["G#", "major", 8, "major"],
+    ["Fb", "major", -8, "major"],
+  ])("writes %s %s as <fifths>%i</fifths><mode>%s</mode>", (tonic, mode, fifths, xmlMode) => {
+    const key = child(child(measures(score(tonic, mode).doc)[0], "attributes"), "key");
+    expect(text(key, "fifths")).toBe(String(fifths));
+    expect(text(key, "mode")).toBe(xmlMode);
+  });
+
+  it.each<[string, Mode, boolean]>([
+    ["C", "major", false],
+    ["A", "minor", true],
+    ["Eb", "dorian", true],
+  ])("fills every measure of %s %s exactly", (tonic, mode, sevenths) => {
+    let divisions = 0, beats = 0, beatType = 0;
+    const TYPES: Record<string, number> = { quarter: 1, whole: 4 };
+    for (const measure of measures(score(tonic, mode, sevenths).doc)) {
+      const attributes = measure.children.find(c => c.name === "attributes");
+      if (attributes?.children.some(c => c.name === "divisions")) divisions = Number(text(attributes, "divisions"));
+      if (attributes?.children.some(c => c.name === "time")) {
+        beats = Number(text(attributes, "time", "beats"));
+        beatType = Number(text(attributes, "time", "beat-type"));
+      }
+      const notes = measure.children.filter(c => c.name === "note");
+      for (const n of notes) expect(Number(text(n, "duration"))).toBe(TYPES[text(n, "type")] * divisions);
+      const filled = notes.filter(n => !names(n).includes("chord")).reduce((t, n) => t + Number(text(n, "duration")), 0);
+      expect(filled).toBe(beats * divisions * 4 / beatType);
+    }
+  });
+
+  it("keeps note and pitch children in schema order", () => {
+    const NOTE = ["chord", "pitch", "duration", "voice", "type", "accidental", "lyric"];
+    for (const measure of measures(score("G#", "minor", true).doc)) {
+      for (const n of measure.children.filter(c => c.name === "note")) {
+        expect(inOrder(names(n), NOTE)).toBe(true);
+        expect(inOrder(names(child(n, "pitch")), ["step", "alter", "octave"])).toBe(true);
+      }
+    }
+  });
+
+  it("puts each chord symbol before its notes and the Roman numeral on the lowest note", () => {
+    const [, ...chordMeasures] = measures(score("C", "major").doc);
+    expect(names(chordMeasures[0])).toEqual(["attributes", "harmony", "note", "note", "note"]);
+    for (const m of chordMeasures.slice(1, -1)) expect(names(m)).toEqual(["harmony", "note", "note", "note"]);
+    expect(names(chordMeasures[6])).toEqual(["harmony", "note", "note", "note", "barline"]);
+    const notes = chordMeasures[1].children.filter(c => c.name === "note");
+    expect(notes.map(n => names(n).includes("lyric"))).toEqual([true, false, false]);
+    expect(text(notes[0], "lyric", "text")).toBe("ii");
+    expect(notes.map(n => names(n).includes("chord"))).toEqual([false, true, true]);
+    expect(child(chordMeasures[6], "barline").attrs).toBe(`location="right"`);
+  });
+
+  it("names harmony kinds from the chord's intervals", () => {
+    const kinds = (tonic: string, mode: Mode, sevenths: boolean) =>
+      measures(score(tonic, mode, sevenths).doc).slice(1).map(m => text(m, "harmony", "kind"));
+    expect(kinds("C", "major", false)).toEqual(["major", "minor", "minor", "major", "major", "minor", "diminished"]);
+    expect(kinds("C", "major", true)).toEqual([
+      "major-seventh", "minor-seventh", "minor-seventh", "major-seventh", "dominant", "minor-seventh", "half-diminished",
+    ]);
+    expect(kinds("A", "minor", true)).toEqual([
+      "major-minor", "half-diminished", "major-seventh", "minor-seventh", "dominant", "major-seventh", "diminished-seventh",
+    ]);
+  });
+
+  it("writes the root alter and the raised fifth of an augmented major seventh", () => {
+    const III = measures(score("A", "minor", true).doc)[3];
+    const harmony = child(III, "harmony");
+    expect(names(harmony)).toEqual(["root", "kind", "degree"]);
+    expect(names(child(harmony, "root"))).toEqual(["root-step"]);
+    expect(child(harmony, "kind").attrs).toBe(`text="+maj7"`);
+    expect(names(child(harmony, "degree"))).toEqual(["degree-value", "degree-alter", "degree-type"]);
+    expect(text(harmony, "degree", "degree-alter")).toBe("1");
+
+    const bVII = measures(score("C", "mixolydian").doc)[7];
+    expect(text(bVII, "harmony", "root", "root-step") + text(bVII, "harmony", "root", "root-alter")).toBe("B-1");
+  });
+});
+
+// The official MusicXML 3.0 XSD (schema/, imports pointed at the local copies). Every element and
+// attribute the exporter writes has the same content model in 4.0, so a pass here is a pass there.
+const validate = (xml: string) => validateXML({
+  xml: { fileName: "score.musicxml", contents: xml },
+  schema: { fileName: "musicxml.xsd", contents: MUSICXML_XSD },
+  preload: [{ fileName: "xml.xsd", contents: XML_XSD }, { fileName: "xlink.xsd", contents: XLINK_XSD }],
+});
+
+describe("schema validation", () => {
+  it.each<[string, Mode, boolean]>([
+    ["C", "major", false],
+    ["C", "major", true],
+    ["A", "minor", true],
+    ["D", "melodic", true],
+    ["F#", "major", false],
+    ["Gb", "dorian", true],
+    ["Bb", "locrian", false],
+    ["G#", "major", true],
+    ["Fb", "lydian", false],
+  ])("%s %s (sevenths: %s) validates", async (tonic, mode, sevenths) => {
+    const result = await validate(score(tonic, mode, sevenths).xml);
+    expect(result.errors.map(e => e.message)).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects elements out of order and unknown values", async () => {
+    const { xml } = score("C", "major");
+    const swapped = await validate(xml.replace("<duration>1</duration><voice>1</voice>", "<voice>1</voice><duration>1</duration>"));
+    expect(swapped.valid).toBe(false);
+    const quaver = await validate(xml.replace("<type>quarter</type>", "<type>quaver</type>"));
+    expect(quaver.valid).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+/* ============================================================
+   MusicXML export — key signature, scale and chord palette
+   ============================================================ */
+import { ascendingLine, intervalBetween, intervalName, keySignatureFor, parseNote, pretty } from "../theory";
+import type { Chord, Letter, Mode, VoicedNote } from "../theory";
+import type { ExportKey } from "../midi/export";
+import { writtenOctave } from "../notation/staff";
+
+export const MUSICXML_TYPE = "application/vnd.recordare.musicxml+xml";
+
+// MusicXML has no harmonic or melodic minor: every minor-family mode is written as minor
+const XML_MODES: Partial<Record<Mode, string>> = { aeolian: "minor", minor: "minor", melodic: "minor" };
+
+const ACCIDENTALS: Record<number, string> = { [-2]: "flat-flat", [-1]: "flat", 0: "natural", 1: "sharp", 2: "double-sharp" };
+
+// Harmony kinds by the intervals above the root; `fifth` marks an altered fifth the kind doesn't imply
+const KINDS: Record<string, { kind: string; text: string; fifth?: number }> = {
+  "M3 P5":    { kind: "major", text: "" },
+  "m3 P5":    { kind: "minor", text: "m" },
+  "m3 d5":    { kind: "diminished", text: "dim" },
+  "M3 A5":    { kind: "augmented", text: "+" },
+  "M3 P5 m7": { kind: "dominant", text: "7" },
+  "M3 P5 M7": { kind: "major-seventh", text: "maj7" },
+  "m3 P5 m7": { kind: "minor-seventh", text: "m7" },
+  "m3 P5 M7": { kind: "major-minor", text: "m(maj7)" },
+  "m3 d5 m7": { kind: "half-diminished", text: "m7b5" },
+  "m3 d5 d7": { kind: "diminished-seventh", text: "dim7" },
+  "M3 A5 m7": { kind: "augmented-seventh", text: "+7" },
+  "M3 A5 M7": { kind: "major-seventh", text: "+maj7", fifth: 1 },
+};
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Accidentals still in force within a measure, starting from the key signature. */
+function accidentalTracker(signature: Record<Letter, number>) {
+  const shown = new Map<string, number>();
+  return (v: VoicedNote) => {
+    const { letter, acc } = parseNote(v.note);
+    const at = `${letter}${writtenOctave(v)}`;
+    const current = shown.get(at) ?? signature[letter];
+    shown.set(at, acc);
+    return current === acc ? undefined : ACCIDENTALS[acc];
+  };
+}
+
+function noteXml(v: VoicedNote, duration: number, type: string, accidental?: string, chord = false, lyric?: string) {
+  const { letter, acc } = parseNote(v.note);
+  return [
+    "<note>",
+    chord ? "<chord/>" : "",
+    `<pitch><step>${letter}</step>${acc ? `<alter>${acc}</alter>` : ""}<octave>${writtenOctave(v)}</octave></pitch>`,
+    `<duration>${duration}</duration><voice>1</voice><type>${type}</type>`,
+    accidental ? `<accidental>${accidental}</accidental>` : "",
+    lyric ? `<lyric number="1"><syllabic>single</syllabic><text>${escapeXml(lyric)}</text></lyric>` : "",
+    "</note>",
+  ].join("");
+}
+
+/** Chord symbol for a root-position chord: root, kind and, where needed, an altered fifth. */
+function harmonyXml(tones: string[]) {
+  const { letter, acc } = parseNote(tones[0]);
+  const intervals = tones.slice(1).map(t => intervalName(intervalBetween(tones[0], t))).join(" ");
+  const k = KINDS[intervals] ?? { kind: "other", text: "" };
+  return [
+    "<harmony>",
+    `<root><root-step>${letter}</root-step>${acc ? `<root-alter>${acc}</root-alter>` : ""}</root>`,
+    `<kind text="${escapeXml(k.text)}">${k.kind}</kind>`,
+    k.fifth ? `<degree><degree-value>5</degree-value><degree-alter>${k.fifth}</degree-alter><degree-type>alter</degree-type></degree>` : "",
+    "</harmony>",
+  ].join("");
+}
+
+/** MusicXML 4.0 score for a key: its signature and the scale tonic to tonic in one measure of
+ *  quarter notes, then one measure per palette chord with its chord symbol and Roman numeral.
+ *  Notes keep their spellings exactly (double sharps and all); theoretical keys keep their full
+ *  signature (`<fifths>` may go past seven).
+ */
+export function keyToMusicXml(key: ExportKey, scale: string[], chords: Chord[]) {
+  const sig = keySignatureFor(key.tonic, key.mode);
+  const line = ascendingLine([...scale, scale[0]]);
+  const measures: string[] = [];
+
+  const scaleAcc = accidentalTracker(sig.acc);
+  measures.push([
+    `<measure number="1">`,
+    "<attributes><divisions>1</divisions>",
+    `<key><fifths>${sig.fifths}</fifths><mode>${XML_MODES[key.mode] ?? key.mode}</mode></key>`,
+    `<time><beats>${line.length}</beats><beat-type>4</beat-type></time>`,
+    "<clef><sign>G</sign><line>2</line></clef></attributes>",
+    `<direction placement="above"><direction-type><words>${escapeXml(`${key.title} scale`)}</words></direction-type><sound tempo="${key.bpm}"/></direction>`,
+    ...line.map(v => noteXml(v, 1, "quarter", scaleAcc(v))),
+    "</measure>",
+  ].join(""));
+
+  chords.forEach((c, i) => {
+    const acc = accidentalTracker(sig.acc);
+    const last = i === chords.length - 1;
+    measures.push([
+      `<measure number="${i + 2}">`,
+      i === 0 ? "<attributes><time><beats>4</beats><beat-type>4</beat-type></time></attributes>" : "",
+      harmonyXml(c.tones),
+      ...ascendingLine(c.tones).map((v, j) => noteXml(v, 4, "whole", acc(v), j > 0, j === 0 ? pretty(c.rn) : undefined)),
+      last ? `<barline location="right"><bar-style>light-heavy</bar-style></barline>` : "",
+      "</measure>",
+    ].join(""));
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8" standalone="no"?>`,
+    `<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">`,
+    `<score-partwise version="4.0">`,
+    `<work><work-title>${escapeXml(key.title)}</work-title></work>`,
+    `<identification><encoding><software>Circle of Fifths</software><supports element="accidental" type="yes"/></encoding></identification>`,
+    `<part-list><score-part id="P1"><part-name>Piano</part-name></score-part></part-list>`,
+    `<part id="P1">`,
+    ...measures,
+    `</part>`,
+    `</score-partwise>`,
+    "",
+  ].join("\n");
+}
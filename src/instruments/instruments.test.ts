@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { buildScaleFromKeyName } from "../theory";
+import { TUNINGS, octaveOf, parseTuning, pianoKeys, scaleDegree, stringMidi } from "./instruments";
+
+describe("parseTuning", () => {
+  it("reads standard guitar tuning low to high", () => {
+    expect(parseTuning("E2 A2 D3 G3 B3 E4")).toEqual([40, 45, 50, 55, 59, 64]);
+  });
+
+  it("takes commas, extra spaces, lower case and accidentals", () => {
+    expect(parseTuning("  d2, a2,d3  g3 ")).toEqual([38, 45, 50, 55]);
+    expect(parseTuning("F#1 Bb1 C♯2 E♭2")).toEqual([30, 34, 37, 39]);
+    expect(parseTuning("B0 E1")).toEqual([23, 28]);
+  });
+
+  it.each(["", "   ", ",", "E2 X2", "E A D", "E2 A22", "H2"])("rejects %j", text => {
+    expect(parseTuning(text)).toBeUndefined();
+  });
+
+  it("reads every preset", () => {
+    for (const t of TUNINGS) expect(parseTuning(t.strings.join(" "))).toEqual(t.strings.map(stringMidi));
+    expect(parseTuning(TUNINGS.find(t => t.name === "Ukulele")!.strings.join(" "))).toEqual([67, 60, 64, 69]);
+  });
+});
+
+describe("scaleDegree", () => {
+  const D_MAJOR = buildScaleFromKeyName("D", "major");
+
+  it("finds the degree of a MIDI note in any octave", () => {
+    expect(scaleDegree(62, D_MAJOR)).toBe(0);
+    expect(scaleDegree(66, D_MAJOR)).toBe(2);
+    expect(scaleDegree(25, D_MAJOR)).toBe(6);
+    expect(scaleDegree(97, D_MAJOR)).toBe(6);
+  });
+
+  it("takes a pitch class, negative ones included", () => {
+    expect(scaleDegree(2, D_MAJOR)).toBe(0);
+    expect(scaleDegree(-1, buildScaleFromKeyName("C", "major"))).toBe(6);
+  });
+
+  it("matches enharmonic spellings and gives -1 outside the scale", () => {
+    expect(scaleDegree(70, buildScaleFromKeyName("Gb", "major"))).toBe(2);
+    expect(scaleDegree(65, D_MAJOR)).toBe(-1);
+    expect(scaleDegree(60, D_MAJOR)).toBe(-1);
+  });
+});
+
+describe("pianoKeys", () => {
+  it("lays out one octave from middle C with the closing C", () => {
+    const keys = pianoKeys(4, 1);
+    expect(keys.map(k => k.midi)).toEqual(Array.from({ length: 13 }, (_, i) => 60 + i));
+    expect(keys.filter(k => k.black).map(k => k.midi)).toEqual([61, 63, 66, 68, 70]);
+    expect(keys.filter(k => !k.black).map(k => k.x)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  it("puts each black key on the boundary after its white neighbour", () => {
+    const keys = pianoKeys(4, 1);
+    expect(keys.filter(k => k.black).map(k => k.x)).toEqual([1, 2, 4, 5, 6]);
+  });
+
+  it("spans several octaves from any start", () => {
+    const keys = pianoKeys(2, 3);
+    expect(keys).toHaveLength(37);
+    expect(keys[0]).toEqual({ midi: 36, black: false, x: 0 });
+    expect(keys[keys.length - 1]).toEqual({ midi: 72, black: false, x: 21 });
+    expect(keys.filter(k => !k.black)).toHaveLength(22);
+  });
+
+  it("starts on the octave octaveOf reports", () => {
+    for (const start of [0, 3, 5]) expect(octaveOf(pianoKeys(start, 1)[0].midi)).toBe(start);
+  });
+});
@@ -0,0 +1,67 @@
+/* ============================================================
+   Instruments — piano and fretboard layout, tunings, degree colors
+   ============================================================ */
+import { mod12, pitchClass, spelledToMidi } from "../theory";
+
+/** One color per scale degree, 1 → 7. */
+export const DEGREE_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#06b6d4", "#6366f1", "#d946ef"];
+
+/** Scale degree (0–6) of a MIDI note or pitch class in `scale`, or -1 when outside it. */
+export const scaleDegree = (midiOrPc: number, scale: string[]) =>
+  scale.findIndex(n => pitchClass(n) === mod12(midiOrPc));
+
+/** Octave as `VoicedNote` counts it for a MIDI number, so `noteToFreq(spelling, octaveOf(m))` sounds `m`. */
+export const octaveOf = (midi: number) => Math.floor(midi / 12) - 1;
+
+// ---------- Piano ------------------------------------------------------------
+const BLACK_PCS = new Set([1, 3, 6, 8, 10]);
+
+/** `x` in white-key widths: a white key's left edge, or the white-key boundary a black key straddles. */
+export type PianoKey = { midi: number; black: boolean; x: number };
+
+/** Keys from C of `startOctave` for `octaves` octaves, plus the closing C. */
+export function pianoKeys(startOctave: number, octaves: number): PianoKey[] {
+  const first = 12 * (startOctave + 1);
+  const keys: PianoKey[] = [];
+  let white = 0;
+  for (let midi = first; midi <= first + 12 * octaves; midi++) {
+    const black = BLACK_PCS.has(mod12(midi));
+    keys.push({ midi, black, x: white });
+    if (!black) white++;
+  }
+  return keys;
+}
+
+// ---------- Fretboard --------------------------------------------------------
+/** Open strings low to high, as note + octave ("E2"). */
+export type Tuning = { name: string; strings: string[] };
+
+export const TUNINGS: Tuning[] = [
+  { name: "Guitar — standard", strings: ["E2","A2","D3","G3","B3","E4"] },
+  { name: "Guitar — drop D", strings: ["D2","A2","D3","G3","B3","E4"] },
+  { name: "Guitar — DADGAD", strings: ["D2","A2","D3","G3","A3","D4"] },
+  { name: "Guitar — open G", strings: ["D2","G2","D3","G3","B3","D4"] },
+  { name: "Bass — 4 string", strings: ["E1","A1","D2","G2"] },
+  { name: "Bass — 5 string", strings: ["B0","E1","A1","D2","G2"] },
+  { name: "Ukulele", strings: ["G4","C4","E4","A4"] },
+];
+
+export const FRET_MARKERS = [3, 5, 7, 9, 12, 15, 17, 19, 21, 24];
+
+/** MIDI number of a string name like "E2" or "F#3"; throws on anything else. */
+export function stringMidi(name: string) {
+  const m = /^([A-Ga-g](?:##|bb|#|b|♯|♭)?)(-?\d)$/.exec(name.trim());
+  if (!m) throw new Error(`Unknown string: ${name}`);
+  return spelledToMidi(m[1], Number(m[2]));
+}
+
+/** Parse "E2 A2 D3 G3 B3 E4" into open-string MIDI numbers, low to high; undefined if any string is unreadable. */
+export function parseTuning(text: string): number[] | undefined {
+  const names = text.split(/[\s,]+/).filter(Boolean);
+  if (names.length === 0) return undefined;
+  try {
+    return names.map(stringMidi);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildScaleFromKeyName } from "../theory";
+import type { Mode } from "../theory";
+import { keySignatureMeta, scaleToMidi } from "./export";
+
+describe("keySignatureMeta", () => {
+  it.each<[string, Mode, number, boolean]>([
+    ["C", "major", 0, false],
+    ["C#", "major", 7, false],
+    ["Cb", "major", -7, false],
+    ["A", "aeolian", 0, true],
+    ["F#", "minor", 3, true],
+    ["Eb", "melodic", -6, true],
+    ["D", "dorian", 0, false],
+    ["E", "phrygian", 0, false],
+    ["Bb", "mixolydian", -3, false],
+    ["A", "lydian", 4, false],
+    ["B", "locrian", 0, false],
+  ])("%s %s", (tonic, mode, sharps, minor) => {
+    expect(keySignatureMeta(tonic, mode)).toEqual({ sharps, minor });
+  });
+
+  it("folds theoretical keys onto their enharmonic twin", () => {
+    expect(keySignatureMeta("G#", "major")).toEqual({ sharps: -4, minor: false });
+    expect(keySignatureMeta("Fb", "major")).toEqual({ sharps: 4, minor: false });
+    expect(keySignatureMeta("D#", "major")).toEqual({ sharps: -3, minor: false });
+    expect(keySignatureMeta("Db", "minor")).toEqual({ sharps: 4, minor: true });
+  });
+});
+
+describe("exported files", () => {
+  const key = { tonic: "G#", mode: "major" as Mode, bpm: 90, title: "G" };
+  const CONDUCTOR = [
+    0x00, 0xff, 0x03, 0x01, 0x47,                     // track name "G"
+    0x00, 0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08,   // 4/4
+    0x00, 0xff, 0x59, 0x02, 0xfc, 0x00,               // 4 flats, major
+    0x00, 0xff, 0x51, 0x03, 0x0a, 0x2c, 0x2b,         // 666 667 µs per quarter
+    0x00, 0xff, 0x2f, 0x00,
+  ];
+
+  it("writes the conductor track of a format 1 file", () => {
+    const bytes = [...scaleToMidi(buildScaleFromKeyName("G#", "major"), "up", key)];
+    expect(bytes.slice(0, 14)).toEqual([0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 2, 0x01, 0xe0]);
+    expect(bytes.slice(14, 22)).toEqual([0x4d, 0x54, 0x72, 0x6b, 0, 0, 0, CONDUCTOR.length]);
+    expect(bytes.slice(22, 22 + CONDUCTOR.length)).toEqual(CONDUCTOR);
+  });
+
+  it("writes a scale as quarter notes with the MIDI numbers spelledToMidi gives", () => {
+    const bytes = [...scaleToMidi(buildScaleFromKeyName("C", "major"), "up", { ...key, tonic: "C" }, 0)];
+    const notes = bytes.slice(14 + 8 + CONDUCTOR.length - 4, -4);
+    expect(notes).toEqual([
+      0x00, 0x90, 60, 0x60,
+      0x83, 0x60, 0x80, 60, 0x40, 0x00, 0x90, 62, 0x60,
+      0x83, 0x60, 0x80, 62, 0x40, 0x00, 0x90, 64, 0x60,
+      0x83, 0x60, 0x80, 64, 0x40, 0x00, 0x90, 65, 0x60,
+      0x83, 0x60, 0x80, 65, 0x40, 0x00, 0x90, 67, 0x60,
+      0x83, 0x60, 0x80, 67, 0x40, 0x00, 0x90, 69, 0x60,
+      0x83, 0x60, 0x80, 69, 0x40, 0x00, 0x90, 71, 0x60,
+      0x83, 0x60, 0x80, 71, 0x40, 0x00, 0x90, 72, 0x60,
+      0x83, 0x60, 0x80, 72, 0x40,
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+/* ============================================================
+   MIDI export — scales, chord palettes and progressions
+   ============================================================ */
+import { DEFAULT_VOICING, MODES, ascendingLine, keySignatureFor, voiceSequence, voicedMidi } from "../theory";
+import type { Chord, Mode, ProgressionStep, VoicingOptions } from "../theory";
+import { DEFAULT_PPQ, encodeMidiFile, noteEvents } from "./smf";
+import type { MidiEvent } from "./smf";
+
+export type ScaleDirection = "up" | "down" | "both";
+
+/** What every exported file carries in its conductor data. */
+export type ExportKey = { tonic: string; mode: Mode; bpm: number; title: string };
+
+/** Key-signature meta values: signed accidental count from the key signature, minor flag by mode family.
+ *  MIDI stops at seven, so theoretical keys are written as their enharmonic twin (G♯ major → A♭, 4 flats).
+ */
+export function keySignatureMeta(tonic: string, mode: Mode) {
+  const { fifths } = keySignatureFor(tonic, mode);
+  const sharps = fifths > 7 ? fifths - 12 * Math.ceil((fifths - 7) / 12) : fifths < -7 ? fifths + 12 * Math.ceil((-7 - fifths) / 12) : fifths;
+  return { sharps, minor: MODES[mode].minorFamily };
+}
+
+/** Wrap note events in a file: one track for format 0, conductor + notes for format 1. */
+function buildFile(key: ExportKey, notes: MidiEvent[], format: 0 | 1) {
+  const conductor: MidiEvent[] = [
+    { tick: 0, type: "trackName", text: key.title },
+    { tick: 0, type: "timeSignature", num: 4, den: 4 },
+    { tick: 0, type: "keySignature", ...keySignatureMeta(key.tonic, key.mode) },
+    { tick: 0, type: "tempo", bpm: key.bpm },
+  ];
+  const tracks = format === 0 ? [[...conductor, ...notes]] : [conductor, notes];
+  return encodeMidiFile({ format, ppq: DEFAULT_PPQ, tracks });
+}
+
+/** Scale tonic to tonic in the octaves `ascendingLine` picks, in the given direction. */
+export function scaleLine(scale: string[], dir: ScaleDirection) {
+  const up = ascendingLine([...scale, scale[0]]);
+  return dir === "up" ? up : dir === "down" ? [...up].reverse() : [...up, ...up.slice(0, -1).reverse()];
+}
+
+/** Scale as quarter notes. */
+export function scaleToMidi(scale: string[], dir: ScaleDirection, key: ExportKey, format: 0 | 1 = 1) {
+  const notes = scaleLine(scale, dir).flatMap((v,i)=> noteEvents(i*DEFAULT_PPQ, DEFAULT_PPQ, voicedMidi(v)));
+  return buildFile(key, notes, format);
+}
+
+/** One chord per bar, voiced as played back. */
+export function chordsToMidi(chords: Chord[], key: ExportKey, format: 0 | 1 = 1, voicing: VoicingOptions = DEFAULT_VOICING) {
+  const bar = 4*DEFAULT_PPQ;
+  const voiced = voiceSequence(chords.map(c => c.tones), voicing);
+  const notes = voiced.flatMap((v,i)=> v.flatMap(n => noteEvents(i*bar, bar, voicedMidi(n))));
+  return buildFile(key, notes, format);
+}
+
+/** Progression with each step's length in beats; unresolved steps become rests. */
+export function progressionToMidi(
+  steps: ProgressionStep[], chords: (Chord | undefined)[], key: ExportKey, format: 0 | 1 = 1, voicing: VoicingOptions = DEFAULT_VOICING,
+) {
+  const voiced = voiceSequence(steps.map((_,i)=> chords[i]?.tones ?? []), voicing);
+  let tick = 0;
+  const notes = steps.flatMap((s,i)=>{
+    const dur = Math.max(1, s.beats) * DEFAULT_PPQ;
+    const ev = voiced[i].flatMap(v => noteEvents(tick, dur, voicedMidi(v)));
+    tick += dur;
+    return ev;
+  });
+  return buildFile(key, notes, format);
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { buildScaleFromKeyName, nameChord } from "../theory";
+import { EMPTY_HELD, applyMidiMessage, attachInputs, createFakeMidiAccess, heldNotes, velocityLevel } from "./input";
+import type { HeldState } from "./input";
+
+const C_MAJOR = buildScaleFromKeyName("C", "major");
+
+/** A fake keyboard wired up the way useMidiInput wires real inputs. */
+function keyboard() {
+  const fake = createFakeMidiAccess();
+  let held: HeldState = EMPTY_HELD;
+  const devices = attachInputs(fake.access, data => { held = applyMidiMessage(held, data); });
+  return { ...fake, devices, notes: () => heldNotes(held), level: (n: number) => velocityLevel(held, n), chord: () => nameChord(heldNotes(held), C_MAJOR)?.symbol };
+}
+
+describe("held notes from a fake MIDIAccess", () => {
+  it("lists the fake input", () => {
+    expect(keyboard().devices).toEqual(["Fake keyboard"]);
+  });
+
+  it("tracks keys down and up", () => {
+    const k = keyboard();
+    k.noteOn(67); k.noteOn(60); k.noteOn(64);
+    expect(k.notes()).toEqual([60, 64, 67]);
+    expect(k.chord()).toBe("C");
+    k.noteOff(60);
+    expect(k.notes()).toEqual([64, 67]);
+    expect(k.chord()).toBeUndefined();
+  });
+
+  it("treats note-on with velocity 0 as note-off, on any channel", () => {
+    const k = keyboard();
+    k.noteOn(60);
+    k.access.inputs.forEach(i => i.onmidimessage?.({ data: Uint8Array.from([0x93, 60, 0]) }));
+    expect(k.notes()).toEqual([]);
+  });
+
+  it("follows the chord as it is re-voiced", () => {
+    const k = keyboard();
+    [64, 67, 72].forEach(n => k.noteOn(n));
+    expect(k.chord()).toBe("C/E");
+    k.noteOn(55);
+    expect(k.chord()).toBe("C/G");
+    k.noteOff(55); k.noteOn(48);
+    expect(k.notes()).toEqual([48, 64, 67, 72]);
+    expect(k.chord()).toBe("C");
+  });
+
+  it("keeps released keys sounding while the pedal is down", () => {
+    const k = keyboard();
+    k.pedal(true);
+    [55, 59, 62].forEach(n => k.noteOn(n));
+    [55, 59, 62].forEach(n => k.noteOff(n));
+    expect(k.notes()).toEqual([55, 59, 62]);
+    expect(k.chord()).toBe("G");
+    // A 7th played over the sustained triad joins it
+    k.noteOn(65);
+    expect(k.chord()).toBe("G7");
+    k.pedal(false);
+    expect(k.notes()).toEqual([65]);
+    expect(k.chord()).toBeUndefined();
+  });
+
+  it("ignores a note-off for a key the pedal is already holding", () => {
+    const k = keyboard();
+    k.pedal(true);
+    [60, 64, 67].forEach(n => k.noteOn(n));
+    k.noteOff(64);
+    const before = k.notes();
+    k.noteOff(64);
+    expect(k.notes()).toEqual(before);
+    expect(k.chord()).toBe("C");
+  });
+
+  it("moves a sustained key back to held when it is struck again", () => {
+    const k = keyboard();
+    k.pedal(true);
+    k.noteOn(60); k.noteOff(60); k.noteOn(60);
+    k.pedal(false);
+    expect(k.notes()).toEqual([60]);
+  });
+
+  it("plays each key at the velocity it was last struck with", () => {
+    const k = keyboard();
+    k.noteOn(60, 127); k.noteOn(64, 32);
+    expect([k.level(60), k.level(64)]).toEqual([1, 32 / 127]);
+    k.noteOff(64); k.noteOn(64, 90);
+    expect(k.level(64)).toBe(90 / 127);
+    // Velocity 0 is a note-off and leaves the last strike alone
+    k.access.inputs.forEach(i => i.onmidimessage?.({ data: Uint8Array.from([0x90, 60, 0]) }));
+    expect(k.level(60)).toBe(1);
+    expect(k.level(72)).toBe(1);
+  });
+
+  it("clears everything on all-notes-off", () => {
+    const k = keyboard();
+    k.pedal(true);
+    [60, 64, 67].forEach(n => k.noteOn(n));
+    k.access.inputs.forEach(i => i.onmidimessage?.({ data: Uint8Array.from([0xb0, 123, 0]) }));
+    expect(k.notes()).toEqual([]);
+  });
+});
@@ -0,0 +1,79 @@
+/* ============================================================
+   Web MIDI input — held-note tracking
+   ============================================================ */
+
+// Structural slices of the Web MIDI API, so a fake access object can stand in for hardware
+export type MidiMessageLike = { data: Uint8Array | null };
+export type MidiInputLike = {
+  id: string;
+  name: string | null;
+  onmidimessage: ((e: MidiMessageLike) => void) | null;
+};
+export type MidiAccessLike = {
+  inputs: { forEach(cb: (input: MidiInputLike) => void): void };
+  onstatechange: (() => void) | null;
+};
+
+/** Keys physically down, keys kept sounding by the sustain pedal, the pedal itself, and the
+ *  velocity (1–127) each key was last struck with.
+ */
+export type HeldState = { down: ReadonlySet<number>; sustained: ReadonlySet<number>; pedal: boolean; velocity: ReadonlyMap<number, number> };
+
+export const EMPTY_HELD: HeldState = { down: new Set(), sustained: new Set(), pedal: false, velocity: new Map() };
+
+/** Apply one raw MIDI message (any channel). Unhandled messages return the same state object. */
+export function applyMidiMessage(s: HeldState, data: ArrayLike<number>): HeldState {
+  const [status = 0, d1 = 0, d2 = 0] = Array.from(data);
+  const kind = status & 0xf0;
+  if (kind === 0x90 && d2 > 0) {
+    const down = new Set(s.down).add(d1);
+    const sustained = new Set(s.sustained); sustained.delete(d1);
+    return { ...s, down, sustained, velocity: new Map(s.velocity).set(d1, d2) };
+  }
+  if (kind === 0x80 || (kind === 0x90 && d2 === 0)) {
+    if (!s.down.has(d1)) return s;
+    const down = new Set(s.down); down.delete(d1);
+    const sustained = s.pedal ? new Set(s.sustained).add(d1) : s.sustained;
+    return { ...s, down, sustained };
+  }
+  if (kind === 0xb0 && d1 === 64) {
+    const pedal = d2 >= 64;
+    return pedal === s.pedal ? s : { ...s, pedal, sustained: pedal ? s.sustained : new Set() };
+  }
+  if (kind === 0xb0 && (d1 === 120 || d1 === 123)) return EMPTY_HELD; // all sound / all notes off
+  return s;
+}
+
+/** Sounding notes, low to high. */
+export const heldNotes = (s: HeldState) => [...new Set([...s.down, ...s.sustained])].sort((a,b)=>a-b);
+
+/** Voice level (0–1) for a note-on velocity; keys never struck play at full level. */
+export const velocityLevel = (s: HeldState, note: number) => (s.velocity.get(note) ?? 127) / 127;
+
+export const midiSupported = () => typeof navigator !== "undefined" && "requestMIDIAccess" in navigator;
+
+/** Send every input's messages to `onData`; assigning onmidimessage also opens the port. Returns the input names. */
+export function attachInputs(access: MidiAccessLike, onData: (data: Uint8Array) => void) {
+  const names: string[] = [];
+  access.inputs.forEach(i => {
+    i.onmidimessage = (e) => { if (e.data) onData(e.data); };
+    names.push(i.name ?? i.id);
+  });
+  return names;
+}
+
+/** The browser's MIDIAccess, seen through the structural types above. */
+export const requestBrowserMidi = () => navigator.requestMIDIAccess() as unknown as Promise<MidiAccessLike>;
+
+/** In-memory MIDIAccess with one input whose messages are pushed by hand (tests, demos). */
+export function createFakeMidiAccess(name = "Fake keyboard") {
+  const input: MidiInputLike = { id: "fake-0", name, onmidimessage: null };
+  const access: MidiAccessLike = { inputs: new Map([[input.id, input]]), onstatechange: null };
+  const send = (...bytes: number[]) => input.onmidimessage?.({ data: Uint8Array.from(bytes) });
+  return {
+    access,
+    noteOn: (note: number, velocity = 100) => send(0x90, note, velocity),
+    noteOff: (note: number) => send(0x80, note, 0),
+    pedal: (down: boolean) => send(0xb0, 64, down ? 127 : 0),
+  };
+}
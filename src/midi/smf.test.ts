@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { encodeMidiFile, noteEvents, varLen } from "./smf";
+import type { MidiEvent } from "./smf";
+
+const HEADER_FORMAT_0 = [0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0];
+const HEADER_FORMAT_1 = [0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 2, 0x01, 0xe0];
+const MTRK = [0x4d, 0x54, 0x72, 0x6b];
+
+const TEMPO_120 = [0x00, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20];          // 500 000 µs per quarter
+const KEY_4_FLATS = [0x00, 0xff, 0x59, 0x02, 0xfc, 0x00];              // A♭ major
+const END_OF_TRACK = [0x00, 0xff, 0x2f, 0x00];
+
+// C4 and E4 for a quarter note at velocity 96; the second note-on and note-off use running status
+const DYAD = [
+  0x00, 0x90, 0x3c, 0x60,
+  0x00, 0x40, 0x60,
+  0x83, 0x60, 0x80, 0x3c, 0x40,
+  0x00, 0x40, 0x40,
+];
+const dyad = (): MidiEvent[] => [...noteEvents(0, 480, 60), ...noteEvents(0, 480, 64)];
+
+describe("varLen", () => {
+  it.each([
+    [0, [0x00]], [0x40, [0x40]], [0x7f, [0x7f]], [0x80, [0x81, 0x00]], [0x2000, [0xc0, 0x00]],
+    [0x3fff, [0xff, 0x7f]], [0x4000, [0x81, 0x80, 0x00]], [0x0fffffff, [0xff, 0xff, 0xff, 0x7f]],
+  ])("%i", (n, bytes) => expect(varLen(n)).toEqual(bytes));
+
+  it("rejects values it cannot encode", () => {
+    expect(() => varLen(-1)).toThrow(RangeError);
+    expect(() => varLen(0x10000000)).toThrow(RangeError);
+  });
+});
+
+describe("encodeMidiFile", () => {
+  it("writes a format 0 file", () => {
+    const track: MidiEvent[] = [
+      ...dyad(),
+      { tick: 0, type: "tempo", bpm: 120 },
+      { tick: 0, type: "keySignature", sharps: -4, minor: false },
+    ];
+    const body = [...TEMPO_120, ...KEY_4_FLATS, ...DYAD, ...END_OF_TRACK];
+    expect([...encodeMidiFile({ format: 0, ppq: 480, tracks: [track] })]).toEqual([
+      ...HEADER_FORMAT_0, ...MTRK, 0, 0, 0, body.length, ...body,
+    ]);
+  });
+
+  it("writes a format 1 file with a conductor track", () => {
+    const conductor: MidiEvent[] = [
+      { tick: 0, type: "trackName", text: "Hi" },
+      { tick: 0, type: "tempo", bpm: 120 },
+      { tick: 0, type: "keySignature", sharps: 3, minor: true },
+    ];
+    const first = [0x00, 0xff, 0x03, 0x02, 0x48, 0x69, ...TEMPO_120, 0x00, 0xff, 0x59, 0x02, 0x03, 0x01, ...END_OF_TRACK];
+    const second = [...DYAD, ...END_OF_TRACK];
+    expect([...encodeMidiFile({ format: 1, ppq: 480, tracks: [conductor, dyad()] })]).toEqual([
+      ...HEADER_FORMAT_1,
+      ...MTRK, 0, 0, 0, first.length, ...first,
+      ...MTRK, 0, 0, 0, second.length, ...second,
+    ]);
+  });
+
+  it("restates the status byte after a meta event and on a new channel", () => {
+    const track: MidiEvent[] = [
+      { tick: 0, type: "noteOn", channel: 0, note: 60, velocity: 100 },
+      { tick: 5, type: "tempo", bpm: 120 },
+      { tick: 10, type: "noteOn", channel: 0, note: 62, velocity: 100 },
+      { tick: 10, type: "noteOn", channel: 1, note: 64, velocity: 100 },
+    ];
+    const bytes = [...encodeMidiFile({ format: 0, ppq: 480, tracks: [track] })].slice(HEADER_FORMAT_0.length + 8);
+    expect(bytes).toEqual([
+      0x00, 0x90, 0x3c, 0x64,
+      0x05, ...TEMPO_120.slice(1),
+      0x05, 0x90, 0x3e, 0x64,
+      0x00, 0x91, 0x40, 0x64,
+      ...END_OF_TRACK,
+    ]);
+  });
+
+  it("puts note-offs before note-ons on the same tick", () => {
+    const track = [...noteEvents(480, 480, 60), ...noteEvents(0, 480, 60)];
+    const bytes = [...encodeMidiFile({ format: 0, ppq: 480, tracks: [track] })].slice(HEADER_FORMAT_0.length + 8);
+    expect(bytes).toEqual([
+      0x00, 0x90, 0x3c, 0x60,
+      0x83, 0x60, 0x80, 0x3c, 0x40,
+      0x00, 0x90, 0x3c, 0x60,
+      0x83, 0x60, 0x80, 0x3c, 0x40,
+      ...END_OF_TRACK,
+    ]);
+  });
+
+  it("refuses a format 0 file with more than one track", () => {
+    expect(() => encodeMidiFile({ format: 0, ppq: 480, tracks: [[], []] })).toThrow();
+  });
+});
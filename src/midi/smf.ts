@@ -0,0 +1,78 @@
+/* ============================================================
+   Standard MIDI File writer (format 0 / 1)
+   ============================================================ */
+
+export type MidiEvent =
+  | { tick: number; type: "noteOn" | "noteOff"; channel: number; note: number; velocity: number }
+  | { tick: number; type: "tempo"; bpm: number }
+  | { tick: number; type: "keySignature"; sharps: number; minor: boolean } // sharps<0 = flats
+  | { tick: number; type: "timeSignature"; num: number; den: number }
+  | { tick: number; type: "trackName"; text: string };
+
+export type MidiTrack = MidiEvent[];
+
+export type MidiFile = { format: 0 | 1; ppq: number; tracks: MidiTrack[] };
+
+export const DEFAULT_PPQ = 480;
+
+// ---------- Byte helpers -----------------------------------------------------
+const ascii = (s: string) => Array.from(s, c => c.charCodeAt(0) & 0x7f);
+const u16 = (n: number) => [(n >> 8) & 0xff, n & 0xff];
+const u32 = (n: number) => [(n >>> 24) & 0xff, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+
+/** Variable-length quantity: 7 bits per byte, high bit set on all but the last. */
+export function varLen(n: number) {
+  if (n < 0 || n > 0x0fffffff || !Number.isInteger(n)) throw new RangeError(`Bad variable-length value: ${n}`);
+  const out = [n & 0x7f];
+  while ((n >>= 7) > 0) out.unshift((n & 0x7f) | 0x80);
+  return out;
+}
+
+const meta = (type: number, data: number[]) => [0xff, type, ...varLen(data.length), ...data];
+
+function eventBytes(e: MidiEvent): number[] {
+  switch (e.type) {
+    case "noteOn":        return [0x90 | (e.channel & 0x0f), e.note & 0x7f, e.velocity & 0x7f];
+    case "noteOff":       return [0x80 | (e.channel & 0x0f), e.note & 0x7f, e.velocity & 0x7f];
+    case "tempo":         return meta(0x51, u32(Math.round(60_000_000 / e.bpm)).slice(1));
+    case "keySignature":  return meta(0x59, [e.sharps & 0xff, e.minor ? 1 : 0]);
+    case "timeSignature": return meta(0x58, [e.num, Math.log2(e.den), 24, 8]);
+    case "trackName":     return meta(0x03, [...new TextEncoder().encode(e.text)]);
+  }
+}
+
+// Same-tick order: meta first, then note-offs before note-ons so repeated notes retrigger
+const RANK: Record<MidiEvent["type"], number> = {
+  trackName: 0, tempo: 0, keySignature: 0, timeSignature: 0, noteOff: 1, noteOn: 2,
+};
+
+function trackChunk(track: MidiTrack) {
+  const sorted = track.map((e,i)=>({ e, i })).sort((a,b)=> a.e.tick - b.e.tick || RANK[a.e.type] - RANK[b.e.type] || a.i - b.i);
+  const data: number[] = [];
+  let last = 0, status = 0;
+  for (const { e } of sorted) {
+    const bytes = eventBytes(e);
+    // Running status: a channel event repeating the previous status byte leaves it out; meta events cancel it
+    const running = bytes[0] === status;
+    status = bytes[0] === 0xff ? 0 : bytes[0];
+    data.push(...varLen(e.tick - last), ...(running ? bytes.slice(1) : bytes));
+    last = e.tick;
+  }
+  data.push(0x00, ...meta(0x2f, [])); // end of track
+  return [...ascii("MTrk"), ...u32(data.length), ...data];
+}
+
+/** Encode a complete .mid file. Format 0 takes exactly one track. */
+export function encodeMidiFile(f: MidiFile): Uint8Array {
+  if (f.format === 0 && f.tracks.length !== 1) throw new Error("Format 0 MIDI files hold exactly one track");
+  const header = [...ascii("MThd"), ...u32(6), ...u16(f.format), ...u16(f.tracks.length), ...u16(f.ppq)];
+  return Uint8Array.from([...header, ...f.tracks.flatMap(trackChunk)]);
+}
+
+/** Note-on/off pair. */
+export function noteEvents(tick: number, dur: number, note: number, velocity = 96, channel = 0): MidiEvent[] {
+  return [
+    { tick, type: "noteOn", channel, note, velocity },
+    { tick: tick + dur, type: "noteOff", channel, note, velocity: 64 },
+  ];
+}
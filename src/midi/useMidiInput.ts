@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { EMPTY_HELD, applyMidiMessage, attachInputs, heldNotes, midiSupported, requestBrowserMidi, velocityLevel } from "./input";
+import type { HeldState, MidiAccessLike } from "./input";
+
+function detachAccess(access: MidiAccessLike) {
+  access.inputs.forEach(i => { i.onmidimessage = null; });
+  access.onstatechange = null;
+}
+
+export type MidiStatus = "unsupported" | "idle" | "connecting" | "ready" | "denied";
+
+/** Listen to every connected MIDI input and expose the notes currently sounding and how hard each was struck.
+ *  `request` defaults to the browser's Web MIDI; pass a fake access object to run without a device.
+ */
+export function useMidiInput(request: () => Promise<MidiAccessLike> = requestBrowserMidi) {
+  const [status, setStatus] = useState<MidiStatus>(
+    request !== requestBrowserMidi || midiSupported() ? "idle" : "unsupported"
+  );
+  const [devices, setDevices] = useState<string[]>([]);
+  const [held, setHeld] = useState<HeldState>(EMPTY_HELD);
+  const accessRef = useRef<MidiAccessLike | null>(null);
+
+  const detach = () => {
+    if (accessRef.current) detachAccess(accessRef.current);
+    accessRef.current = null;
+  };
+
+  const connect = async () => {
+    setStatus("connecting");
+    try {
+      const access = await request();
+      detach();
+      accessRef.current = access;
+      // Re-attach on hot-plug
+      const attach = () => setDevices(attachInputs(access, data => setHeld(s => applyMidiMessage(s, data))));
+      attach();
+      access.onstatechange = attach;
+      setStatus("ready");
+    } catch {
+      setStatus("denied");
+    }
+  };
+
+  const disconnect = () => {
+    detach();
+    setDevices([]);
+    setHeld(EMPTY_HELD);
+    setStatus("idle");
+  };
+
+  useEffect(() => () => { if (accessRef.current) detachAccess(accessRef.current); }, []);
+
+  const notes = useMemo(() => heldNotes(held), [held]);
+  const levelOf = useMemo(() => (note: number) => velocityLevel(held, note), [held]);
+  return { status, devices, notes, levelOf, connect, disconnect };
+}
@@ -0,0 +1,79 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { describe, expect, it } from "vitest";
+import { LETTERS, ascendingLine, buildScaleFromKeyName, keySignatureFor, noteName } from "../theory";
+import type { Letter, Mode } from "../theory";
+import { StaffView } from "../components/NotationPanel";
+import { LINE_GAP, layoutStaff, startOctave } from "./staff";
+import type { Clef } from "./staff";
+
+// Where each sign sits, in signature order, as the line or space it marks
+const SIGN_PLACES: Record<Clef, Record<"#" | "b", string[]>> = {
+  treble: { "#": ["F5","C5","G5","D5","A4","E5","B4"], b: ["B4","E5","A4","D5","G4","C5","F4"] },
+  bass:   { "#": ["F3","C3","G3","D3","A2","E3","B2"], b: ["B2","E3","A2","D3","G2","C3","F2"] },
+};
+const BOTTOM_LINE: Record<Clef, string> = { treble: "E4", bass: "G2" };
+
+/** Staff position of a written letter+octave, 0 = bottom line. */
+const stepOf = (place: string, clef: Clef) => {
+  const index = (p: string) => Number(p[1]) * 7 + LETTERS.indexOf(p[0] as Letter);
+  return index(place) - index(BOTTOM_LINE[clef]);
+};
+
+/** The drawn signature as glyph + staff position. */
+function drawnSignature(tonic: string, mode: Mode, clef: Clef) {
+  const layout = layoutStaff(clef, keySignatureFor(tonic, mode), []);
+  return layout.signature.map(s => ({ glyph: s.glyph, step: 8 - (s.y - layout.lines[0]) / (LINE_GAP / 2) }));
+}
+
+const MAJORS: [string, number][] = [
+  ["C", 0], ["G", 1], ["D", 2], ["A", 3], ["E", 4], ["B", 5], ["F#", 6], ["C#", 7],
+  ["F", -1], ["Bb", -2], ["Eb", -3], ["Ab", -4], ["Db", -5], ["Gb", -6], ["Cb", -7],
+];
+const MINORS: [string, number][] = [
+  ["A", 0], ["E", 1], ["B", 2], ["F#", 3], ["C#", 4], ["G#", 5], ["D#", 6], ["A#", 7],
+  ["D", -1], ["G", -2], ["C", -3], ["F", -4], ["Bb", -5], ["Eb", -6], ["Ab", -7],
+];
+const CASES = (["treble", "bass"] as Clef[]).flatMap(clef => [
+  ...MAJORS.map(([tonic, fifths]) => [tonic, "major", fifths, clef] as const),
+  ...MINORS.map(([tonic, fifths]) => [tonic, "aeolian", fifths, clef] as const),
+]);
+
+describe("key signature placement", () => {
+  it.each(CASES)("%s %s (%i) in the %s clef", (tonic, mode, fifths, clef) => {
+    const type = fifths >= 0 ? "#" : "b";
+    expect(drawnSignature(tonic, mode, clef)).toEqual(
+      SIGN_PLACES[clef][type].slice(0, Math.abs(fifths)).map(place => ({ glyph: type === "#" ? "♯" : "♭", step: stepOf(place, clef) }))
+    );
+  });
+
+  it("writes double signs for theoretical keys", () => {
+    expect(drawnSignature("G#", "major", "treble").map(s => s.glyph)).toEqual(["𝄪", "♯", "♯", "♯", "♯", "♯", "♯"]);
+    expect(drawnSignature("Fb", "major", "bass").map(s => s.glyph)).toEqual(["𝄫", "♭", "♭", "♭", "♭", "♭", "♭"]);
+    expect(drawnSignature("G#", "major", "treble")[0].step).toBe(stepOf("F5", "treble"));
+  });
+});
+
+describe("notes against the signature", () => {
+  it("signs only the notes that differ from the key", () => {
+    const layout = layoutStaff("treble", keySignatureFor("D", "major"), [[
+      [{ note: "F#", oct: 4 }], [{ note: "F", oct: 4 }], [{ note: "F", oct: 4 }], [{ note: "F#", oct: 4 }], [{ note: "C#", oct: 5 }],
+    ]]);
+    expect(layout.notes.map(n => n.accidental?.glyph)).toEqual([undefined, "♮", undefined, "♯", undefined]);
+    expect(layout.notes.map(n => n.step)).toEqual([1, 1, 1, 1, 5]);
+  });
+});
+
+describe("rendered staff", () => {
+  // The signature and the scale tonic to tonic, as the notation panel draws them
+  const render = (tonic: string, mode: Mode, clef: Clef) => {
+    const scale = buildScaleFromKeyName(tonic, mode);
+    const line = ascendingLine([...scale, scale[0]], startOctave(scale[0], clef));
+    const layout = layoutStaff(clef, keySignatureFor(tonic, mode), [line.map(v => [v])]);
+    return renderToStaticMarkup(createElement(StaffView, { layout, label: `${tonic} ${mode}`, name: (n: string) => noteName(n, "english"), onNote: () => {} }));
+  };
+
+  it.each(CASES)("%s %s (%i) in the %s clef", (tonic, mode, _fifths, clef) => {
+    expect(render(tonic, mode, clef).replace(/><(?!\/)/g, ">\n<")).toMatchSnapshot();
+  });
+});
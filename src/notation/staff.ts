@@ -0,0 +1,154 @@
+/* ============================================================
+   Notation — staff layout (clefs, key signatures, notes)
+   Pure geometry; StaffView turns it into SVG.
+   ============================================================ */
+import { LETTERS, NAT_PC, ORDER_FLATS, ORDER_SHARPS, parseNote, voicedMidi } from "../theory";
+import type { Letter, Sig, VoicedNote } from "../theory";
+
+export type Clef = "treble" | "bass";
+
+/** A drawn notehead. `step` counts staff positions up from the bottom line (lines are even). */
+export type StaffNote = {
+  voiced: VoicedNote;
+  column: number;
+  x: number;
+  y: number;
+  step: number;
+  accidental?: { glyph: string; x: number };
+  ledgers: { y: number; x1: number; x2: number }[];
+};
+
+export type StaffLayout = {
+  clef: Clef;
+  width: number;
+  height: number;
+  lines: number[];                                  // y of the five staff lines, top first
+  signature: { glyph: string; x: number; y: number }[];
+  notes: StaffNote[];
+  columns: { x: number; measure: number }[];        // center of each column, for labels
+  barlines: number[];
+};
+
+export const LINE_GAP = 10;
+const STEP = LINE_GAP / 2;
+const MARGIN = 4 * LINE_GAP;       // minimum room above and below the staff (more if ledger lines need it)
+const CLEF_W = 40;
+const SIG_W = 9;
+const COLUMN_W = 30;
+const ACC_W = 9;
+const SECOND_SHIFT = 11;           // notehead offset for the upper note of a second
+
+// Bottom line of each clef as a diatonic index (octave * 7 + letter)
+const BOTTOM_LINE: Record<Clef, number> = { treble: 4*7 + 2, bass: 2*7 + 4 }; // E4, G2
+// Key-signature positions on the treble staff, in signature order; the bass clef sits a third lower
+const SHARP_STEPS = [8, 5, 9, 6, 3, 7, 4];
+const FLAT_STEPS  = [4, 7, 3, 6, 2, 5, 1];
+
+export const ACCIDENTAL_GLYPHS: Record<number, string> = { [-2]: "𝄫", [-1]: "♭", 0: "♮", 1: "♯", 2: "𝄪" };
+
+/** Written octave of a voiced note: the letter's octave, so B♯ sounding C5 is written B♯4. */
+export function writtenOctave(v: VoicedNote) {
+  const { letter, acc } = parseNote(v.note);
+  return Math.floor((voicedMidi(v) - NAT_PC[letter] - acc) / 12) - 1;
+}
+
+/** Staff position of a voiced note on a clef (0 = bottom line, 8 = top line). */
+export function staffStep(v: VoicedNote, clef: Clef) {
+  const letter = parseNote(v.note).letter;
+  return writtenOctave(v) * 7 + LETTERS.indexOf(letter) - BOTTOM_LINE[clef];
+}
+
+/** Octave (as `VoicedNote` counts it) to start a scale or chord on so it sits on or just around the staff. */
+export function startOctave(tonic: string, clef: Clef) {
+  const i = LETTERS.indexOf(parseNote(tonic).letter);
+  const written = clef === "treble" ? 4 : i >= 4 ? 2 : 3;
+  return written - (writtenOctave({ note: tonic, oct: 4 }) - 4);   // C♭ and B♯ cross the octave
+}
+
+/** Lay out measures of note columns (a column is one note or a stacked chord). Accidentals follow
+ *  the key signature and carry through a measure, so only notes that differ from it get a sign.
+ */
+export function layoutStaff(clef: Clef, sig: Sig, measures: VoicedNote[][][]): StaffLayout {
+  const allSteps = measures.flat(2).map(v => staffStep(v, clef));
+  const top = Math.max(MARGIN, (Math.max(8, ...allSteps) - 8) * STEP + 2 * LINE_GAP);
+  const bottom = Math.max(MARGIN, -Math.min(0, ...allSteps) * STEP + 2 * LINE_GAP);
+  const yOf = (step: number) => top + (8 - step) * STEP;
+
+  const sigOrder = sig.type === "#" ? ORDER_SHARPS : ORDER_FLATS;
+  const sigSteps = (sig.type === "#" ? SHARP_STEPS : FLAT_STEPS).map(s => clef === "bass" ? s - 2 : s);
+  // Theoretical keys write a double sign in place of the plain one (G♯ major: F𝄪 C♯ G♯…)
+  let sigX = CLEF_W;
+  const signature = sigOrder.slice(0, sig.count).map((L, i) => {
+    const acc = sig.acc[L as Letter];
+    const sign = { glyph: ACCIDENTAL_GLYPHS[acc], x: sigX, y: yOf(sigSteps[i]) };
+    sigX += Math.abs(acc) > 1 ? SIG_W + 4 : SIG_W;
+    return sign;
+  });
+  const sigAcc = (letter: Letter) => sig.acc[letter];
+
+  const notes: StaffNote[] = [];
+  const columns: StaffLayout["columns"] = [];
+  const barlines: number[] = [];
+  let x = Math.max(sigX, CLEF_W + SIG_W) + 6;
+
+  measures.forEach((measure, m) => {
+    const inMeasure = new Map<string, number>();    // "letter+octave" → accidental in force
+    measure.forEach(column => {
+      const placed = column
+        .map(voiced => ({ voiced, step: staffStep(voiced, clef), note: parseNote(voiced.note), oct: writtenOctave(voiced) }))
+        .sort((a,b)=> a.step - b.step);
+
+      // Which notes need a sign, then stack signs top-down so close ones don't collide
+      const signs = placed.map(p => {
+        const key = p.note.letter + p.oct;
+        const current = inMeasure.get(key) ?? sigAcc(p.note.letter);
+        if (p.note.acc === current) return undefined;
+        inMeasure.set(key, p.note.acc);
+        return ACCIDENTAL_GLYPHS[p.note.acc];
+      });
+      const signCols: number[] = [];
+      const taken: { step: number; col: number }[] = [];
+      for (let i = placed.length - 1; i >= 0; i--) {
+        if (!signs[i]) continue;
+        let col = 0;
+        while (taken.some(t => t.col === col && Math.abs(t.step - placed[i].step) < 6)) col++;
+        taken.push({ step: placed[i].step, col });
+        signCols[i] = col;
+      }
+      const accCols = taken.length ? Math.max(...taken.map(t => t.col)) + 1 : 0;
+
+      const cx = x + accCols * ACC_W + COLUMN_W / 2;
+      const columnIndex = columns.length;
+      let prevStep = -Infinity, prevShifted = false;
+      placed.forEach((p, i) => {
+        const shifted = p.step - prevStep === 1 && !prevShifted;
+        prevStep = p.step; prevShifted = shifted;
+        const nx = cx + (shifted ? SECOND_SHIFT : 0);
+        const glyph = signs[i];
+        const ledgers: StaffNote["ledgers"] = [];
+        for (let s = -2; s >= p.step; s -= 2) ledgers.push({ y: yOf(s), x1: nx - 9, x2: nx + 9 });
+        for (let s = 10; s <= p.step; s += 2) ledgers.push({ y: yOf(s), x1: nx - 9, x2: nx + 9 });
+        notes.push({
+          voiced: p.voiced, column: columnIndex, x: nx, y: yOf(p.step), step: p.step, ledgers,
+          accidental: glyph ? { glyph, x: cx - 12 - signCols[i] * ACC_W } : undefined,
+        });
+      });
+      columns.push({ x: cx, measure: m });
+      x += accCols * ACC_W + COLUMN_W + (placed.some((p,i)=> i>0 && p.step - placed[i-1].step === 1) ? SECOND_SHIFT : 0);
+    });
+    x += 6;
+    barlines.push(x);
+    x += 6;
+  });
+
+  return {
+    clef,
+    width: x,
+    height: top + 8 * STEP + bottom,
+    lines: [8, 6, 4, 2, 0].map(yOf),
+    signature,
+    notes,
+    columns,
+    barlines,
+  };
+}
@@ -0,0 +1,161 @@
+/* ============================================================
+   Poster — the circle as a standalone SVG with configurable rings,
+   and a printable handout with every key's scale and chords
+   ============================================================ */
+import {
+  MODES, POSITIONS, buildScaleFromKeyName, diatonicSevenths, diatonicTriads, keySignatureFor, normalizeToken, pretty, tonicAt,
+} from "../theory";
+import type { EnhPref, Mode, Pos } from "../theory";
+
+export type RingKind = "major" | "minor" | "signature" | "dim" | "ii" | "iii" | "vi";
+
+/** Rings in the order they are drawn, outside in. */
+export const RING_KINDS: { kind: RingKind; label: string }[] = [
+  { kind: "major",     label: "Major keys" },
+  { kind: "minor",     label: "Relative minors" },
+  { kind: "signature", label: "Sharps / flats" },
+  { kind: "ii",        label: "ii chords" },
+  { kind: "iii",       label: "iii chords" },
+  { kind: "vi",        label: "vi chords" },
+  { kind: "dim",       label: "vii° chords" },
+];
+
+export type ColorScheme = "rainbow" | "grayscale" | "colorblind";
+
+export const COLOR_SCHEMES: { scheme: ColorScheme; label: string }[] = [
+  { scheme: "rainbow",    label: "Rainbow" },
+  { scheme: "grayscale",  label: "Grayscale" },
+  { scheme: "colorblind", label: "Colorblind-safe" },
+];
+
+/** `name` labels a spelled note in the chosen naming system. */
+export type PosterOptions = { rings: RingKind[]; scheme: ColorScheme; enhPref: EnhPref; title: string; name: (note: string) => string };
+
+export const DEFAULT_POSTER: PosterOptions = { rings: ["major", "minor", "signature"], scheme: "rainbow", enhPref: "auto", title: "Circle of Fifths", name: pretty };
+
+// Viridis, C round to F: ordered in lightness and hue, so neighbours stay apart under any color-vision deficiency
+const VIRIDIS = ["#440154", "#482173", "#433e85", "#38588c", "#2d708e", "#25858e", "#1e9b8a", "#2ab07f", "#52c569", "#86d549", "#c2df23", "#fde725"];
+
+/** Mix a #rrggbb color toward white by `amount` (0–1). */
+function tint(hex: string, amount: number) {
+  const c = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return `rgb(${c.map(v => Math.round(v + (255 - v) * amount)).join(",")})`;
+}
+
+/** Fill and outline of spoke `i` in ring `depth` (0 outermost); inner rings are a shade lighter. */
+function ringColors(scheme: ColorScheme, i: number, depth: number) {
+  switch (scheme) {
+    case "rainbow":
+      return { fill: `hsl(${i * 30} 85% ${Math.min(97, 88 + depth * 3)}%)`, stroke: `hsl(${i * 30} 40% 66%)` };
+    case "grayscale":
+      // Alternate spokes and rings so borders still read on a black-and-white printer
+      return { fill: `hsl(0 0% ${(i + depth) % 2 ? 96 : 86}%)`, stroke: "#475569" };
+    case "colorblind":
+      return { fill: tint(VIRIDIS[i], Math.min(0.9, 0.55 + depth * 0.1)), stroke: VIRIDIS[i] };
+  }
+}
+
+const keyName = (tonic: string, mode: Mode, name: (note: string) => string) => `${name(normalizeToken(tonic))}${mode === "major" ? "" : "m"}`;
+
+/** What ring `kind` shows on spoke `p`. Chord rings are chords of the spoke's major key. */
+export function ringLabel(kind: RingKind, p: Pos, enhPref: EnhPref, name: (note: string) => string = pretty) {
+  const major = normalizeToken(tonicAt(p, "major", enhPref));
+  const scale = buildScaleFromKeyName(major, "major");
+  switch (kind) {
+    case "major": return keyName(major, "major", name);
+    case "minor": return keyName(tonicAt(p, "aeolian", enhPref), "aeolian", name);
+    case "signature": {
+      const { fifths } = keySignatureFor(major, "major");
+      return fifths === 0 ? "–" : `${Math.abs(fifths)}${fifths > 0 ? "♯" : "♭"}`;
+    }
+    case "ii": return `${name(scale[1])}m`;
+    case "iii": return `${name(scale[2])}m`;
+    case "vi": return `${name(scale[5])}m`;
+    case "dim": return `${name(scale[6])}°`;
+  }
+}
+
+function sector(c: number, r1: number, r2: number, a0: number, a1: number) {
+  const pt = (r: number, a: number) => `${(c + r * Math.cos(a)).toFixed(2)} ${(c + r * Math.sin(a)).toFixed(2)}`;
+  return `M ${pt(r1, a0)} A ${r1} ${r1} 0 0 1 ${pt(r1, a1)} L ${pt(r2, a1)} A ${r2} ${r2} 0 0 0 ${pt(r2, a0)} Z`;
+}
+
+const escapeXml = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** Standalone SVG of the circle, `size` units square, with the chosen rings outside in. */
+export function posterSvg(opts: PosterOptions, size = 1000) {
+  const c = size / 2;
+  const outer = c * 0.94, hole = c * 0.3;
+  const width = (outer - hole) / Math.max(1, opts.rings.length);
+  const shapes: string[] = [];
+
+  opts.rings.forEach((kind, depth) => {
+    const r1 = outer - depth * width, r2 = r1 - width;
+    const fontSize = Math.min(width * 0.42, size * 0.045) * (depth === 0 ? 1 : 0.85);
+    POSITIONS.forEach((p, i) => {
+      const a0 = -Math.PI / 2 + ((i - 0.5) * Math.PI * 2) / 12, a1 = a0 + (Math.PI * 2) / 12;
+      const { fill, stroke } = ringColors(opts.scheme, i, depth);
+      const mid = (a0 + a1) / 2, r = (r1 + r2) / 2;
+      shapes.push(`<path d="${sector(c, r1, r2, a0, a1)}" fill="${fill}" stroke="${stroke}" stroke-width="${(size / 800).toFixed(2)}"/>`);
+      shapes.push(
+        `<text x="${(c + r * Math.cos(mid)).toFixed(2)}" y="${(c + r * Math.sin(mid)).toFixed(2)}" font-size="${fontSize.toFixed(1)}"` +
+        ` font-weight="${depth === 0 ? 800 : 600}" text-anchor="middle" dominant-baseline="central" fill="#0f172a">${escapeXml(ringLabel(kind, p, opts.enhPref, opts.name))}</text>`
+      );
+    });
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="system-ui, sans-serif">`,
+    `<rect width="${size}" height="${size}" fill="#ffffff"/>`,
+    ...shapes,
+    `<circle cx="${c}" cy="${c}" r="${(hole * 0.92).toFixed(2)}" fill="#ffffff" stroke="#cbd5e1" stroke-width="${(size / 800).toFixed(2)}"/>`,
+    `<text x="${c}" y="${c}" font-size="${(size * 0.028).toFixed(1)}" font-weight="800" text-anchor="middle" dominant-baseline="central" fill="#0f172a">${escapeXml(opts.title)}</text>`,
+    `</svg>`,
+  ].join("\n");
+}
+
+// ---------- Handout ----------------------------------------------------------
+function keyTables(tonic: string, mode: Mode, name: (note: string) => string) {
+  const scale = buildScaleFromKeyName(tonic, mode);
+  const { fifths } = keySignatureFor(tonic, mode);
+  const sig = fifths === 0 ? "no sharps or flats" : `${Math.abs(fifths)} ${fifths > 0 ? "sharp" : "flat"}${Math.abs(fifths) > 1 ? "s" : ""}`;
+  const row = (cells: string[], tag = "td") => `<tr>${cells.map(x => `<${tag}>${escapeXml(x)}</${tag}>`).join("")}</tr>`;
+  const chordTable = (title: string, chords: { rn: string; tones: string[] }[]) =>
+    `<table><caption>${title}</caption>${row(chords.map(ch => pretty(ch.rn)), "th")}${row(chords.map(ch => ch.tones.map(name).join(" ")))}</table>`;
+  return [
+    `<section><h2>${escapeXml(name(normalizeToken(tonic)))} ${MODES[mode].label.toLowerCase()} <small>${sig}</small></h2>`,
+    `<table><caption>Scale</caption>${row(scale.map((_, i) => String(i + 1)), "th")}${row(scale.map(name))}</table>`,
+    chordTable("Triads", diatonicTriads(scale, mode)),
+    chordTable("Seventh chords", diatonicSevenths(scale, mode)),
+    `</section>`,
+  ].join("");
+}
+
+const HANDOUT_CSS = `
+@page { size: A4; margin: 14mm; }
+body { font-family: system-ui, sans-serif; color: #0f172a; margin: 0; }
+.page { page-break-after: always; break-after: page; }
+.page:last-child { page-break-after: auto; break-after: auto; }
+.cover { text-align: center; }
+.cover svg { width: 100%; max-width: 170mm; height: auto; }
+h1 { font-size: 20pt; margin: 0 0 6mm; }
+h2 { font-size: 14pt; margin: 6mm 0 2mm; }
+h2 small { font-weight: normal; font-size: 10pt; color: #475569; }
+table { border-collapse: collapse; width: 100%; margin: 0 0 3mm; font-size: 10pt; }
+caption { text-align: left; font-size: 8pt; text-transform: uppercase; letter-spacing: .05em; color: #475569; padding-bottom: 1mm; }
+th, td { border: 1px solid #cbd5e1; padding: 1.5mm; text-align: center; }
+th { background: #f1f5f9; }
+`;
+
+/** Printable HTML: the circle on the first page, then one page per spoke with its major key and
+ *  relative minor: scale, triads and seventh chords.
+ */
+export function handoutHtml(opts: PosterOptions) {
+  const pages = POSITIONS.map(p => `<div class="page">${keyTables(tonicAt(p, "major", opts.enhPref), "major", opts.name)}${keyTables(tonicAt(p, "aeolian", opts.enhPref), "aeolian", opts.name)}</div>`);
+  return [
+    `<!doctype html><html><head><meta charset="utf-8"><title>${escapeXml(opts.title)}</title><style>${HANDOUT_CSS}</style></head><body>`,
+    `<div class="page cover"><h1>${escapeXml(opts.title)}</h1>${posterSvg(opts)}</div>`,
+    ...pages,
+    `</body></html>`,
+  ].join("\n");
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_QUIZ_SETTINGS, EMPTY_QUIZ_RECORD, isCorrect, loadQuiz, makeQuestion, pickItem, quizItems, recordAnswer, saveQuiz,
+} from "./quiz";
+import type { QuizRecord, QuizSettings } from "./quiz";
+
+/** Repeatable stand-in for Math.random. */
+function seeded(seed = 1) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    return seed / 0x100000000;
+  };
+}
+
+function memoryStorage(initial?: string) {
+  const items = new Map<string, string>();
+  if (initial !== undefined) items.set("circle-of-fifths/quiz", initial);
+  return { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => { items.set(k, v); } };
+}
+
+const LOOSE: QuizSettings = { ...DEFAULT_QUIZ_SETTINGS, maxAccidentals: 7, strict: false };
+const STRICT: QuizSettings = { ...LOOSE, strict: true };
+
+describe("pickItem", () => {
+  const draws = (items: string[], record: QuizRecord, n = 3000) => {
+    const rand = seeded(7), counts: Record<string, number> = {};
+    for (let i = 0; i < n; i++) { const it = pickItem(items, record, rand); counts[it] = (counts[it] ?? 0) + 1; }
+    return counts;
+  };
+
+  it("favors missed items, then new ones, then well-known ones", () => {
+    const record: QuizRecord = { turn: 100, scores: {}, items: { missed: { box: 0, last: 10 }, known: { box: 4, last: 10 } } };
+    const counts = draws(["missed", "fresh", "known"], record);
+    // Weights 8 : 3 : 0.5
+    expect(counts.missed / 3000).toBeCloseTo(8 / 11.5, 1);
+    expect(counts.fresh / 3000).toBeCloseTo(3 / 11.5, 1);
+    expect(counts.known).toBeGreaterThan(0);
+    expect(counts.known).toBeLessThan(counts.fresh);
+  });
+
+  it("holds back an item until its box's gap has passed", () => {
+    const items = ["a", "b", "c", "d", "e"];
+    const record: QuizRecord = { turn: 10, scores: {}, items: { a: { box: 0, last: 9 }, b: { box: 2, last: 7 } } };
+    const counts = draws(items, record, 500);
+    expect(counts.a).toBeUndefined();   // box 0 waits 2 turns
+    expect(counts.b).toBeUndefined();   // box 2 waits 8, or a round of the items when there are fewer
+    expect(Object.keys(counts).sort()).toEqual(["c", "d", "e"]);
+  });
+
+  it("still asks something when every item is resting", () => {
+    const record: QuizRecord = { turn: 0, scores: {}, items: { a: { box: 0, last: 0 }, b: { box: 0, last: 0 } } };
+    expect(["a", "b"]).toContain(pickItem(["a", "b"], record, seeded()));
+  });
+
+  it("draws the same sequence from the same seed", () => {
+    const items = quizItems(LOOSE);
+    const run = () => { const rand = seeded(42); return Array.from({ length: 20 }, () => pickItem(items, EMPTY_QUIZ_RECORD, rand)); };
+    expect(run()).toEqual(run());
+    expect(new Set(run()).size).toBeGreaterThan(10);
+  });
+});
+
+describe("isCorrect", () => {
+  it("takes an enharmonic signature unless spelling is strict", () => {
+    const q = makeQuestion("signature|major|F#", LOOSE, seeded());
+    expect(q.answer).toBe("6");
+    expect(isCorrect(q, "6", STRICT)).toBe(true);
+    expect(isCorrect(q, "-6", LOOSE)).toBe(true);
+    expect(isCorrect(q, "-6", STRICT)).toBe(false);
+    expect(isCorrect(q, "5", LOOSE)).toBe(false);
+  });
+
+  it("takes an enharmonic relative key unless spelling is strict", () => {
+    const q = makeQuestion("relative|aeolian|D#", LOOSE, seeded());
+    expect(q.answer).toBe("F#");
+    expect(isCorrect(q, "Gb", LOOSE)).toBe(true);
+    expect(isCorrect(q, "Gb", STRICT)).toBe(false);
+    expect(isCorrect(q, "F", LOOSE)).toBe(false);
+  });
+
+  it("matches spots on the circle by spoke, strict or not", () => {
+    const q = makeQuestion("findKey|5", STRICT, seeded());
+    expect(isCorrect(q, "-7", STRICT)).toBe(true);
+    expect(isCorrect(q, "4", STRICT)).toBe(false);
+  });
+
+  it("needs the exact answer by ear", () => {
+    const q = makeQuestion("interval|m3", LOOSE, seeded());
+    expect(isCorrect(q, "m3", LOOSE)).toBe(true);
+    expect(isCorrect(q, "A2", LOOSE)).toBe(false);
+  });
+});
+
+describe("recordAnswer", () => {
+  const q = makeQuestion("interval|P5", LOOSE, seeded());
+
+  it("moves a right answer up a box and a miss back to the first", () => {
+    let r = recordAnswer(EMPTY_QUIZ_RECORD, q, true);
+    expect(r).toEqual({ turn: 1, scores: { interval: { right: 1, asked: 1 } }, items: { "interval|P5": { box: 1, last: 0 } } });
+    r = recordAnswer(r, q, true);
+    expect(r.items["interval|P5"]).toEqual({ box: 2, last: 1 });
+    r = recordAnswer(r, q, false);
+    expect(r.items["interval|P5"]).toEqual({ box: 0, last: 2 });
+    expect(r.scores.interval).toEqual({ right: 2, asked: 3 });
+  });
+
+  it("tops out at the last box", () => {
+    let r = EMPTY_QUIZ_RECORD;
+    for (let i = 0; i < 8; i++) r = recordAnswer(r, q, true);
+    expect(r.items["interval|P5"].box).toBe(4);
+  });
+
+  it("leaves the record it was given alone", () => {
+    recordAnswer(EMPTY_QUIZ_RECORD, q, true);
+    expect(EMPTY_QUIZ_RECORD).toEqual({ turn: 0, scores: {}, items: {} });
+  });
+});
+
+describe("loadQuiz", () => {
+  const stored = (data: object) => memoryStorage(JSON.stringify({ version: 1, ...data }));
+
+  it("round-trips settings and progress", () => {
+    const storage = memoryStorage();
+    const record = recordAnswer(EMPTY_QUIZ_RECORD, makeQuestion("interval|P5", LOOSE, seeded()), true);
+    const settings: QuizSettings = { topics: ["interval", "findKey"], maxAccidentals: 5, sevenths: true, strict: true };
+    saveQuiz({ settings, record }, storage);
+    expect(loadQuiz(storage)).toEqual({ settings, record });
+  });
+
+  it("falls back field by field on corrupted settings", () => {
+    const { settings } = loadQuiz(stored({ settings: { topics: ["interval", "karaoke"], maxAccidentals: "lots", sevenths: "yes", strict: 1 } }));
+    expect(settings).toEqual({ ...DEFAULT_QUIZ_SETTINGS, topics: ["interval"] });
+    for (const maxAccidentals of [null, -1, 12, "3"]) {
+      expect(loadQuiz(stored({ settings: { maxAccidentals } })).settings.maxAccidentals).toBe(DEFAULT_QUIZ_SETTINGS.maxAccidentals);
+    }
+    expect(loadQuiz(stored({ settings: { topics: "signature" } })).settings.topics).toEqual(DEFAULT_QUIZ_SETTINGS.topics);
+  });
+
+  it("gives a usable range whatever was stored", () => {
+    const { settings } = loadQuiz(stored({ settings: { maxAccidentals: 2.6 } }));
+    expect(settings.maxAccidentals).toBe(3);
+    expect(quizItems(settings).every(item => !item.includes("undefined"))).toBe(true);
+  });
+
+  it("drops scores and items that don't add up", () => {
+    const { record } = loadQuiz(stored({
+      record: {
+        turn: 10,
+        scores: { interval: { right: 3, asked: 5 }, quality: { right: 6, asked: 5 }, relative: "lots", karaoke: { right: 1, asked: 1 } },
+        items: { "interval|P5": { box: 2, last: 9 }, "interval|m3": { box: 9, last: 1 }, "interval|M3": { box: 1.5, last: 1 }, "quality|maj": null },
+      },
+    }));
+    expect(record).toEqual({ turn: 10, scores: { interval: { right: 3, asked: 5 } }, items: { "interval|P5": { box: 2, last: 9 } } });
+    expect(loadQuiz(stored({ record: { turn: "ten" } })).record).toEqual(EMPTY_QUIZ_RECORD);
+  });
+
+  it.each([
+    ["nothing saved", undefined],
+    ["not JSON", "{oops"],
+    ["another version", JSON.stringify({ version: 2, settings: { maxAccidentals: 7 } })],
+    ["not an object", "null"],
+  ])("starts fresh on %s", (_, raw) => {
+    expect(loadQuiz(memoryStorage(raw))).toEqual({ settings: DEFAULT_QUIZ_SETTINGS, record: EMPTY_QUIZ_RECORD });
+  });
+});
@@ -0,0 +1,322 @@
+/* ============================================================
+   Quiz — questions, answers, scores and spaced repetition
+   ============================================================ */
+import {
+  MODES, ascendingLine, buildScaleFromKeyName, diatonicSevenths, diatonicTriads, enharmonic, mod12,
+  noteAtFifths, pitchClass, pretty, spelledToMidi, transposeByInterval, voiceSequence,
+} from "../theory";
+import type { Mode, VoicedNote } from "../theory";
+import { bool, num, record as asRecord } from "../settings/settings";
+
+export type QuizTopic = "signature" | "relative" | "numeral" | "interval" | "quality" | "findKey";
+
+export const QUIZ_TOPICS: { topic: QuizTopic; label: string }[] = [
+  { topic: "signature", label: "Key signatures" },
+  { topic: "relative",  label: "Relative keys" },
+  { topic: "numeral",   label: "Roman numerals by ear" },
+  { topic: "interval",  label: "Intervals by ear" },
+  { topic: "quality",   label: "Chord qualities by ear" },
+  { topic: "findKey",   label: "Find it on the circle" },
+];
+
+/** Which keys come up (up to this many sharps or flats), triads or sevenths, and whether G♯ may stand for A♭. */
+export type QuizSettings = { topics: QuizTopic[]; maxAccidentals: number; sevenths: boolean; strict: boolean };
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  topics: QUIZ_TOPICS.map(t => t.topic), maxAccidentals: 3, sevenths: false, strict: false,
+};
+
+export const QUIZ_LEVELS: { label: string; settings: Omit<QuizSettings, "topics"> }[] = [
+  { label: "Beginner",     settings: { maxAccidentals: 2, sevenths: false, strict: false } },
+  { label: "Intermediate", settings: { maxAccidentals: 4, sevenths: false, strict: true } },
+  { label: "Advanced",     settings: { maxAccidentals: 7, sevenths: true,  strict: true } },
+];
+
+export type QuizChoice = { value: string; label: string };
+
+/** One question. `item` names what is being practised, for spaced repetition; `sound` is played in order,
+ *  one chord (or single note) after another. With `pickSpoke` the answer is a click on the circle.
+ */
+export type Question = {
+  topic: QuizTopic;
+  item: string;
+  prompt: string;
+  choices: QuizChoice[];
+  answer: string;
+  sound?: VoicedNote[][];
+  pickSpoke?: boolean;
+};
+
+// ---------- Material ---------------------------------------------------------
+const INTERVALS: { name: string; label: string }[] = [
+  { name: "m2", label: "Minor 2nd" }, { name: "M2", label: "Major 2nd" },
+  { name: "m3", label: "Minor 3rd" }, { name: "M3", label: "Major 3rd" },
+  { name: "P4", label: "Perfect 4th" }, { name: "A4", label: "Tritone" },
+  { name: "P5", label: "Perfect 5th" }, { name: "m6", label: "Minor 6th" },
+  { name: "M6", label: "Major 6th" }, { name: "m7", label: "Minor 7th" },
+  { name: "M7", label: "Major 7th" }, { name: "P8", label: "Octave" },
+];
+
+const QUALITIES: { name: string; label: string; intervals: string[]; seventh: boolean }[] = [
+  { name: "maj",   label: "Major",            intervals: ["P1","M3","P5"],      seventh: false },
+  { name: "min",   label: "Minor",            intervals: ["P1","m3","P5"],      seventh: false },
+  { name: "dim",   label: "Diminished",       intervals: ["P1","m3","d5"],      seventh: false },
+  { name: "aug",   label: "Augmented",        intervals: ["P1","M3","A5"],      seventh: false },
+  { name: "maj7",  label: "Major 7th",        intervals: ["P1","M3","P5","M7"], seventh: true },
+  { name: "7",     label: "Dominant 7th",     intervals: ["P1","M3","P5","m7"], seventh: true },
+  { name: "m7",    label: "Minor 7th",        intervals: ["P1","m3","P5","m7"], seventh: true },
+  { name: "m7b5",  label: "Half-diminished",  intervals: ["P1","m3","d5","m7"], seventh: true },
+  { name: "dim7",  label: "Diminished 7th",   intervals: ["P1","m3","d5","d7"], seventh: true },
+];
+
+const NUMERAL_MODES: Mode[] = ["major", "minor"];
+// Numeral questions voice-lead from the tonic so only the chord's own color gives it away
+const NUMERAL_VOICING = { style: "close", inversion: 0, low: 55, high: 84, lead: true } as const;
+
+/** Signatures in range, in fifths (−3 = three flats). */
+const fifthsInRange = (s: QuizSettings) => Array.from({ length: 2 * s.maxAccidentals + 1 }, (_, i) => i - s.maxAccidentals);
+
+const signatureLabel = (fifths: number) => fifths === 0 ? "None" : `${Math.abs(fifths)} ${fifths > 0 ? "♯" : "♭"}`;
+const keyLabel = (tonic: string, mode: Mode) => `${pretty(tonic)} ${MODES[mode].label.toLowerCase()}`;
+
+function shuffle<T>(xs: T[], rand: () => number) {
+  const out = [...xs];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+const pick = <T>(xs: readonly T[], rand: () => number) => xs[Math.floor(rand() * xs.length)];
+
+/** The answer plus up to `n - 1` distinct decoys, shuffled. */
+function withDecoys(answer: QuizChoice, decoys: QuizChoice[], n: number, rand: () => number) {
+  const seen = new Set([answer.value]);
+  const unique = decoys.filter(d => !seen.has(d.value) && seen.add(d.value));
+  return shuffle([answer, ...shuffle(unique, rand).slice(0, n - 1)], rand);
+}
+
+/** `upper` placed above `lower` so the two are exactly `semitones` apart. */
+function voicedAbove(lower: VoicedNote, upper: string, semitones: number): VoicedNote {
+  const target = spelledToMidi(lower.note, lower.oct) + semitones;
+  return { note: upper, oct: (target - pitchClass(upper)) / 12 - 1 };
+}
+
+// ---------- Items ------------------------------------------------------------
+/** Everything that can be asked under the settings, as item ids ("signature|major|Eb", "interval|m3"). */
+export function quizItems(s: QuizSettings): string[] {
+  const range = fifthsInRange(s);
+  return s.topics.flatMap((topic): string[] => {
+    switch (topic) {
+      case "signature":
+      case "relative":
+        return range.flatMap(k => [`${topic}|major|${noteAtFifths(k)}`, `${topic}|aeolian|${noteAtFifths(k + 3)}`]);
+      case "numeral":
+        return NUMERAL_MODES.flatMap(m => Array.from({ length: 7 }, (_, d) => `numeral|${m}|${d}`));
+      case "interval":
+        return INTERVALS.map(iv => `interval|${iv.name}`);
+      case "quality":
+        return QUALITIES.filter(q => s.sevenths || !q.seventh).map(q => `quality|${q.name}`);
+      case "findKey":
+        return range.filter(k => k !== 0).map(k => `findKey|${k}`);
+    }
+  });
+}
+
+/** Build the question for an item; keys and roots not fixed by the item are picked at random. */
+export function makeQuestion(item: string, s: QuizSettings, rand: () => number = Math.random): Question {
+  const [topic, a, b] = item.split("|") as [QuizTopic, string, string | undefined];
+  const range = fifthsInRange(s);
+
+  switch (topic) {
+    case "signature": {
+      const mode = a as Mode, tonic = b!;
+      const fifths = range.find(k => noteAtFifths(mode === "major" ? k : k + 3) === tonic) ?? 0;
+      const choice = (k: number) => ({ value: String(k), label: signatureLabel(k) });
+      const decoys = [fifths - 1, fifths + 1, -fifths, fifths - 2, fifths + 2]
+        .filter(k => Math.abs(k) <= 7 && (s.strict || mod12(k) !== mod12(fifths)))
+        .map(choice);
+      return {
+        topic, item, answer: String(fifths),
+        prompt: `How many sharps or flats in ${keyLabel(tonic, mode)}?`,
+        choices: withDecoys(choice(fifths), decoys, 4, rand),
+      };
+    }
+    case "relative": {
+      const mode = a as Mode, tonic = b!;
+      const toMinor = mode === "major";
+      const other: Mode = toMinor ? "aeolian" : "major";
+      const answer = transposeByInterval(tonic, "m3", toMinor ? -1 : 1);
+      const choice = (n: string) => ({ value: n, label: keyLabel(n, other) });
+      // The usual slips: a third the wrong way, a major third, the parallel key; strict mode adds a respelling
+      const slips = [transposeByInterval(tonic, "m3", toMinor ? 1 : -1), transposeByInterval(tonic, "M3", toMinor ? -1 : 1), tonic];
+      const respelled = [transposeByInterval(answer, "d2"), transposeByInterval(answer, "d2", -1)].filter(n => n.length <= 2);
+      const decoys = [...(s.strict ? respelled : []), ...slips].filter(n => s.strict || !enharmonic(n, answer));
+      return {
+        topic, item, answer,
+        prompt: `Relative ${toMinor ? "minor" : "major"} of ${keyLabel(tonic, mode)}?`,
+        choices: withDecoys(choice(answer), decoys.map(choice), 4, rand),
+      };
+    }
+    case "numeral": {
+      const mode = a as Mode, degree = Number(b);
+      const k = pick(range, rand);
+      const tonic = noteAtFifths(mode === "major" ? k : k + 3);
+      const scale = buildScaleFromKeyName(tonic, mode);
+      const chords = s.sevenths ? diatonicSevenths(scale, mode) : diatonicTriads(scale, mode);
+      return {
+        topic, item, answer: chords[degree].rn,
+        prompt: `In ${keyLabel(tonic, mode)}, after the tonic: which chord is this?`,
+        choices: chords.map(c => ({ value: c.rn, label: pretty(c.rn) })),
+        sound: voiceSequence([chords[0].tones, chords[degree].tones], NUMERAL_VOICING),
+      };
+    }
+    case "interval": {
+      const iv = INTERVALS.find(i => i.name === a)!;
+      const semis = INTERVALS.indexOf(iv) + 1;
+      const lower = { note: noteAtFifths(pick(range, rand)), oct: 4 };
+      const upper = voicedAbove(lower, transposeByInterval(lower.note, iv.name), semis);
+      const choice = (i: typeof iv) => ({ value: i.name, label: i.label });
+      const near = INTERVALS.filter(i => i !== iv && Math.abs(INTERVALS.indexOf(i) + 1 - semis) <= 3);
+      return {
+        topic, item, answer: iv.name,
+        prompt: "Which interval is this?",
+        choices: withDecoys(choice(iv), near.map(choice), 4, rand),
+        sound: [[lower], [upper], [lower, upper]],
+      };
+    }
+    case "quality": {
+      const q = QUALITIES.find(x => x.name === a)!;
+      const root = noteAtFifths(pick(range, rand));
+      const pool = QUALITIES.filter(x => x !== q && (s.sevenths || !x.seventh) && x.seventh === q.seventh);
+      const choice = (x: typeof q) => ({ value: x.name, label: x.label });
+      return {
+        topic, item, answer: q.name,
+        prompt: "Which kind of chord is this?",
+        choices: withDecoys(choice(q), pool.map(choice), 4, rand),
+        sound: [ascendingLine(q.intervals.map(iv => transposeByInterval(root, iv)), 4)],
+      };
+    }
+    case "findKey": {
+      const k = Number(a);
+      return {
+        topic, item, answer: String(k), choices: [], pickSpoke: true,
+        prompt: `Click the key with ${Math.abs(k)} ${k > 0 ? "sharp" : "flat"}${Math.abs(k) > 1 ? "s" : ""} on the circle.`,
+      };
+    }
+  }
+}
+
+/** Is `given` right? Spots on the circle match by spoke; without strict spelling, enharmonic notes
+ *  and signatures count too (F♯ for G♭, six sharps for six flats).
+ */
+export function isCorrect(q: Question, given: string, s: QuizSettings) {
+  if (given === q.answer) return true;
+  switch (q.topic) {
+    case "findKey": return mod12(Number(given)) === mod12(Number(q.answer));
+    case "signature": return !s.strict && mod12(Number(given)) === mod12(Number(q.answer));
+    case "relative": return !s.strict && enharmonic(given, q.answer);
+    default: return false;
+  }
+}
+
+// ---------- Scores and spaced repetition ---------------------------------------
+/** Leitner box per item: right answers move it up a box, a miss sends it back to 0. `last` is the turn it was asked. */
+export type ItemStats = { box: number; last: number };
+export type TopicScore = { right: number; asked: number };
+export type QuizRecord = { turn: number; scores: Partial<Record<QuizTopic, TopicScore>>; items: Record<string, ItemStats> };
+
+export const EMPTY_QUIZ_RECORD: QuizRecord = { turn: 0, scores: {}, items: {} };
+
+const MAX_BOX = 4;
+// How often an item comes up relative to the others: missed items most, new ones next, well-known rarely
+const BOX_WEIGHT = [8, 4, 2, 1, 0.5];
+const NEW_WEIGHT = 3;
+// Turns to wait before asking an item again, by box, so a missed item returns soon but not at once
+const BOX_GAP = [2, 4, 8, 16, 32];
+
+/** Weighted draw over `items`, favouring missed and new ones and holding back items asked too recently. */
+export function pickItem(items: string[], record: QuizRecord, rand: () => number = Math.random) {
+  const weight = (item: string) => {
+    const st = record.items[item];
+    if (!st) return NEW_WEIGHT;
+    const rested = record.turn - st.last >= Math.min(BOX_GAP[st.box], items.length - 1);
+    return rested ? BOX_WEIGHT[st.box] : 0;
+  };
+  const weights = items.map(weight);
+  const total = weights.reduce((a, w) => a + w, 0);
+  if (total === 0) return pick(items, rand);
+  let r = rand() * total;
+  return items.find((_, i) => (r -= weights[i]) < 0) ?? items[items.length - 1];
+}
+
+/** Next question under the settings, or undefined when no topic is chosen. */
+export function nextQuestion(s: QuizSettings, record: QuizRecord, rand: () => number = Math.random) {
+  const items = quizItems(s);
+  return items.length ? makeQuestion(pickItem(items, record, rand), s, rand) : undefined;
+}
+
+export function recordAnswer(record: QuizRecord, q: Question, correct: boolean): QuizRecord {
+  const score = record.scores[q.topic] ?? { right: 0, asked: 0 };
+  const box = correct ? Math.min(MAX_BOX, (record.items[q.item]?.box ?? 0) + 1) : 0;
+  return {
+    turn: record.turn + 1,
+    scores: { ...record.scores, [q.topic]: { right: score.right + (correct ? 1 : 0), asked: score.asked + 1 } },
+    items: { ...record.items, [q.item]: { box, last: record.turn } },
+  };
+}
+
+// ---------- Local storage -----------------------------------------------------
+const STORAGE_KEY = "circle-of-fifths/quiz";
+const STORAGE_VERSION = 1;
+
+type StoredQuiz = { settings: QuizSettings; record: QuizRecord };
+
+function readSettings(data: Record<string, unknown>): QuizSettings {
+  const d = DEFAULT_QUIZ_SETTINGS;
+  const topics = Array.isArray(data.topics) ? QUIZ_TOPICS.map(t => t.topic).filter(t => (data.topics as unknown[]).includes(t)) : d.topics;
+  return {
+    topics,
+    maxAccidentals: Math.round(num(data.maxAccidentals, d.maxAccidentals, 0, 7)),
+    sevenths: bool(data.sevenths, d.sevenths),
+    strict: bool(data.strict, d.strict),
+  };
+}
+
+// Counts that don't add up are dropped, one score or item at a time
+function readRecord(data: Record<string, unknown>): QuizRecord {
+  const turn = Math.floor(num(data.turn, 0, 0, Infinity));
+  const scores: QuizRecord["scores"] = {};
+  const storedScores = asRecord(data.scores);
+  for (const { topic } of QUIZ_TOPICS) {
+    const s = asRecord(storedScores[topic]);
+    const asked = num(s.asked, -1, 0, Infinity), right = num(s.right, -1, 0, asked);
+    if (right >= 0) scores[topic] = { right, asked };
+  }
+  const items: QuizRecord["items"] = {};
+  for (const [item, stored] of Object.entries(asRecord(data.items))) {
+    const st = asRecord(stored);
+    const box = num(st.box, -1, 0, MAX_BOX), last = num(st.last, -1, 0, turn);
+    if (Number.isInteger(box) && box >= 0 && last >= 0) items[item] = { box, last };
+  }
+  return { turn, scores, items };
+}
+
+/** Saved settings and progress; anything missing or unreadable starts fresh, field by field. */
+export function loadQuiz(storage: Pick<Storage, "getItem"> = window.localStorage): StoredQuiz {
+  try {
+    const data = asRecord(JSON.parse(storage.getItem(STORAGE_KEY) ?? "null"));
+    if (data.version !== STORAGE_VERSION) return { settings: DEFAULT_QUIZ_SETTINGS, record: EMPTY_QUIZ_RECORD };
+    return { settings: readSettings(asRecord(data.settings)), record: readRecord(asRecord(data.record)) };
+  } catch {
+    return { settings: DEFAULT_QUIZ_SETTINGS, record: EMPTY_QUIZ_RECORD };
+  }
+}
+
+export function saveQuiz(quiz: StoredQuiz, storage: Pick<Storage, "setItem"> = window.localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, ...quiz }));
+  } catch {
+    /* storage full or blocked: progress just isn't kept */
+  }
+}
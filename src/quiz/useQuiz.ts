@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import type { VoicedNote } from "../theory";
+import { EMPTY_QUIZ_RECORD, isCorrect, loadQuiz, nextQuestion, recordAnswer, saveQuiz } from "./quiz";
+import type { Question, QuizSettings } from "./quiz";
+
+export type QuizResult = { given: string; correct: boolean };
+
+/** Quiz session: the current question, its result once answered, settings and saved progress.
+ *  `play` sounds a question's notes; it is called on each new question and on replay.
+ */
+export function useQuiz(play: (sound: VoicedNote[][]) => void) {
+  const [stored] = useState(loadQuiz);
+  const [settings, setSettings] = useState<QuizSettings>(stored.settings);
+  const [record, setRecord] = useState(stored.record);
+  const [question, setQuestion] = useState<Question | null>(null);
+  const [result, setResult] = useState<QuizResult | null>(null);
+
+  useEffect(() => saveQuiz({ settings, record }), [settings, record]);
+
+  const next = () => {
+    const q = nextQuestion(settings, record) ?? null;
+    setQuestion(q);
+    setResult(null);
+    if (q?.sound) play(q.sound);
+  };
+  const answer = (given: string) => {
+    if (!question || result) return;
+    const correct = isCorrect(question, given, settings);
+    setResult({ given, correct });
+    setRecord(r => recordAnswer(r, question, correct));
+  };
+  const replay = () => { if (question?.sound) play(question.sound); };
+  const stop = () => { setQuestion(null); setResult(null); };
+  const resetScores = () => setRecord(EMPTY_QUIZ_RECORD);
+  const changeSettings = (s: QuizSettings) => { setSettings(s); stop(); };
+
+  return {
+    settings, record, question, result,
+    awaitingSpoke: !!question?.pickSpoke && !result,
+    next, answer, replay, stop, resetScores, setSettings: changeSettings,
+  };
+}
+
+export type Quiz = ReturnType<typeof useQuiz>;
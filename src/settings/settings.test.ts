@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_LINK, DEFAULT_PREFS, LINK_VERSION, STORAGE_VERSION, decodeLink, encodeLink, loadSettings, migrate, saveSettings, selectionFor,
+} from "./settings";
+import type { LinkState, Prefs } from "./settings";
+
+/** In-memory stand-in for localStorage. */
+function memoryStorage(initial?: unknown) {
+  const items = new Map<string, string>();
+  const storage = {
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => { items.set(k, v); },
+  };
+  if (initial !== undefined) storage.setItem("circle-of-fifths/settings", typeof initial === "string" ? initial : JSON.stringify(initial));
+  return storage;
+}
+
+const PREFS: Prefs = {
+  volume: 0.4,
+  muted: true,
+  tuning: { system: "meantone", a4: 415 },
+  voicing: { style: "drop2", inversion: 2, low: 40, high: 80, lead: true },
+  naming: "german",
+  synth: { preset: "sine", reverb: 0.5, delay: 0.25, polyphony: 8 },
+};
+
+describe("links", () => {
+  it("writes every field into the query string", () => {
+    expect(encodeLink({ key: "Eb", mode: "aeolian", enhPref: "flats", sevenths: true, showRel: true, view: "circle" }))
+      .toBe(`v=${LINK_VERSION}&key=Eb&mode=aeolian&enh=flats&chords=7&rel=1&view=circle`);
+  });
+
+  it.each<LinkState>([
+    DEFAULT_LINK,
+    { key: "F#", mode: "dorian", enhPref: "sharps", sevenths: false, showRel: false, view: "spiral" },
+    { key: "Ebb", mode: "melodic", enhPref: "flats", sevenths: true, showRel: false, view: "circle" },
+    { key: "G##", mode: "minor", enhPref: "auto", sevenths: false, showRel: true, view: "spiral" },
+  ])("round-trips $key $mode", link => {
+    expect(decodeLink(`?${encodeLink(link)}`)).toEqual(link);
+  });
+
+  it("needs a key", () => {
+    expect(decodeLink("")).toBeUndefined();
+    expect(decodeLink("?mode=dorian")).toBeUndefined();
+  });
+
+  it("falls back field by field on anything it can't read", () => {
+    expect(decodeLink("?key=H&mode=hypodorian&enh=both&chords=9&rel=yes&view=3d")).toEqual({
+      ...DEFAULT_LINK, sevenths: false, showRel: false,
+    });
+    expect(decodeLink("?key=f%23")).toEqual({ ...DEFAULT_LINK, key: "F#" });
+    expect(decodeLink("?key=Cbbb")).toEqual(DEFAULT_LINK);
+  });
+
+  it("reads a link without a version as version 1 and ignores unknown parameters", () => {
+    expect(decodeLink("?key=A&mode=aeolian&utm_source=mail")).toEqual({ ...DEFAULT_LINK, key: "A", mode: "aeolian" });
+  });
+
+  it("keeps spoke spellings on the circle and sends the rest to the spiral", () => {
+    expect(selectionFor({ ...DEFAULT_LINK, key: "Db" })).toEqual({ idx: 7, spiralAt: null });
+    expect(selectionFor({ ...DEFAULT_LINK, key: "G#" })).toEqual({ idx: 8, spiralAt: 8 });
+    expect(selectionFor({ ...DEFAULT_LINK, key: "C#", enhPref: "flats" })).toEqual({ idx: 7, spiralAt: 7 });
+  });
+});
+
+describe("migrate", () => {
+  const steps = {
+    1: (d: Record<string, unknown>) => ({ ...d, renamed: d.old, old: undefined }),
+    3: (d: Record<string, unknown>) => ({ ...d, added: true }),
+  };
+
+  it("runs every step from the stored version up, skipping versions without one", () => {
+    expect(migrate({ old: 5 }, 1, 4, steps)).toEqual({ renamed: 5, old: undefined, added: true });
+    expect(migrate({ old: 5 }, 2, 4, steps)).toEqual({ old: 5, added: true });
+  });
+
+  it("leaves current data alone", () => {
+    const data = { old: 5 };
+    expect(migrate(data, 4, 4, steps)).toBe(data);
+  });
+});
+
+describe("stored settings", () => {
+  it("round-trips the link and preferences", () => {
+    const storage = memoryStorage();
+    const link: LinkState = { key: "Bb", mode: "mixolydian", enhPref: "flats", sevenths: false, showRel: true, view: "spiral" };
+    saveSettings(link, PREFS, storage);
+    expect(JSON.parse(storage.getItem("circle-of-fifths/settings")!).version).toBe(STORAGE_VERSION);
+    expect(loadSettings(storage)).toEqual({ link, prefs: PREFS });
+  });
+
+  it("reads version 1 data as saved by the first release", () => {
+    const stored = { version: 1, prefs: { volume: 0.2, muted: false, naming: "fixedDo" } };
+    expect(loadSettings(memoryStorage(stored))).toEqual({ link: undefined, prefs: { ...DEFAULT_PREFS, volume: 0.2, naming: "fixedDo" } });
+  });
+
+  it("rejects bad and unknown fields one at a time", () => {
+    const prefs = loadSettings(memoryStorage({
+      version: STORAGE_VERSION,
+      prefs: {
+        ...PREFS,
+        volume: 3,
+        muted: "no",
+        tuning: { system: "kirnberger", a4: 432 },
+        voicing: { ...PREFS.voicing, inversion: 7, high: "84" },
+        naming: "klingon",
+        synth: { ...PREFS.synth, preset: "theremin", polyphony: Number.NaN },
+        theme: "dark",
+      },
+    })).prefs;
+    expect(prefs).toEqual({
+      ...PREFS,
+      volume: DEFAULT_PREFS.volume,
+      muted: DEFAULT_PREFS.muted,
+      tuning: { system: DEFAULT_PREFS.tuning.system, a4: 432 },
+      voicing: { ...PREFS.voicing, inversion: DEFAULT_PREFS.voicing.inversion, high: DEFAULT_PREFS.voicing.high },
+      naming: DEFAULT_PREFS.naming,
+      synth: { ...PREFS.synth, preset: DEFAULT_PREFS.synth.preset, polyphony: DEFAULT_PREFS.synth.polyphony },
+    });
+    expect(prefs).not.toHaveProperty("theme");
+  });
+
+  it.each([
+    ["nothing saved", undefined],
+    ["not JSON", "{oops"],
+    ["no version", { prefs: PREFS }],
+    ["a newer version", { version: STORAGE_VERSION + 1, prefs: PREFS }],
+    ["not an object", "42"],
+  ])("gives the defaults for %s", (_, stored) => {
+    expect(loadSettings(memoryStorage(stored))).toEqual({ prefs: DEFAULT_PREFS });
+  });
+
+  it("carries on when storage refuses to save", () => {
+    const full = { setItem: () => { throw new Error("QuotaExceededError"); } };
+    expect(() => saveSettings(DEFAULT_LINK, DEFAULT_PREFS, full)).not.toThrow();
+  });
+});
@@ -0,0 +1,158 @@
+/* ============================================================
+   Settings — shareable links and preferences saved on this device
+   ============================================================ */
+import {
+  DEFAULT_TEMPERAMENT, DEFAULT_VOICING, MODE_ORDER, NOTE_NAMINGS, POSITIONS, TUNING_SYSTEMS, VOICING_STYLES,
+  keySignatureFor, mod12, normalizeToken, tonicAt,
+} from "../theory";
+import type { EnhPref, Mode, NoteNaming, Temperament, VoicingOptions } from "../theory";
+import { SYNTH_PRESETS } from "../audio/presets";
+import { DEFAULT_SYNTH } from "../audio/synth";
+import type { SynthSettings } from "../audio/synth";
+
+export type CircleView = "circle" | "spiral";
+
+/** What a link carries: the key and how it is shown. `key` is the tonic as spelled ("F#", "Ebb"). */
+export type LinkState = { key: string; mode: Mode; enhPref: EnhPref; sevenths: boolean; showRel: boolean; view: CircleView };
+
+/** What stays on this device and never goes into a link. */
+export type Prefs = { volume: number; muted: boolean; tuning: Pick<Temperament, "system" | "a4">; voicing: VoicingOptions; naming: NoteNaming; synth: SynthSettings };
+
+export const DEFAULT_LINK: LinkState = { key: "C", mode: "major", enhPref: "auto", sevenths: true, showRel: true, view: "circle" };
+export const DEFAULT_PREFS: Prefs = {
+  volume: 0.7,
+  muted: false,
+  tuning: { system: DEFAULT_TEMPERAMENT.system, a4: DEFAULT_TEMPERAMENT.a4 },
+  voicing: DEFAULT_VOICING,
+  naming: "english",
+  synth: DEFAULT_SYNTH,
+};
+
+// Bump a version only when a field changes meaning or is renamed, and add the step that upgrades the old shape.
+// New fields need no bump: anything missing falls back to its default.
+export const LINK_VERSION = 1;
+export const STORAGE_VERSION = 1;
+const STORAGE_KEY = "circle-of-fifths/settings";
+
+export type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+/** Steps keyed by the version they upgrade from. */
+const LINK_MIGRATIONS: Record<number, Migration> = {};
+const STORAGE_MIGRATIONS: Record<number, Migration> = {};
+
+/** Upgrade data saved at version `from` to `to`, one step at a time; versions without a step pass through. */
+export function migrate(data: Record<string, unknown>, from: number, to: number, steps: Record<number, Migration>) {
+  for (let v = from; v < to; v++) data = steps[v]?.(data) ?? data;
+  return data;
+}
+
+// ---------- Field readers: anything unreadable falls back --------------------
+const ENH_PREFS: readonly EnhPref[] = ["auto", "sharps", "flats"];
+const VIEWS: readonly CircleView[] = ["circle", "spiral"];
+const NOTE_RE = /^[A-G](?:#{1,2}|b{1,2})?$/;
+
+export const oneOf = <T>(v: unknown, options: readonly T[], fallback: T) => options.includes(v as T) ? v as T : fallback;
+export const bool = (v: unknown, fallback: boolean) => typeof v === "boolean" ? v : fallback;
+export const num = (v: unknown, fallback: number, min: number, max: number) =>
+  typeof v === "number" && Number.isFinite(v) && v >= min && v <= max ? v : fallback;
+export const record = (v: unknown): Record<string, unknown> => typeof v === "object" && v !== null ? v as Record<string, unknown> : {};
+
+function readLink(data: Record<string, unknown>): LinkState {
+  const key = typeof data.key === "string" ? normalizeToken(data.key) : "";
+  return {
+    key: NOTE_RE.test(key) ? key : DEFAULT_LINK.key,
+    mode: oneOf(data.mode, MODE_ORDER, DEFAULT_LINK.mode),
+    enhPref: oneOf(data.enhPref, ENH_PREFS, DEFAULT_LINK.enhPref),
+    sevenths: bool(data.sevenths, DEFAULT_LINK.sevenths),
+    showRel: bool(data.showRel, DEFAULT_LINK.showRel),
+    view: oneOf(data.view, VIEWS, DEFAULT_LINK.view),
+  };
+}
+
+function readPrefs(data: Record<string, unknown>): Prefs {
+  const tuning = record(data.tuning), voicing = record(data.voicing), synth = record(data.synth);
+  const d = DEFAULT_PREFS;
+  return {
+    volume: num(data.volume, d.volume, 0, 1),
+    muted: bool(data.muted, d.muted),
+    tuning: {
+      system: oneOf(tuning.system, TUNING_SYSTEMS.map(t => t.system), d.tuning.system),
+      a4: num(tuning.a4, d.tuning.a4, 1, 2000),
+    },
+    voicing: {
+      style: oneOf(voicing.style, VOICING_STYLES.map(s => s.style), d.voicing.style),
+      inversion: num(voicing.inversion, d.voicing.inversion, 0, 3),
+      low: num(voicing.low, d.voicing.low, 0, 127),
+      high: num(voicing.high, d.voicing.high, 0, 127),
+      lead: bool(voicing.lead, d.voicing.lead),
+    },
+    naming: oneOf(data.naming, NOTE_NAMINGS.map(n => n.naming), d.naming),
+    synth: {
+      preset: oneOf(synth.preset, SYNTH_PRESETS.map(p => p.id), d.synth.preset),
+      reverb: num(synth.reverb, d.synth.reverb, 0, 1),
+      delay: num(synth.delay, d.synth.delay, 0, 1),
+      polyphony: num(synth.polyphony, d.synth.polyphony, 1, 64),
+    },
+  };
+}
+
+// ---------- Links -------------------------------------------------------------
+/** Query string for a link: `v=1&key=Eb&mode=aeolian&enh=flats&chords=7&rel=1&view=circle`. */
+export function encodeLink(link: LinkState) {
+  return new URLSearchParams({
+    v: String(LINK_VERSION),
+    key: link.key,
+    mode: link.mode,
+    enh: link.enhPref,
+    chords: link.sevenths ? "7" : "3",
+    rel: link.showRel ? "1" : "0",
+    view: link.view,
+  }).toString();
+}
+
+/** Read a link's query string; undefined when it names no key. Older versions are upgraded first. */
+export function decodeLink(search: string): LinkState | undefined {
+  const params = new URLSearchParams(search);
+  if (!params.has("key")) return undefined;
+  const raw: Record<string, unknown> = Object.fromEntries(params);
+  const data = migrate(raw, Number(params.get("v")) || 1, LINK_VERSION, LINK_MIGRATIONS);
+  return readLink({
+    key: data.key,
+    mode: data.mode,
+    enhPref: data.enh,
+    sevenths: data.chords === undefined ? undefined : data.chords === "7",
+    showRel: data.rel === undefined ? undefined : data.rel === "1",
+    view: data.view,
+  });
+}
+
+/** Spoke and spiral position for a link's key: spoke spellings stay on the circle, anything else
+ *  (G♯ major, or C♯ when the spoke would say D♭) is picked on the spiral so it keeps its spelling.
+ */
+export function selectionFor(link: LinkState) {
+  const fifths = keySignatureFor(link.key, link.mode).fifths;
+  const idx = mod12(fifths);
+  const onSpoke = normalizeToken(tonicAt(POSITIONS[idx], link.mode, link.enhPref)) === link.key;
+  return { idx, spiralAt: onSpoke ? null : fifths };
+}
+
+// ---------- Local storage -----------------------------------------------------
+/** Saved link and preferences; missing, unreadable or newer-than-known data gives the defaults. */
+export function loadSettings(storage: Pick<Storage, "getItem"> = window.localStorage): { link?: LinkState; prefs: Prefs } {
+  try {
+    const stored = record(JSON.parse(storage.getItem(STORAGE_KEY) ?? "null"));
+    const version = num(stored.version, 0, 1, Infinity);
+    if (!version || version > STORAGE_VERSION) return { prefs: DEFAULT_PREFS };
+    const data = migrate(stored, version, STORAGE_VERSION, STORAGE_MIGRATIONS);
+    return { link: data.link ? readLink(record(data.link)) : undefined, prefs: readPrefs(record(data.prefs)) };
+  } catch {
+    return { prefs: DEFAULT_PREFS };
+  }
+}
+
+export function saveSettings(link: LinkState, prefs: Prefs, storage: Pick<Storage, "setItem"> = window.localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, link, prefs }));
+  } catch {
+    /* storage full or blocked (private browsing): settings just aren't kept */
+  }
+}
@@ -0,0 +1,26 @@
+import { useEffect, useRef } from "react";
+import { DEFAULT_LINK, decodeLink, encodeLink } from "./settings";
+import type { LinkState } from "./settings";
+
+/** Keep the address bar in step with `link`. Moving to another key adds a history entry, so back and
+ *  forward walk between keys; other changes replace the current one. `apply` restores a link on back/forward.
+ */
+export function useLinkSync(link: LinkState, apply: (link: LinkState) => void) {
+  const applyRef = useRef(apply);
+  useEffect(() => { applyRef.current = apply; });
+
+  useEffect(() => {
+    const search = `?${encodeLink(link)}`;
+    if (window.location.search === search) return;
+    const shown = decodeLink(window.location.search);
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (shown && (shown.key !== link.key || shown.mode !== link.mode)) window.history.pushState(null, "", url);
+    else window.history.replaceState(null, "", url);
+  }, [link]);
+
+  useEffect(() => {
+    const onPop = () => applyRef.current(decodeLink(window.location.search) ?? DEFAULT_LINK);
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  }, []);
+}
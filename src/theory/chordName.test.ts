@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { buildScaleFromKeyName, nameChord } from ".";
+
+const C_MAJOR = buildScaleFromKeyName("C", "major");
+
+describe("nameChord", () => {
+  it("needs three pitch classes", () => {
+    expect(nameChord([], C_MAJOR)).toBeUndefined();
+    expect(nameChord([60, 72, 67], C_MAJOR)).toBeUndefined();
+  });
+
+  it.each([
+    [[60, 64, 67], "C", 0],
+    [[64, 67, 72], "C/E", 1],
+    [[55, 64, 72], "C/G", 2],
+    [[55, 59, 62, 65], "G7", 0],
+    [[59, 62, 65, 67], "G7/B", 1],
+    [[62, 65, 67, 71], "G7/D", 2],
+    [[53, 67, 71, 74], "G7/F", 3],
+  ])("names %j as %s", (notes, symbol, inversion) => {
+    const m = nameChord(notes, C_MAJOR)!;
+    expect(m.symbol).toBe(symbol);
+    expect(m.inversion).toBe(inversion);
+  });
+
+  it("keeps the root whatever the voicing above the bass", () => {
+    for (const notes of [[48, 64, 67], [48, 67, 76], [36, 55, 64, 79]]) {
+      expect(nameChord(notes, C_MAJOR)).toMatchObject({ root: "C", bass: "C", quality: "major", inversion: 0 });
+    }
+  });
+
+  it("writes a tension in the bass as a slash chord with no inversion", () => {
+    const m = nameChord([50, 60, 64, 67, 71], C_MAJOR)!;
+    expect(m).toMatchObject({ root: "C", bass: "D", quality: "major 7th", inversion: null, extensions: ["9"] });
+    expect(m.symbol).toBe("Cmaj7(9)/D");
+  });
+
+  it("names qualities and extensions", () => {
+    expect(nameChord([62, 65, 69, 72], C_MAJOR)).toMatchObject({ symbol: "Dm7", minor: true });
+    expect(nameChord([59, 62, 65, 69], C_MAJOR)).toMatchObject({ symbol: "Bm7b5", quality: "half-diminished 7th" });
+    expect(nameChord([60, 62, 64, 67], C_MAJOR)).toMatchObject({ symbol: "Cadd9", extensions: ["9"] });
+    expect(nameChord([55, 65, 69, 71], C_MAJOR)).toMatchObject({ symbol: "G7(9)", inversion: 0 });
+  });
+
+  it("spells for the key", () => {
+    expect(nameChord([56, 60, 63], buildScaleFromKeyName("Db", "major"))!.symbol).toBe("Ab");
+    expect(nameChord([56, 59, 63], buildScaleFromKeyName("E", "major"))!.symbol).toBe("G#m");
+    expect(nameChord([58, 62, 65], buildScaleFromKeyName("F", "major"))!.tones).toEqual(["Bb", "D", "F"]);
+    // Outside the scale, the spelling with fewer accidentals wins: E♭ in C, not D♯
+    expect(nameChord([63, 67, 70], C_MAJOR)!.tones).toEqual(["Eb", "G", "Bb"]);
+  });
+});
@@ -0,0 +1,151 @@
+/* ============================================================
+   Theory — naming a chord from the notes being held
+   ============================================================ */
+import { intervalSemitones, transposeByInterval } from "./intervals";
+import { mod12, parseNote, pitchClass } from "./notes";
+import type { PitchClass } from "./notes";
+import type { Chord } from "./chords";
+
+type Template = { quality: string; suffix: string; intervals: string[] };
+
+// Larger templates first so a held 7th chord is not named as its triad
+const TEMPLATES: Template[] = [
+  { quality: "dominant 7th",          suffix: "7",      intervals: ["P1","M3","P5","m7"] },
+  { quality: "major 7th",             suffix: "maj7",   intervals: ["P1","M3","P5","M7"] },
+  { quality: "minor 7th",             suffix: "m7",     intervals: ["P1","m3","P5","m7"] },
+  { quality: "minor-major 7th",       suffix: "m(maj7)",intervals: ["P1","m3","P5","M7"] },
+  { quality: "half-diminished 7th",   suffix: "m7b5",   intervals: ["P1","m3","d5","m7"] },
+  { quality: "diminished 7th",        suffix: "dim7",   intervals: ["P1","m3","d5","d7"] },
+  { quality: "augmented major 7th",   suffix: "maj7#5", intervals: ["P1","M3","A5","M7"] },
+  { quality: "augmented 7th",         suffix: "7#5",    intervals: ["P1","M3","A5","m7"] },
+  { quality: "dominant 7th sus4",     suffix: "7sus4",  intervals: ["P1","P4","P5","m7"] },
+  { quality: "major 6th",             suffix: "6",      intervals: ["P1","M3","P5","M6"] },
+  { quality: "minor 6th",             suffix: "m6",     intervals: ["P1","m3","P5","M6"] },
+  { quality: "major",                 suffix: "",       intervals: ["P1","M3","P5"] },
+  { quality: "minor",                 suffix: "m",      intervals: ["P1","m3","P5"] },
+  { quality: "diminished",            suffix: "dim",    intervals: ["P1","m3","d5"] },
+  { quality: "augmented",             suffix: "aug",    intervals: ["P1","M3","A5"] },
+  { quality: "suspended 4th",         suffix: "sus4",   intervals: ["P1","P4","P5"] },
+  { quality: "suspended 2nd",         suffix: "sus2",   intervals: ["P1","M2","P5"] },
+];
+
+// Tensions above a chord, by semitone distance from the root
+const EXTENSIONS: { semis: number; interval: string; label: string }[] = [
+  { semis: 1, interval: "m9",  label: "b9" },
+  { semis: 2, interval: "M9",  label: "9" },
+  { semis: 3, interval: "A9",  label: "#9" },
+  { semis: 5, interval: "P11", label: "11" },
+  { semis: 6, interval: "A11", label: "#11" },
+  { semis: 8, interval: "m13", label: "b13" },
+  { semis: 9, interval: "M13", label: "13" },
+];
+
+const SHARP_NAMES = ["C","C#","D","D#","E","F","F#","G","G#","A","A#","B"];
+const FLAT_NAMES  = ["C","Db","D","Eb","E","F","Gb","G","Ab","A","Bb","B"];
+
+export type ChordMatch = {
+  root: string;
+  bass: string;
+  quality: string;        // "minor 7th", "suspended 4th"…
+  minor: boolean;         // minor third above the root
+  symbol: string;         // "F#m7b5/C", "Cmaj7(9)"
+  inversion: number | null; // 0 root position, 1 first… ; null when the bass is a tension
+  extensions: string[];   // "9", "#11"…
+  tones: string[];        // chord tones then tensions, spelled
+};
+
+const semis = (iv: string) => mod12(intervalSemitones(iv));
+
+type Candidate = { rootPc: PitchClass; t: Template; ext: typeof EXTENSIONS; score: number };
+
+/** Best template rooted on `rootPc` that explains every held pitch class, if any. */
+function matchRoot(pcs: Set<PitchClass>, rootPc: PitchClass, bassPc: PitchClass): Candidate | undefined {
+  const rel = new Set([...pcs].map(p => mod12(p - rootPc)));
+  let best: Candidate | undefined;
+  for (const t of TEMPLATES) {
+    const core = t.intervals.map(semis);
+    const hasSeventh = t.intervals.length === 4 && !t.intervals.includes("M6");
+    // A 7th chord may drop its perfect fifth
+    const missing = core.filter(s => !rel.has(s));
+    const omitFifth = missing.length === 1 && hasSeventh && t.intervals[2] === "P5" && missing[0] === 7;
+    if (missing.length > 0 && !omitFifth) continue;
+    const rest = [...rel].filter(s => !core.includes(s));
+    const ext = rest.map(s => EXTENSIONS.find(e => e.semis === s));
+    if (ext.some(e => !e)) continue;
+    const exts = (ext as typeof EXTENSIONS).filter(e =>
+      !(e.label === "#9" && !t.intervals.includes("M3")) &&
+      !(e.label === "13" && !hasSeventh) &&
+      !(e.label === "b13" && !core.includes(7)));
+    if (exts.length !== rest.length) continue;
+    const score = t.intervals.length*10 - exts.length*4 - (omitFifth ? 12 : 0) + (rootPc === bassPc ? 3 : 0);
+    if (!best || score > best.score) best = { rootPc, t, ext: exts.sort((a,b)=>a.semis-b.semis), score };
+  }
+  return best;
+}
+
+/** Chord tones then tensions, spelled up from `rootName` with letter-correct intervals. */
+function spell(rootName: string, c: Candidate) {
+  return [...c.t.intervals, ...c.ext.map(e => e.interval)].map(iv => transposeByInterval(rootName, iv));
+}
+
+/** Root spelling for the key: the scale's own note if it has that pitch class,
+ *  otherwise whichever of ♯/♭ gives the chord fewer accidentals outside the scale.
+ */
+function rootName(c: Candidate, scale: string[]) {
+  const inScale = scale.find(n => pitchClass(n) === c.rootPc);
+  if (inScale) return inScale;
+  const cost = (name: string) => spell(name, c).reduce((sum, n) =>
+    sum + (scale.includes(n) ? 0 : Math.abs(parseNote(n).acc) + 1), 0);
+  const sharp = SHARP_NAMES[c.rootPc], flat = FLAT_NAMES[c.rootPc];
+  return cost(flat) < cost(sharp) ? flat : sharp;
+}
+
+/** Name the chord formed by MIDI note numbers, spelled for the key whose scale is given.
+ *  Returns undefined for fewer than three pitch classes or clusters no template explains.
+ */
+export function nameChord(midiNotes: number[], scale: string[]): ChordMatch | undefined {
+  if (midiNotes.length === 0) return undefined;
+  const pcs = new Set(midiNotes.map(mod12));
+  if (pcs.size < 3) return undefined;
+  const bassPc = mod12(Math.min(...midiNotes));
+  let best: Candidate | undefined;
+  for (const r of pcs) {
+    const c = matchRoot(pcs, r, bassPc);
+    if (c && (!best || c.score > best.score)) best = c;
+  }
+  if (!best) return undefined;
+
+  const root = rootName(best, scale);
+  const tones = spell(root, best);
+  const bass = tones.find(n => pitchClass(n) === bassPc) ?? root;
+  const coreIdx = best.t.intervals.findIndex(iv => semis(iv) === mod12(bassPc - best.rootPc));
+  const extensions = best.ext.map(e => e.label);
+  const hasSeventh = best.t.intervals.length === 4;
+  const extText = extensions.length === 0 ? "" : hasSeventh ? `(${extensions.join(",")})` : `add${extensions.join(",")}`;
+  return {
+    root, bass, quality: best.t.quality, minor: best.t.intervals.includes("m3"),
+    symbol: root + best.t.suffix + extText + (bass !== root ? `/${bass}` : ""),
+    inversion: coreIdx >= 0 ? coreIdx : null,
+    extensions, tones,
+  };
+}
+
+export const INVERSION_NAMES = ["root position", "1st inversion", "2nd inversion", "3rd inversion"];
+
+/** Name for a lone pitch class in a key: the scale's spelling, else ♭ in flat keys and ♯ otherwise. */
+export function spellInKey(pc: PitchClass, scale: string[]) {
+  const inScale = scale.find(n => pitchClass(n) === mod12(pc));
+  if (inScale) return inScale;
+  return (scale.some(n => n.includes("b")) ? FLAT_NAMES : SHARP_NAMES)[mod12(pc)];
+}
+
+/** Palette chord the held chord spells, looking through each palette in turn (e.g. sevenths, then triads). */
+export function findInPalettes(match: ChordMatch, palettes: Chord[][]) {
+  const held = new Set(match.tones.map(pitchClass));
+  const rootPc = pitchClass(match.root);
+  for (const palette of palettes) {
+    const degree = palette.findIndex(c => pitchClass(c.tones[0]) === rootPc && c.tones.every(t => held.has(pitchClass(t))));
+    if (degree >= 0) return { chord: palette[degree], degree };
+  }
+  return undefined;
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildScaleFromKeyName, chordSymbolTones, formatChordSymbol, keyInterval, nashvilleNumber, parseChordSymbol, transposeChordSymbol,
+} from ".";
+
+const tones = (text: string) => chordSymbolTones(parseChordSymbol(text));
+
+describe("parseChordSymbol", () => {
+  it.each([
+    ["C", ["C", "E", "G"]],
+    ["F#m7b5/C#", ["F#", "A", "C", "E"]],
+    ["Bbmaj9", ["Bb", "D", "F", "A", "C"]],
+    ["Dsus4", ["D", "G", "A"]],
+    ["Ebm", ["Eb", "Gb", "Bb"]],
+    ["Abdim7", ["Ab", "Cb", "Ebb", "Gbb"]],
+    ["Gaug", ["G", "B", "D#"]],
+    ["G7#9", ["G", "B", "D", "F", "A#"]],
+    ["E7b9", ["E", "G#", "B", "D", "F"]],
+    ["C6/9", ["C", "E", "G", "A", "D"]],
+    ["C5", ["C", "G"]],
+    ["Cadd9", ["C", "E", "G", "D"]],
+    ["Dm11", ["D", "F", "A", "C", "E", "G"]],
+    ["CmM7", ["C", "Eb", "G", "B"]],
+    ["CmMaj7", ["C", "Eb", "G", "B"]],
+    ["Cm(maj7)", ["C", "Eb", "G", "B"]],
+    ["C-7", ["C", "Eb", "G", "Bb"]],
+    ["CΔ7", ["C", "E", "G", "B"]],
+    ["Cø7", ["C", "Eb", "Gb", "Bb"]],
+    ["C2", ["C", "D", "E", "G"]],
+    ["Dm2", ["D", "E", "F", "A"]],
+    ["C♯m7", ["C#", "E", "G#", "B"]],
+  ])("%s", (text, expected) => {
+    expect(tones(text)).toEqual(expected);
+  });
+
+  it("reads the slash bass apart from the tones", () => {
+    expect(parseChordSymbol("Am7/G")).toMatchObject({ root: "A", suffix: "m7", bass: "G" });
+    expect(tones("Am7/G")).toEqual(["A", "C", "E", "G"]);
+  });
+
+  it.each(["H7", "Cxyz", "C/", "", "Cadd3", "7"])("rejects %j", text => {
+    expect(() => parseChordSymbol(text)).toThrow();
+  });
+});
+
+describe("round trip", () => {
+  const SYMBOLS = [
+    "C", "Cm", "C7", "Cmaj7", "CM7", "Cm7b5", "Cdim7", "C+", "Csus2", "C7sus4", "C9", "C13", "C7#11", "C7(b9)",
+    "CmM7", "C2", "C6/9", "Cadd9", "C/E", "F#m7b5/C#", "Bbmaj9", "Dsus4", "Ebm6", "Abaug", "G##", "Fbmaj7/Ab",
+  ];
+
+  it.each(SYMBOLS)("%s formats back as written", text => {
+    expect(formatChordSymbol(parseChordSymbol(text))).toBe(text);
+  });
+
+  // Roots and basses on the C major scale come back spelled as they were
+  it.each(SYMBOLS.filter(t => !/^[A-G](#|b)|\/[A-G](#|b)/.test(t)))("%s survives a move to E major and back", text => {
+    const up = transposeChordSymbol(parseChordSymbol(text), keyInterval("C", "E"), buildScaleFromKeyName("E", "major"));
+    const back = transposeChordSymbol(parseChordSymbol(formatChordSymbol(up)), keyInterval("E", "C"), buildScaleFromKeyName("C", "major"));
+    expect(formatChordSymbol(back)).toBe(text);
+  });
+});
+
+describe("transposeChordSymbol", () => {
+  it.each([
+    ["Bb", "C", "F", "Eb"],
+    ["C#", "C", "F", "Gb"],
+    ["Dm7", "C", "Eb", "Fm7"],
+    ["F#m7b5/C#", "E", "A", "Bm7b5/F#"],
+    ["G7", "C", "F#", "C#7"],
+    ["Eb", "C", "D", "F"],
+  ])("%s from %s to %s → %s", (text, from, to, expected) => {
+    const moved = transposeChordSymbol(parseChordSymbol(text), keyInterval(from, to), buildScaleFromKeyName(to, "major"));
+    expect(formatChordSymbol(moved)).toBe(expected);
+  });
+});
+
+describe("nashvilleNumber", () => {
+  it.each([
+    ["C", "C", "1"],
+    ["Am7/G", "C", "6m7/5"],
+    ["F#m7b5", "G", "7m7b5"],
+    ["Bb", "C", "b7"],
+    ["G7", "C", "5(7)"],
+    ["C#7", "A", "3(7)"],
+    ["C7", "A", "b3(7)"],
+    ["Db2", "C", "b2(2)"],
+    ["G7(b9)", "C", "5(7b9)"],
+    ["C(add9)", "C", "1(add9)"],
+    ["Dsus4", "C", "2sus4"],
+    ["Fmaj7/A", "C", "4maj7/6"],
+  ])("%s in %s → %s", (text, tonic, expected) => {
+    expect(nashvilleNumber(parseChordSymbol(text), tonic)).toBe(expected);
+  });
+
+  it("never runs the degree into the suffix", () => {
+    for (const text of ["C7", "C9", "C13", "C6", "C69", "C5", "C2", "C(b5)", "C(#9)"]) {
+      expect(nashvilleNumber(parseChordSymbol(text), "C")).toMatch(/^1(?:\(|$)/);
+    }
+  });
+});
@@ -0,0 +1,112 @@
+/* ============================================================
+   Theory — chord symbols ("F#m7b5/C#", "Bbmaj9", "Dsus4", "CmM7", "G2")
+   ============================================================ */
+import { intervalSemitones, parseInterval, transposeByInterval } from "./intervals";
+import { asciiNote } from "./notes";
+
+/** A parsed chord symbol. `suffix` keeps the text as written so symbols round-trip. */
+export type ChordSymbol = { root: string; suffix: string; bass?: string; intervals: string[] };
+
+const ROOT_RE = /^[A-G](?:##|bb|#|b)?/;
+
+// Spellings that mean the same thing, folded before the suffix is read
+const SUFFIX_ALIASES: [RegExp, string][] = [
+  [/[()]/g, ""],
+  [/Δ/g, "maj"],
+  [/ø7?/g, "m7b5"],
+  [/°/g, "dim"],
+  [/^min/, "m"],
+  [/^mi(?!n)/, "m"],
+  [/^-/, "m"],
+  [/^\+/, "aug"],
+  [/^M(?=7|9|11|13|$)/, "maj"],
+  [/^ma(?!j)/, "maj"],
+  [/6\/9/g, "69"],
+];
+
+const ADD: Record<string, string> = { "2":"M2", "4":"P4", "6":"M6", "9":"M9", b9:"m9", "#9":"A9", "11":"P11", "#11":"A11", "13":"M13", b13:"m13" };
+// Altered tension → [natural tension it replaces, altered interval]
+const ALT: Record<string, [string, string]> = { b9:["M9","m9"], "#9":["M9","A9"], "#11":["P11","A11"], b13:["M13","m13"] };
+
+/** Interval list (root first) for a chord-symbol suffix; undefined if any of it is unreadable. */
+export function suffixIntervals(suffixRaw: string): string[] | undefined {
+  let s = asciiNote(suffixRaw).replace(/\s+/g, "");
+  for (const [re, to] of SUFFIX_ALIASES) s = s.replace(re, to);
+  const take = (re: RegExp) => {
+    const m = re.exec(s);
+    if (m) s = s.slice(m[0].length);
+    return m;
+  };
+
+  let third: string | null = "M3", fifth: string | null = "P5";
+  let minor = false, dim = false, majorSeventh = false;
+  if (take(/^m(?!aj)/))  { third = "m3"; minor = true; }
+  else if (take(/^dim/)) { third = "m3"; fifth = "d5"; dim = true; }
+  else if (take(/^aug/)) { fifth = "A5"; }
+  // Major seventh also after the minor third: "mM7", "mMaj7"
+  if (take(/^(maj|Maj|M(?=7|9|11|13))/)) majorSeventh = true;
+  const num = take(/^(69|13|11|9|7|6|5|2)/)?.[1];
+
+  const upper = new Set<string>();
+  const seventh = majorSeventh ? "M7" : dim ? "d7" : "m7";
+  switch (num) {
+    case "5":  third = null; break;                                  // power chord
+    case "2":  upper.add("M2"); break;                               // "C2": added 2nd, third kept
+    case "6":  upper.add("M6"); break;
+    case "69": upper.add("M6").add("M9"); break;
+    case "7":  upper.add(seventh); break;
+    case "9":  upper.add(seventh).add("M9"); break;
+    case "11": upper.add(seventh).add("M9").add("P11"); break;
+    case "13": upper.add(seventh).add("M9").add("M13"); if (minor) upper.add("P11"); break;
+  }
+
+  // Alterations, additions, suspensions and omissions in any order
+  while (s.length) {
+    const m = take(/^(sus2|sus4|sus|add(?:b|#)?(?:2|4|6|9|11|13)|omit[35]|no[35]|[b#](?:5|9|11|13)|,)/);
+    if (!m) return undefined;
+    const t = m[1];
+    if (t === "sus2") third = "M2";
+    else if (t === "sus4" || t === "sus") third = "P4";
+    else if (t === "omit3" || t === "no3") third = null;
+    else if (t === "omit5" || t === "no5") fifth = null;
+    else if (t === "b5") fifth = "d5";
+    else if (t === "#5") fifth = "A5";
+    else if (t.startsWith("add")) {
+      const n = t.slice(3);
+      if (!ADD[n]) return undefined;
+      upper.add(ADD[n]);
+    } else if (t !== ",") {
+      const [natural, altered] = ALT[t];
+      upper.delete(natural);
+      upper.add(altered);
+      // A bare altered tension (E#9) implies the dominant 7th
+      if (!majorSeventh && !dim && ![...upper].some(iv => iv.endsWith("7"))) upper.add("m7");
+    }
+  }
+
+  const all = ["P1", ...(third ? [third] : []), ...(fifth ? [fifth] : []), ...upper];
+  return all.sort((a,b)=> parseInterval(a).num - parseInterval(b).num || intervalSemitones(a) - intervalSemitones(b));
+}
+
+/** Parse a chord symbol; throws on anything it cannot read. */
+export function parseChordSymbol(text: string): ChordSymbol {
+  const t = asciiNote(text.trim());
+  const rootMatch = ROOT_RE.exec(t);
+  if (!rootMatch) throw new Error(`Not a chord symbol: ${text}`);
+  const root = rootMatch[0];
+  let rest = t.slice(root.length);
+  let bass: string | undefined;
+  const slash = /\/([A-G](?:##|bb|#|b)?)$/.exec(rest);
+  if (slash) { bass = slash[1]; rest = rest.slice(0, slash.index); }
+  const intervals = suffixIntervals(rest);
+  if (!intervals) throw new Error(`Not a chord symbol: ${text}`);
+  return { root, suffix: rest, bass, intervals };
+}
+
+/** Spelled chord tones (root first), without the slash bass. */
+export const chordSymbolTones = (cs: ChordSymbol) => cs.intervals.map(iv => transposeByInterval(cs.root, iv));
+
+export const formatChordSymbol = (cs: ChordSymbol) => cs.root + cs.suffix + (cs.bass ? `/${cs.bass}` : "");
+
+/** True when `text` reads as a bare note name rather than a chord. */
+export const isNoteName = (text: string) => /^[A-Ga-g](?:##|bb|#|b|♯|♭|𝄪|𝄫)?$/.test(text.trim());
@@ -0,0 +1,72 @@
+/* ============================================================
+   Theory — diatonic chords
+   ============================================================ */
+import { intervalBetween, intervalName, transposeByInterval } from "./intervals";
+import { MAJOR_DEGREE_INTERVALS, MODES } from "./modes";
+import type { Mode } from "./modes";
+
+/** A palette chord: Roman numeral label + spelled tones, root first. */
+export type Chord = { rn: string; tones: string[] };
+
+export type TriadQuality = "maj" | "min" | "dim" | "aug";
+
+const NUMERALS = ["I","II","III","IV","V","VI","VII"];
+
+/** Quality of a root-position triad from its spelled third and fifth; undefined if not tertian. */
+export function triadQuality(tones: string[]): TriadQuality | undefined {
+  const third = intervalName(intervalBetween(tones[0], tones[1]));
+  const fifth = intervalName(intervalBetween(tones[0], tones[2]));
+  if (third === "M3" && fifth === "P5") return "maj";
+  if (third === "m3" && fifth === "P5") return "min";
+  if (third === "m3" && fifth === "d5") return "dim";
+  if (third === "M3" && fifth === "A5") return "aug";
+  return undefined;
+}
+
+/** Roman-numeral suffix for a triad (+ optional seventh), matching the palette's labels. */
+function qualitySuffix(q: TriadQuality | undefined, seventh?: string) {
+  if (!seventh) return q === "dim" ? "°" : q === "aug" ? "+" : "";
+  const major7 = seventh === "M7";
+  switch (q) {
+    case "maj": return major7 ? "maj7" : "7";
+    case "min": return major7 ? " mMaj7" : "7";
+    case "dim": return seventh === "d7" ? "°7" : "ø7";
+    case "aug": return major7 ? "+maj7" : "+7";
+    default:    return "7";
+  }
+}
+
+/** Scale a key's numerals are measured against for ♭/♯ prefixes: none for minor-family keys
+ *  (whose III, VI, VII carry no prefix), the major scale on the same tonic otherwise.
+ */
+export function numeralReference(tonic: string, mode: Mode) {
+  if (MODES[mode].minorFamily) return undefined;
+  return MAJOR_DEGREE_INTERVALS.map(iv => transposeByInterval(tonic, iv));
+}
+
+/** Roman numeral for a chord (tones root first) on scale degree `degree`, e.g. "bVImaj7", "vii°".
+ *  The root is compared with `reference[degree]` to add ♭/♯ prefixes.
+ */
+export function romanNumeral(tones: string[], degree: number, reference?: string[]) {
+  const q = triadQuality(tones);
+  const base = q === "min" || q === "dim" ? NUMERALS[degree].toLowerCase() : NUMERALS[degree];
+  const seventh = tones[3] ? intervalName(intervalBetween(tones[0], tones[3])) : undefined;
+  const alt = reference ? intervalBetween(reference[degree], tones[0]).quality : "P";
+  const prefix = alt === "A" ? "#" : alt === "d" ? "b" : alt === "AA" ? "##" : alt === "dd" ? "bb" : "";
+  return prefix + base + qualitySuffix(q, seventh);
+}
+
+export function diatonicTriads(scale: string[], mode: Mode): Chord[] {
+  const ref = numeralReference(scale[0], mode);
+  return scale.map((r,i)=>{
+    const tones = [r, scale[(i+2)%7], scale[(i+4)%7]];
+    return { rn: romanNumeral(tones, i, ref), tones };
+  });
+}
+export function diatonicSevenths(scale: string[], mode: Mode): Chord[] {
+  const ref = numeralReference(scale[0], mode);
+  return scale.map((r,i)=>{
+    const tones = [r, scale[(i+2)%7], scale[(i+4)%7], scale[(i+6)%7]];
+    return { rn: romanNumeral(tones, i, ref), tones };
+  });
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { buildScaleFromKeyName, extendedPalette, parallelScale } from ".";
+import type { ExtendedKind, Mode } from ".";
+
+const palette = (tonic: string, mode: Mode, sevenths = false) => extendedPalette(buildScaleFromKeyName(tonic, mode), mode, sevenths);
+
+/** Numeral → spelled tones for one kind of chord. */
+const chordsOf = (tonic: string, mode: Mode, kind: ExtendedKind, sevenths = false) =>
+  Object.fromEntries(palette(tonic, mode, sevenths).filter(c => c.kind === kind).map(c => [c.rn, c.tones.join(" ")]));
+
+describe("secondary dominants", () => {
+  it("spells V/x on the target's fifth with its own leading tone, double sharps included", () => {
+    expect(chordsOf("F#", "major", "secondary")).toEqual({
+      "V/ii": "D# F## A#", "V/iii": "E# G## B#", "V/IV": "F# A# C#", "V/V": "G# B# D#", "V/vi": "A# C## E#",
+    });
+  });
+
+  it("spells V7/x in a flat key with flats", () => {
+    expect(chordsOf("Eb", "aeolian", "secondary", true)).toEqual({
+      "V7/III": "Db F Ab Cb", "V7/iv": "Eb G Bb Db", "V7/v": "F A C Eb", "V7/VI": "Gb Bb Db Fb", "V7/VII": "Ab C Eb Gb",
+    });
+  });
+
+  it("targets only degrees with a major or minor triad", () => {
+    expect(Object.keys(chordsOf("C", "major", "secondary"))).toEqual(["V/ii", "V/iii", "V/IV", "V/V", "V/vi"]);
+    expect(Object.keys(chordsOf("C", "minor", "secondary", true))).toEqual(["V7/iv", "V7/V", "V7/VI"]);
+  });
+
+  it("records what each chord resolves to", () => {
+    expect(palette("F#", "major").find(c => c.rn === "V/ii")).toMatchObject({ target: "G#", targetRn: "ii" });
+  });
+});
+
+describe("leading-tone chords", () => {
+  it("builds vii° on the raised note below the target", () => {
+    expect(chordsOf("F#", "major", "leadingTone")).toMatchObject({ "vii°/ii": "F## A# C#", "vii°/V": "B# D# F#" });
+  });
+
+  it("uses a fully diminished seventh into minor targets and half-diminished into major ones", () => {
+    expect(chordsOf("F#", "major", "leadingTone", true)).toMatchObject({ "vii°7/ii": "F## A# C# E", "viiø7/V": "B# D# F# A#" });
+    expect(chordsOf("Eb", "aeolian", "leadingTone", true)).toMatchObject({ "vii°7/iv": "G Bb Db Fb", "viiø7/VI": "Bb Db Fb Ab" });
+  });
+});
+
+describe("borrowed chords", () => {
+  it("borrows from the parallel minor in a sharp key", () => {
+    expect(chordsOf("F#", "major", "borrowed")).toEqual({
+      i: "F# A C#", "ii°": "G# B D", bIII: "A C# E", iv: "B D F#", v: "C# E G#", bVI: "D F# A", bVII: "E G# B",
+    });
+  });
+
+  it("spells ♭VI and ♭III with double flats in a flat key", () => {
+    expect(chordsOf("Db", "major", "borrowed")).toMatchObject({ bIII: "Fb Ab Cb", bVI: "Bbb Db Fb", bVII: "Cb Eb Gb" });
+  });
+
+  it("borrows ♭VI into C major as A♭ major", () => {
+    expect(chordsOf("C", "major", "borrowed")).toMatchObject({ bVI: "Ab C Eb", bVII: "Bb D F", iv: "F Ab C" });
+  });
+
+  it("borrows from the parallel major in C minor and leaves out the chords both keys share", () => {
+    const borrowed = chordsOf("C", "minor", "borrowed", true);
+    expect(borrowed).toEqual({
+      Imaj7: "C E G B", ii7: "D F A C", iii7: "E G B D", IVmaj7: "F A C E", vi7: "A C E G", "viiø7": "B D F A",
+    });
+    expect(Object.values(borrowed)).not.toContain("G B D F");
+    expect(Object.values(chordsOf("C", "aeolian", "borrowed"))).not.toContain("Ab C Eb");
+  });
+
+  it("takes the parallel scale from the mode family", () => {
+    expect(parallelScale("F#", "major")).toEqual(["F#", "G#", "A", "B", "C#", "D", "E"]);
+    expect(parallelScale("C", "dorian")).toEqual(["C", "D", "Eb", "F", "G", "Ab", "Bb"]);
+    expect(parallelScale("C", "minor")).toEqual(["C", "D", "E", "F", "G", "A", "B"]);
+  });
+});
+
+describe("Neapolitan, augmented sixths and tritone substitutions", () => {
+  it.each<[string, Mode, string, string[]]>([
+    ["C", "major", "Db F Ab", ["Ab C F#", "Ab C D F#", "Ab C Eb F#"]],
+    ["F#", "major", "G B D", ["D F# B#", "D F# G# B#", "D F# A B#"]],
+    ["Db", "major", "Ebb Gb Bbb", ["Bbb Db G", "Bbb Db Eb G", "Bbb Db Fb G"]],
+  ])("spells N6 and the augmented sixths of %s %s", (tonic, mode, n6, sixths) => {
+    const chords = palette(tonic, mode);
+    expect(chords.find(c => c.kind === "neapolitan")?.tones.join(" ")).toBe(n6);
+    expect(chords.filter(c => c.kind === "augmentedSixth").map(c => [c.rn, c.tones.join(" ")])).toEqual(
+      ["It+6", "Fr+6", "Ger+6"].map((rn, i) => [rn, sixths[i]])
+    );
+  });
+
+  it("picks the tritone-sub spelling with fewer accidentals", () => {
+    expect(chordsOf("C", "major", "tritoneSub")).toMatchObject({ bII7: "Db F Ab Cb", "bII7/IV": "F# A# C# E", "bII7/V": "Ab C Eb Gb" });
+    expect(chordsOf("F#", "major", "tritoneSub")).toMatchObject({ bII7: "G B D F", "bII7/IV": "C E G Bb" });
+  });
+});
@@ -0,0 +1,101 @@
+/* ============================================================
+   Theory — chromatic harmony: applied, borrowed and substituted chords
+   ============================================================ */
+import { diatonicSevenths, diatonicTriads, numeralReference, romanNumeral, triadQuality } from "./chords";
+import type { Chord } from "./chords";
+import { transposeByInterval } from "./intervals";
+import { MAJOR_DEGREE_INTERVALS, MODES } from "./modes";
+import type { Mode } from "./modes";
+import { parseNote } from "./notes";
+
+export type ExtendedKind = "secondary" | "leadingTone" | "borrowed" | "neapolitan" | "augmentedSixth" | "tritoneSub";
+
+/** A chromatic palette chord. `target` is the spelled root it resolves to, `targetRn` that chord's numeral. */
+export type ExtendedChord = Chord & { kind: ExtendedKind; target: string; targetRn: string };
+
+export const EXTENDED_KINDS: { kind: ExtendedKind; label: string }[] = [
+  { kind: "secondary", label: "Secondary dominants" },
+  { kind: "leadingTone", label: "Leading-tone chords" },
+  { kind: "tritoneSub", label: "Tritone substitutions" },
+  { kind: "borrowed", label: "Borrowed from the parallel key" },
+  { kind: "neapolitan", label: "Neapolitan" },
+  { kind: "augmentedSixth", label: "Augmented sixths" },
+];
+
+const AEOLIAN_DEGREE_INTERVALS = ["P1","M2","m3","P4","P5","m6","m7"];
+
+// Augmented sixths, bass first: ♭6 under 1 and ♯4, plus 2 (French) or ♭3 (German)
+const AUGMENTED_SIXTHS: [string, string[]][] = [
+  ["It+6", ["m6","P1","A4"]],
+  ["Fr+6", ["m6","P1","M2","A4"]],
+  ["Ger+6", ["m6","P1","m3","A4"]],
+];
+
+const stack = (root: string, intervals: string[]) => intervals.map(iv => transposeByInterval(root, iv));
+const stripQuality = (rn: string) => rn.replace(/[°+]$/, "");
+const accidentals = (tones: string[]) => tones.reduce((n, t) => n + Math.abs(parseNote(t).acc), 0);
+
+/** Dominant 7th a tritone from the target's own V: spelled on ♭II of the target unless
+ *  the augmented-fourth spelling needs fewer accidentals (E7 rather than F♭7 going to E♭).
+ */
+function tritoneSub(target: string) {
+  const dominant = transposeByInterval(target, "P5");
+  const flat = stack(transposeByInterval(dominant, "d5"), ["P1","M3","P5","m7"]);
+  const sharp = stack(transposeByInterval(dominant, "A4"), ["P1","M3","P5","m7"]);
+  return accidentals(sharp) < accidentals(flat) ? sharp : flat;
+}
+
+/** Scale of the parallel key: natural minor for major-type modes, major for the minor family. */
+export function parallelScale(tonic: string, mode: Mode) {
+  const intervals = MODES[mode].minorFamily ? MAJOR_DEGREE_INTERVALS : AEOLIAN_DEGREE_INTERVALS;
+  return intervals.map(iv => transposeByInterval(tonic, iv));
+}
+
+/** Chromatic chords for a key, labelled like "V7/ii", "vii°7/V", "bVI", "N6", "Ger+6" and "bII7/V".
+ *  Secondary and leading-tone chords target every degree whose triad is major or minor;
+ *  borrowed chords are the parallel key's chords that differ from the diatonic ones.
+ */
+export function extendedPalette(scale: string[], mode: Mode, sevenths: boolean): ExtendedChord[] {
+  const tonic = scale[0];
+  const diatonic = diatonicTriads(scale, mode);
+  const dominant = transposeByInterval(tonic, "P5");
+  const out: ExtendedChord[] = [];
+
+  // Tonicizable degrees, plus the tonic itself for tritone substitutions
+  const targets = scale
+    .map((root, i) => ({ root, i, q: triadQuality(diatonic[i].tones) }))
+    .filter(t => t.q === "maj" || t.q === "min");
+
+  for (const { root, i, q } of targets) {
+    if (i === 0) continue;
+    const targetRn = stripQuality(diatonic[i].rn);
+    const dom = stack(transposeByInterval(root, "P5"), sevenths ? ["P1","M3","P5","m7"] : ["P1","M3","P5"]);
+    out.push({ rn: `${romanNumeral(dom, 4)}/${targetRn}`, tones: dom, kind: "secondary", target: root, targetRn });
+    // Fully diminished into minor targets, half-diminished into major ones
+    const lt = stack(transposeByInterval(root, "m2", -1), sevenths ? ["P1","m3","d5", q === "min" ? "d7" : "m7"] : ["P1","m3","d5"]);
+    out.push({ rn: `${romanNumeral(lt, 6)}/${targetRn}`, tones: lt, kind: "leadingTone", target: root, targetRn });
+  }
+
+  for (const { root, i } of targets) {
+    const targetRn = stripQuality(diatonic[i].rn);
+    const sub = tritoneSub(root);
+    out.push({ rn: i === 0 ? "bII7" : `bII7/${targetRn}`, tones: sub, kind: "tritoneSub", target: root, targetRn });
+  }
+
+  const parMode: Mode = MODES[mode].minorFamily ? "major" : "aeolian";
+  const par = parallelScale(tonic, mode);
+  const home = sevenths ? diatonicSevenths(scale, mode) : diatonic;
+  const borrowed = sevenths ? diatonicSevenths(par, parMode) : diatonicTriads(par, parMode);
+  const reference = numeralReference(tonic, mode);
+  const tonicRn = diatonic[0].rn;
+  borrowed.forEach((c, i) => {
+    if (c.tones.every((t, j) => t === home[i].tones[j])) return;
+    out.push({ rn: romanNumeral(c.tones, i, reference), tones: c.tones, kind: "borrowed", target: tonic, targetRn: tonicRn });
+  });
+
+  out.push({ rn: "N6", tones: stack(transposeByInterval(tonic, "m2"), ["P1","M3","P5"]), kind: "neapolitan", target: dominant, targetRn: "V" });
+  for (const [rn, intervals] of AUGMENTED_SIXTHS) {
+    out.push({ rn, tones: stack(tonic, intervals), kind: "augmentedSixth", target: dominant, targetRn: "V" });
+  }
+  return out;
+}
@@ -0,0 +1,16 @@
+/* Framework-free music theory: notes, intervals, keys, modes, diatonic and chromatic chords, progressions, voicing, chord symbols, chord naming, key detection, transposition, modulation, tuning and note naming. */
+export * from "./notes";
+export * from "./intervals";
+export * from "./modes";
+export * from "./keys";
+export * from "./chords";
+export * from "./harmony";
+export * from "./progression";
+export * from "./voicing";
+export * from "./chordName";
+export * from "./chordSymbol";
+export * from "./keyDetect";
+export * from "./transpose";
+export * from "./modulation";
+export * from "./tuning";
+export * from "./naming";
@@ -0,0 +1,60 @@
+/* ============================================================
+   Theory — intervals
+   ============================================================ */
+import { LETTERS, NAT_PC, formatNote, mod12, parseNote, pitchClass } from "./notes";
+
+export type IntervalQuality = "dd" | "d" | "m" | "P" | "M" | "A" | "AA";
+
+/** A diatonic interval: quality + number (1 = unison, 8 = octave, 9+ compound). */
+export type Interval = { quality: IntervalQuality; num: number };
+
+// Semitones of the major / perfect interval above the tonic, per simple number - 1
+const BASE_SEMIS = [0, 2, 4, 5, 7, 9, 11];
+const PERFECT_OFFSETS: Partial<Record<IntervalQuality, number>> = { dd:-2, d:-1, P:0, A:1, AA:2 };
+const MAJOR_OFFSETS:   Partial<Record<IntervalQuality, number>> = { dd:-3, d:-2, m:-1, M:0, A:1, AA:2 };
+
+const isPerfectNum = (num: number) => [0, 3, 4].includes((num - 1) % 7);
+/** Signed difference folded into −6..5 so that e.g. C→C♭ reads as −1, not 11. */
+const fold = (n: number) => mod12(n + 6) - 6;
+
+export function parseInterval(s: string): Interval {
+  const m = /^(dd|d|m|P|M|AA|A)(\d+)$/.exec(s.trim());
+  if (!m || Number(m[2]) < 1) throw new Error(`Unknown interval: ${s}`);
+  const iv = { quality: m[1] as IntervalQuality, num: Number(m[2]) };
+  const table = isPerfectNum(iv.num) ? PERFECT_OFFSETS : MAJOR_OFFSETS;
+  if (table[iv.quality] === undefined) throw new Error(`Unknown interval: ${s}`);
+  return iv;
+}
+export const intervalName = (iv: Interval) => `${iv.quality}${iv.num}`;
+
+const asInterval = (iv: Interval | string) => (typeof iv === "string" ? parseInterval(iv) : iv);
+
+/** Size in semitones, compound intervals included (M9 → 14). */
+export function intervalSemitones(ivRaw: Interval | string) {
+  const iv = asInterval(ivRaw);
+  const steps = iv.num - 1;
+  const table = isPerfectNum(iv.num) ? PERFECT_OFFSETS : MAJOR_OFFSETS;
+  return 12*Math.floor(steps/7) + BASE_SEMIS[steps % 7] + (table[iv.quality] ?? 0);
+}
+
+/** Transpose a spelled note, keeping letter arithmetic intact: E + M3 → G♯, not A♭. */
+export function transposeByInterval(note: string, ivRaw: Interval | string, dir: 1 | -1 = 1) {
+  const iv = asInterval(ivRaw);
+  const { letter } = parseNote(note);
+  const steps = (iv.num - 1) % 7;
+  const target = LETTERS[(LETTERS.indexOf(letter) + dir*steps + 7) % 7];
+  const pc = pitchClass(note) + dir*intervalSemitones(iv);
+  return formatNote({ letter: target, acc: fold(pc - NAT_PC[target]) });
+}
+
+/** Ascending simple interval from `lower` up to `upper` (B → C is m2, C → C♭ is d1). */
+export function intervalBetween(lower: string, upper: string): Interval {
+  const a = parseNote(lower), b = parseNote(upper);
+  const steps = (LETTERS.indexOf(b.letter) - LETTERS.indexOf(a.letter) + 7) % 7;
+  const num = steps + 1;
+  const diff = fold(pitchClass(b) - pitchClass(a) - BASE_SEMIS[steps]);
+  const table = isPerfectNum(num) ? PERFECT_OFFSETS : MAJOR_OFFSETS;
+  const quality = (Object.keys(table) as IntervalQuality[]).find(q => table[q] === diff);
+  if (!quality) throw new RangeError(`No interval quality for ${lower} → ${upper}`);
+  return { quality, num };
+}
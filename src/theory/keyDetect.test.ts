@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { detectKeys, parseKeyInput } from ".";
+
+const best = (text: string) => {
+  const [top, next] = detectKeys(parseKeyInput(text).items, "auto");
+  return { key: `${top.tonic} ${top.mode}`, top, next };
+};
+
+describe("detectKeys", () => {
+  it.each([
+    ["C E G", "C major"],
+    ["G D Em C", "G major"],
+    ["C D E F G A B C", "C major"],
+    ["A C E", "a aeolian"],
+    ["Am F G7 Am", "a aeolian"],
+    ["Am Dm E7 Am", "a minor"],
+    ["Bb Eb F7", "Bb major"],
+    ["F# A# C#", "F# major"],
+    ["Gb Bb Db", "Gb major"],
+    ["Db Gb Ab7 Db", "Db major"],
+  ])("%s → %s", (text, key) => {
+    expect(best(text).key).toBe(key);
+  });
+
+  // Tonal evidence orders scales that fit equally well; it never outranks a better fit
+  it("ranks by fit before tonal evidence", () => {
+    const { top, next } = best("C E G");
+    expect(top.fit).toBe(1);
+    expect(next.fit).toBe(1);
+    expect(top.score - next.score).toBeLessThan(1 / 3);
+    const ranked = detectKeys(parseKeyInput("G D Em C").items, "auto");
+    const c = ranked.find(k => k.tonic === "C" && k.mode === "major")!;
+    expect(c.fit).toBeLessThan(1);
+    expect(ranked.filter(k => k.fit === 1).every(k => k.score > c.score)).toBe(true);
+  });
+
+  it("lists notes outside the scale", () => {
+    const ranked = detectKeys(parseKeyInput("G D Em C").items, "auto");
+    expect(ranked.find(k => k.tonic === "C" && k.mode === "major")!.outside).toEqual(["F#"]);
+  });
+});
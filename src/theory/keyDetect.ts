@@ -0,0 +1,115 @@
+/* ============================================================
+   Theory — key detection from notes or chord symbols
+   ============================================================ */
+import { chordSymbolTones, isNoteName, parseChordSymbol } from "./chordSymbol";
+import { buildScaleFromKeyName, POSITIONS, tonicAt } from "./keys";
+import type { EnhPref } from "./keys";
+import type { Mode } from "./modes";
+import { parseNoteName } from "./naming";
+import type { NoteNaming } from "./naming";
+import { normalizeToken, pitchClass } from "./notes";
+
+/** One entry of the user's input: a single note, or a chord with its spelled tones. */
+export type KeyInputItem = { kind: "note" | "chord"; text: string; tones: string[] };
+
+export type KeyCandidate = {
+  position: number;   // index into POSITIONS
+  mode: Mode;
+  enhPref?: EnhPref;  // set on enharmonic spokes: the preference that spells this tonic
+  tonic: string;
+  scale: string[];
+  fit: number;        // share of the input (by weight) inside the scale, 0–1
+  score: number;      // fit, then tonal-center evidence among equal fits; used for ranking
+  outside: string[];  // input notes the scale does not contain
+};
+
+/** Modes each spoke is tried in. */
+export const DETECT_MODES: readonly Mode[] = ["major", "aeolian", "minor"];
+
+/** Split free text ("C E G" or "Am F G7") into notes and chords; unreadable tokens come back as errors.
+ *  Once any token is clearly a chord, bare letters are read as major chords too ("Bb Eb F7").
+ *  Notes may be written in another naming system ("Fis", "Sol", "Me"); chord symbols stay in letters.
+ */
+export function parseKeyInput(text: string, naming: NoteNaming = "english", tonic = "C") {
+  const tokens = text.split(/[\s,|]+/).filter(Boolean);
+  const readNote = (t: string) => {
+    if (naming === "english") return isNoteName(t) ? normalizeToken(t) : undefined;
+    try { return parseNoteName(t, naming, tonic); } catch { return undefined; }
+  };
+  const chordChart = tokens.some(t => !readNote(t) && /^[A-G]/.test(t));
+  const items: KeyInputItem[] = [];
+  const errors: string[] = [];
+  for (const tok of tokens) {
+    const note = readNote(tok);
+    if (note && !(chordChart && isNoteName(tok) && /^[A-G]/.test(tok))) {
+      items.push({ kind: "note", text: tok, tones: [note] });
+      continue;
+    }
+    try {
+      items.push({ kind: "chord", text: tok, tones: chordSymbolTones(parseChordSymbol(tok)) });
+    } catch {
+      errors.push(tok);
+    }
+  }
+  return { items, errors };
+}
+
+/** Score one scale against the input. Chord roots count double. Tonal-center evidence (first and last
+ *  item on the tonic, tonic chords of the right quality, the tonic triad among the notes, the dominant,
+ *  spelling) is scaled below one input weight, so it only orders scales that fit equally well.
+ */
+function scoreScale(items: KeyInputItem[], scale: string[], mode: Mode) {
+  const pcs = new Set(scale.map(pitchClass));
+  const tonicPc = pitchClass(scale[0]), domPc = pitchClass(scale[4]);
+  let inside = 0, total = 0, spelledSame = 0, spelled = 0;
+  const outside = new Set<string>();
+  for (const it of items) {
+    it.tones.forEach((n,j)=>{
+      const w = it.kind === "chord" && j === 0 ? 2 : 1;
+      total += w;
+      if (pcs.has(pitchClass(n))) inside += w; else outside.add(n);
+      spelled++;
+      if (scale.includes(n)) spelledSame++;
+    });
+  }
+  const fit = total ? inside / total : 0;
+  const rootPc = (it: KeyInputItem) => pitchClass(it.tones[0]);
+  const first = items[0], last = items[items.length - 1];
+  let evidence = 0;
+  if (first && rootPc(first) === tonicPc) evidence += 0.05;
+  if (last && rootPc(last) === tonicPc) evidence += 0.05;
+  const minorKey = mode !== "major";
+  const tonicChords = items.filter(it => it.kind === "chord" && rootPc(it) === tonicPc
+    && pitchClass(it.tones[1]) === (tonicPc + (minorKey ? 3 : 4)) % 12).length;
+  const chords = items.filter(it => it.kind === "chord").length;
+  if (chords) evidence += 0.12 * (tonicChords / chords);
+  const notes = new Set(items.filter(it => it.kind === "note").map(rootPc));
+  if (notes.size) evidence += 0.1 * ([0, 2, 4].filter(i => notes.has(pitchClass(scale[i]))).length / 3);
+  if (items.some(it => rootPc(it) === domPc)) evidence += 0.03;
+  // Spelling breaks enharmonic ties: "A#" points at sharp keys, "Bb" at flat ones
+  if (spelled) evidence += 0.03 * (spelledSame / spelled);
+  // Evidence stays under 0.4, fit moves in steps of 1 / total
+  return { fit, score: fit + (total ? evidence / total : 0), outside: [...outside] };
+}
+
+/** Every spoke in every detection mode, best first. With "auto", enharmonic spokes are tried both ways. */
+export function detectKeys(items: KeyInputItem[], enhPref: EnhPref): KeyCandidate[] {
+  if (items.length === 0) return [];
+  const out: KeyCandidate[] = [];
+  POSITIONS.forEach((p, position) => {
+    const prefs: (EnhPref | undefined)[] = enhPref === "auto" && p.major.includes("/") ? ["sharps", "flats"] : [undefined];
+    for (const mode of DETECT_MODES) for (const pref of prefs) {
+      const tonic = tonicAt(p, mode, pref ?? enhPref);
+      const scale = buildScaleFromKeyName(tonic, mode);
+      out.push({ position, mode, enhPref: pref, tonic, scale, ...scoreScale(items, scale, mode) });
+    }
+  });
+  return out.sort((a,b)=> b.score - a.score);
+}
+
+/** Best fit per spoke (0–1), for a heat map on the circle. */
+export function keyHeat(candidates: KeyCandidate[]) {
+  const heat = POSITIONS.map(() => 0);
+  for (const c of candidates) heat[c.position] = Math.max(heat[c.position], c.fit);
+  return heat;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  POSITIONS, buildScaleFromKeyName, keySignatureFor, normalizeMinorToken, normalizeToken, parallelScale, parentMajorOf,
+  relativeMajorFromMinor, resolveEnharmonic, signatureNotes, tonicAt,
+} from ".";
+import type { EnhPref } from ".";
+
+const PREFS: EnhPref[] = ["auto", "sharps", "flats"];
+
+// The fifteen written major keys with their signatures and scales, spelled out by hand
+const MAJORS: [string, string[], string[]][] = [
+  ["Cb", ["Bb","Eb","Ab","Db","Gb","Cb","Fb"], ["Cb","Db","Eb","Fb","Gb","Ab","Bb"]],
+  ["Gb", ["Bb","Eb","Ab","Db","Gb","Cb"],      ["Gb","Ab","Bb","Cb","Db","Eb","F"]],
+  ["Db", ["Bb","Eb","Ab","Db","Gb"],           ["Db","Eb","F","Gb","Ab","Bb","C"]],
+  ["Ab", ["Bb","Eb","Ab","Db"],                ["Ab","Bb","C","Db","Eb","F","G"]],
+  ["Eb", ["Bb","Eb","Ab"],                     ["Eb","F","G","Ab","Bb","C","D"]],
+  ["Bb", ["Bb","Eb"],                          ["Bb","C","D","Eb","F","G","A"]],
+  ["F",  ["Bb"],                               ["F","G","A","Bb","C","D","E"]],
+  ["C",  [],                                   ["C","D","E","F","G","A","B"]],
+  ["G",  ["F#"],                               ["G","A","B","C","D","E","F#"]],
+  ["D",  ["F#","C#"],                          ["D","E","F#","G","A","B","C#"]],
+  ["A",  ["F#","C#","G#"],                     ["A","B","C#","D","E","F#","G#"]],
+  ["E",  ["F#","C#","G#","D#"],                ["E","F#","G#","A","B","C#","D#"]],
+  ["B",  ["F#","C#","G#","D#","A#"],           ["B","C#","D#","E","F#","G#","A#"]],
+  ["F#", ["F#","C#","G#","D#","A#","E#"],      ["F#","G#","A#","B","C#","D#","E#"]],
+  ["C#", ["F#","C#","G#","D#","A#","E#","B#"], ["C#","D#","E#","F#","G#","A#","B#"]],
+];
+
+// Relative minors in the same order, with their natural and harmonic minor scales
+const MINORS: [string, string[], string[]][] = [
+  ["Ab", ["Ab","Bb","Cb","Db","Eb","Fb","Gb"], ["Ab","Bb","Cb","Db","Eb","Fb","G"]],
+  ["Eb", ["Eb","F","Gb","Ab","Bb","Cb","Db"],  ["Eb","F","Gb","Ab","Bb","Cb","D"]],
+  ["Bb", ["Bb","C","Db","Eb","F","Gb","Ab"],   ["Bb","C","Db","Eb","F","Gb","A"]],
+  ["F",  ["F","G","Ab","Bb","C","Db","Eb"],    ["F","G","Ab","Bb","C","Db","E"]],
+  ["C",  ["C","D","Eb","F","G","Ab","Bb"],     ["C","D","Eb","F","G","Ab","B"]],
+  ["G",  ["G","A","Bb","C","D","Eb","F"],      ["G","A","Bb","C","D","Eb","F#"]],
+  ["D",  ["D","E","F","G","A","Bb","C"],       ["D","E","F","G","A","Bb","C#"]],
+  ["A",  ["A","B","C","D","E","F","G"],        ["A","B","C","D","E","F","G#"]],
+  ["E",  ["E","F#","G","A","B","C","D"],       ["E","F#","G","A","B","C","D#"]],
+  ["B",  ["B","C#","D","E","F#","G","A"],      ["B","C#","D","E","F#","G","A#"]],
+  ["F#", ["F#","G#","A","B","C#","D","E"],     ["F#","G#","A","B","C#","D","E#"]],
+  ["C#", ["C#","D#","E","F#","G#","A","B"],    ["C#","D#","E","F#","G#","A","B#"]],
+  ["G#", ["G#","A#","B","C#","D#","E","F#"],   ["G#","A#","B","C#","D#","E","F##"]],
+  ["D#", ["D#","E#","F#","G#","A#","B","C#"],  ["D#","E#","F#","G#","A#","B","C##"]],
+  ["A#", ["A#","B#","C#","D#","E#","F#","G#"], ["A#","B#","C#","D#","E#","F#","G##"]],
+];
+
+describe("key signatures and scales", () => {
+  it.each(MAJORS)("%s major", (tonic, sig, scale) => {
+    const s = keySignatureFor(tonic, "major");
+    expect(signatureNotes(s)).toEqual(sig);
+    expect(s.fifths).toBe(sig.length * (sig[0]?.endsWith("b") ? -1 : 1));
+    expect(buildScaleFromKeyName(tonic, "major")).toEqual(scale);
+  });
+
+  it.each(MINORS.map((m, i) => [...m, MAJORS[i]] as const))("%s minor", (tonic, natural, harmonic, [major, sig]) => {
+    expect(signatureNotes(keySignatureFor(tonic, "aeolian"))).toEqual(sig);
+    expect(signatureNotes(keySignatureFor(tonic, "minor"))).toEqual(sig);
+    expect(parentMajorOf(tonic, "aeolian")).toBe(major);
+    expect(buildScaleFromKeyName(tonic, "aeolian")).toEqual(natural);
+    expect(buildScaleFromKeyName(tonic, "minor")).toEqual(harmonic);
+  });
+});
+
+describe("relative and parallel keys", () => {
+  it.each(MINORS.map((m, i) => [m[0], MAJORS[i][0]]))("%s minor is relative to %s major", (minor, major) => {
+    expect(relativeMajorFromMinor(minor.toLowerCase())).toBe(major);
+    expect(buildScaleFromKeyName(major, "major")[5]).toBe(minor);
+  });
+
+  it.each(MAJORS.map(m => m[0]))("%s major and minor are parallel", tonic => {
+    expect(parallelScale(tonic, "major")).toEqual(buildScaleFromKeyName(tonic, "aeolian"));
+    expect(parallelScale(tonic, "aeolian")).toEqual(buildScaleFromKeyName(tonic, "major"));
+    expect(keySignatureFor(tonic, "aeolian").fifths).toBe(keySignatureFor(tonic, "major").fifths - 3);
+  });
+});
+
+describe("circle spokes under each enharmonic preference", () => {
+  // What each spoke resolves to: [auto, sharps, flats], major then minor
+  const EXPECTED: [string[], string[]][] = [
+    [["C","C","C"],     ["a","a","a"]],
+    [["G","G","G"],     ["e","e","e"]],
+    [["D","D","D"],     ["b","b","b"]],
+    [["A","A","A"],     ["f#","f#","f#"]],
+    [["E","E","E"],     ["c#","c#","c#"]],
+    [["B","B","B"],     ["g#","g#","g#"]],
+    [["F#","F#","Gb"],  ["d#","d#","eb"]],
+    [["Db","C#","Db"],  ["bb","a#","bb"]],
+    [["Ab","Ab","Ab"],  ["f","f","f"]],
+    [["Eb","Eb","Eb"],  ["c","c","c"]],
+    [["Bb","Bb","Bb"],  ["g","g","g"]],
+    [["F","F","F"],     ["d","d","d"]],
+  ];
+
+  it.each(POSITIONS.map((p, i) => [p.major, p, EXPECTED[i]] as const))("%s", (_, p, [majors, minors]) => {
+    PREFS.forEach((pref, j) => {
+      expect(resolveEnharmonic(p.major, p.acc, pref)).toBe(majors[j]);
+      expect(resolveEnharmonic(p.minor, p.acc, pref)).toBe(minors[j]);
+      expect(normalizeToken(tonicAt(p, "major", pref))).toBe(majors[j]);
+      expect(normalizeMinorToken(tonicAt(p, "aeolian", pref))).toBe(minors[j]);
+    });
+  });
+
+  it.each(PREFS)("keeps relative keys on one spoke with %s", pref => {
+    for (const p of POSITIONS) {
+      const major = normalizeToken(tonicAt(p, "major", pref));
+      const minor = tonicAt(p, "aeolian", pref);
+      expect(relativeMajorFromMinor(minor)).toBe(major);
+      expect(parentMajorOf(minor, "minor")).toBe(major);
+      expect(buildScaleFromKeyName(major, "major")[5]).toBe(normalizeToken(minor));
+      expect(keySignatureFor(minor, "aeolian").fifths).toBe(keySignatureFor(major, "major").fifths);
+      // Every spoke's signature is at most seven accidentals and on the spoke's side of the circle
+      expect(Math.abs(keySignatureFor(major, "major").fifths)).toBeLessThanOrEqual(7);
+    }
+  });
+
+  it.each(PREFS)("spells the parallel key of every spoke with %s", pref => {
+    for (const p of POSITIONS) {
+      const major = normalizeToken(tonicAt(p, "major", pref));
+      expect(parallelScale(major, "major")[0]).toBe(major);
+      expect(parallelScale(major, "major")).toEqual(buildScaleFromKeyName(major, "aeolian"));
+    }
+  });
+});
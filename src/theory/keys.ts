@@ -0,0 +1,141 @@
+/* ============================================================
+   Theory — circle positions, key signatures & scales
+   ============================================================ */
+import { LETTERS, asciiNote, fifthsIndex, noteAtFifths, normalizeMinorToken, normalizeToken, pitchClass } from "./notes";
+import type { Letter, PitchClass } from "./notes";
+import { transposeByInterval } from "./intervals";
+import { MAJOR_DEGREE_INTERVALS, MODES } from "./modes";
+import type { Mode } from "./modes";
+
+// ---------- Circle data ------------------------------------------------------
+export type Pos = { major: string; minor: string; acc: number }; // acc>0 sharps; acc<0 flats
+
+export const POSITIONS: readonly Pos[] = [
+  { major: "C",         minor: "a",        acc:  0 },
+  { major: "G",         minor: "e",        acc:  1 },
+  { major: "D",         minor: "b",        acc:  2 },
+  { major: "A",         minor: "f#",       acc:  3 },
+  { major: "E",         minor: "c#",       acc:  4 },
+  { major: "B",         minor: "g#",       acc:  5 },
+  { major: "F# / Gb",   minor: "d# / eb",  acc:  6 },  // enharmonic spoke
+  { major: "Db / C#",   minor: "bb / a#",  acc: -5 },  // enharmonic spoke
+  { major: "Ab",        minor: "f",        acc: -4 },
+  { major: "Eb",        minor: "c",        acc: -3 },
+  { major: "Bb",        minor: "g",        acc: -2 },
+  { major: "F",         minor: "d",        acc: -1 },
+] as const;
+
+// ---------- Accidentals ------------------------------------------------------
+export const ORDER_SHARPS = ["F","C","G","D","A","E","B"];
+export const ORDER_FLATS  = ["B","E","A","D","G","C","F"];
+
+const accidentalText = (acc: number) => acc >= 0 ? "#".repeat(acc) : "b".repeat(-acc);
+
+// ---------- Enharmonic preference -------------------------------------------
+export type EnhPref = "auto" | "sharps" | "flats";
+
+/** Choose sharp/flat token by accidental, not by slash position. */
+export function resolveEnharmonic(raw: string, posAcc: number, pref: EnhPref) {
+  if (!raw.includes("/")) return raw;
+  const [aRaw, bRaw] = raw.split("/").map(s => s.trim());
+  const a = asciiNote(aRaw);
+  const aSharp = a.includes("#");
+  const sharpName = aSharp ? aRaw : bRaw;
+  const flatName  = aSharp ? bRaw : aRaw;
+
+  if (pref === "sharps") return sharpName;
+  if (pref === "flats")  return flatName;
+  return posAcc >= 0 ? sharpName : flatName; // auto by circle side
+}
+
+/** Spoke whose major (or, for `minor`, relative minor) has this pitch class as tonic. */
+export function positionOfTonic(pc: PitchClass, minor: boolean) {
+  return POSITIONS.findIndex(p => pitchClass(minor ? p.minor : p.major) === pc);
+}
+
+/** Tonic of `mode` on a circle spoke: the spoke's major is the parent, the mode starts on its degree. */
+export function tonicAt(p: Pos, mode: Mode, pref: EnhPref) {
+  const { degree } = MODES[mode];
+  if (degree === 0) return resolveEnharmonic(p.major, p.acc, pref);
+  if (degree === 5) return resolveEnharmonic(p.minor, p.acc, pref);
+  return transposeByInterval(normalizeToken(resolveEnharmonic(p.major, p.acc, pref)), MAJOR_DEGREE_INTERVALS[degree]);
+}
+
+// ---------- Signatures & scale building -------------------------------------
+/** A key signature as a signed count of fifths from C: G♯ major is 8 (F𝄪 plus six sharps), F♭ major −8.
+ *  `acc` is what each letter carries; `count` and `set` describe the signs written (never more than seven).
+ */
+export type Sig = { type: "#" | "b"; fifths: number; count: number; set: Set<string>; acc: Record<Letter, number> };
+
+/** Signature `fifths` steps round the line of fifths: past seven, letters take a second sharp or flat in order. */
+export function signatureFromFifths(fifths: number): Sig {
+  const type: "#" | "b" = fifths >= 0 ? "#" : "b";
+  const order = type === "#" ? ORDER_SHARPS : ORDER_FLATS;
+  const n = Math.abs(fifths);
+  const acc = Object.fromEntries(
+    order.map((L, i) => [L, Math.sign(fifths) * Math.floor((n - i + 6) / 7)])
+  ) as Record<Letter, number>;
+  const count = Math.min(n, 7);
+  return { type, fifths, count, set: new Set(order.slice(0, count)), acc };
+}
+/** Signature of any major key, including theoretical ones (G♯, F♭, D𝄫…). */
+export function signatureForMajorName(majorName: string): Sig {
+  return signatureFromFifths(fifthsIndex(majorName));
+}
+/** Letters carrying an accidental, in signature order (F C G… / B E A…). */
+export function signatureLetters(sig: Sig) {
+  return (sig.type === "#" ? ORDER_SHARPS : ORDER_FLATS).slice(0, sig.count);
+}
+/** Signature as written notes, in order: ["F##", "C#", …] for G♯ major. */
+export function signatureNotes(sig: Sig) {
+  return signatureLetters(sig).map(L => L + accidentalText(sig.acc[L as Letter]));
+}
+export function applySignature(letter: string, sig: Sig) {
+  return letter + accidentalText(sig.acc[letter as Letter] ?? 0);
+}
+export function raiseHalfStep(spelled: string) {
+  const L = spelled[0];
+  const acc = spelled.slice(1);
+  if (acc.includes("b")) return L + acc.replace("b", ""); // remove one flat
+  return L + acc + "#";                                    // add one sharp
+}
+
+/** Relative major a minor third up, spelled from the minor name itself (a♯ → C♯, b♭ → D♭). */
+export function relativeMajorFromMinor(minorName: string) {
+  return transposeByInterval(normalizeMinorToken(minorName), "m3");
+}
+
+/** Parent major whose signature a mode borrows (D dorian → C, a minor → C). */
+export function parentMajorOf(tonicRaw: string, mode: Mode) {
+  const { degree } = MODES[mode];
+  if (degree === 0) return normalizeToken(tonicRaw);
+  if (degree === 5) return relativeMajorFromMinor(tonicRaw);
+  return transposeByInterval(normalizeToken(tonicRaw), MAJOR_DEGREE_INTERVALS[degree], -1);
+}
+
+/** Tonic of `mode` under the signature with `fifths` sharps (flats when negative); the parent major is spelled
+ *  past seven as needed (8 → G♯), so this is `tonicAt` without the fold onto twelve spokes.
+ */
+export function tonicAtFifths(fifths: number, mode: Mode) {
+  return transposeByInterval(noteAtFifths(fifths), MAJOR_DEGREE_INTERVALS[MODES[mode].degree]);
+}
+
+/** Key signature written for a tonic in the given mode (modes borrow their parent major's). */
+export function keySignatureFor(tonicRaw: string, mode: Mode): Sig {
+  return signatureForMajorName(parentMajorOf(tonicRaw, mode));
+}
+
+/** Build scale by key name + mode using formal key signatures:
+ *  parent-major signature, then the mode's raised degrees
+ *  (harmonic minor: 7th; melodic minor: 6th and 7th).
+ */
+export function buildScaleFromKeyName(tonicRaw: string, mode: Mode) {
+  const tonic = normalizeToken(tonicRaw);
+  const sig = keySignatureFor(tonic, mode);
+  const start = LETTERS.indexOf(tonic[0] as Letter);
+  const letters = Array.from({length:7},(_,i)=>LETTERS[(start+i)%7]);
+  const scale = letters.map(L => applySignature(L, sig));
+  scale[0] = tonic; // ensure tonic accidental matches name
+  for (const i of MODES[mode].raise) scale[i] = raiseHalfStep(scale[i]);
+  return scale;
+}
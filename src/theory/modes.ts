@@ -0,0 +1,36 @@
+/* ============================================================
+   Theory — scale types (church modes + minor variants)
+   ============================================================ */
+
+export type Mode =
+  | "major" | "dorian" | "phrygian" | "lydian" | "mixolydian" | "aeolian" | "locrian"
+  | "minor"    // harmonic minor (the app's original "minor")
+  | "melodic"; // melodic minor, ascending form
+
+export type ModeInfo = {
+  label: string;
+  caption: string;        // center-of-circle caption
+  degree: number;         // scale degree of the parent major the mode starts on (0-based)
+  raise: number[];        // scale indices raised a half step above the parent signature
+  minorFamily: boolean;   // Roman numerals follow minor-key convention (no ♭/♯ prefixes)
+};
+
+export const MODES: Record<Mode, ModeInfo> = {
+  major:      { label: "Major",          caption: "Key",                    degree: 0, raise: [],     minorFamily: false },
+  dorian:     { label: "Dorian",         caption: "Dorian mode",            degree: 1, raise: [],     minorFamily: false },
+  phrygian:   { label: "Phrygian",       caption: "Phrygian mode",          degree: 2, raise: [],     minorFamily: false },
+  lydian:     { label: "Lydian",         caption: "Lydian mode",            degree: 3, raise: [],     minorFamily: false },
+  mixolydian: { label: "Mixolydian",     caption: "Mixolydian mode",        degree: 4, raise: [],     minorFamily: false },
+  aeolian:    { label: "Natural minor",  caption: "Scale (natural minor)",  degree: 5, raise: [],     minorFamily: true  },
+  minor:      { label: "Harmonic minor", caption: "Scale (harmonic minor)", degree: 5, raise: [6],    minorFamily: true  },
+  melodic:    { label: "Melodic minor",  caption: "Scale (melodic minor)",  degree: 5, raise: [5, 6], minorFamily: true  },
+  locrian:    { label: "Locrian",        caption: "Locrian mode",           degree: 6, raise: [],     minorFamily: false },
+};
+
+/** Selector order: the seven church modes by parent degree, then the altered minors. */
+export const MODE_ORDER: readonly Mode[] = [
+  "major", "dorian", "phrygian", "lydian", "mixolydian", "aeolian", "locrian", "minor", "melodic",
+];
+
+/** Interval from the parent major's tonic up to each of its degrees. */
+export const MAJOR_DEGREE_INTERVALS = ["P1", "M2", "M3", "P4", "P5", "M6", "M7"] as const;
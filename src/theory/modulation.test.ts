@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { MAX_HOPS, cadenceFor, circleDistance, modulationPaths, pivotChords } from ".";
+import type { KeyRef, Mode } from ".";
+
+const key = (tonic: string, mode: Mode = "major"): KeyRef => ({ tonic, mode });
+const C = key("C");
+
+describe("circleDistance", () => {
+  it.each<[KeyRef, KeyRef, number]>([
+    [C, C, 0],
+    [C, key("G"), 1],
+    [C, key("F"), -1],
+    [C, key("E"), 4],
+    [C, key("Ab"), -4],
+    [key("Db"), key("B"), -2],
+    [key("B"), key("Db"), 2],
+  ])("%j → %j is %i", (a, b, steps) => {
+    expect(circleDistance(a, b)).toEqual({ steps, distance: Math.abs(steps) });
+  });
+
+  it("counts modes from their parent major's signature", () => {
+    expect(circleDistance(C, key("A", "aeolian")).distance).toBe(0);
+    expect(circleDistance(key("D", "dorian"), key("E", "minor"))).toEqual({ steps: 1, distance: 1 });
+    expect(circleDistance(C, key("C", "aeolian"))).toEqual({ steps: -3, distance: 3 });
+  });
+
+  it("goes six steps either way to the opposite spoke, whatever the spelling", () => {
+    expect(circleDistance(C, key("F#")).distance).toBe(6);
+    expect(circleDistance(C, key("Gb")).distance).toBe(6);
+  });
+});
+
+describe("pivotChords", () => {
+  it("finds the triads C and G share, with both numerals, best pivots first", () => {
+    expect(pivotChords(C, key("G"))).toEqual([
+      { tones: ["C", "E", "G"], fromRn: "I", toRn: "IV" },
+      { tones: ["A", "C", "E"], fromRn: "vi", toRn: "ii" },
+      { tones: ["E", "G", "B"], fromRn: "iii", toRn: "vi" },
+      { tones: ["G", "B", "D"], fromRn: "V", toRn: "I" },
+    ]);
+  });
+
+  it("matches chords by sound and spells them as in the first key", () => {
+    expect(pivotChords(key("Db"), key("F#"))).toContainEqual({ tones: ["Gb", "Bb", "Db"], fromRn: "IV", toRn: "I" });
+  });
+
+  it("has nothing to offer within one key or between keys a tritone apart", () => {
+    expect(pivotChords(C, C)).toEqual([]);
+    expect(pivotChords(key("A", "aeolian"), key("A", "aeolian"), true)).toEqual([]);
+    expect(pivotChords(C, key("F#"))).toEqual([]);
+  });
+
+  it("drops pivots whose sevenths differ: G7 is not Gmaj7", () => {
+    expect(pivotChords(C, key("G"), true).map(p => `${p.fromRn}=${p.toRn}`)).toEqual(["Imaj7=IVmaj7", "vi7=ii7", "iii7=vi7"]);
+  });
+});
+
+describe("modulationPaths", () => {
+  it("gives nothing for the same key", () => {
+    expect(modulationPaths(C, C, "auto")).toEqual([]);
+  });
+
+  it("goes straight to a key that shares a pivot", () => {
+    const [best] = modulationPaths(C, key("G"), "auto");
+    expect(best.keys).toEqual([C, key("G")]);
+    expect(best.hops).toEqual([{ from: C, to: key("G"), pivot: { tones: ["C", "E", "G"], fromRn: "I", toRn: "IV" } }]);
+  });
+
+  it("reaches F♯ from C in a few hops, each through a pivot both keys share", () => {
+    const paths = modulationPaths(C, key("F#"), "auto");
+    expect(paths).toHaveLength(3);
+    for (const { keys, hops } of paths) {
+      expect(hops.length).toBeLessThanOrEqual(MAX_HOPS);
+      expect(hops).toHaveLength(3);
+      expect(keys[0]).toEqual(C);
+      expect(keys[keys.length - 1]).toEqual(key("F#"));
+      for (const k of keys.slice(1, -1)) expect(["major", "aeolian"]).toContain(k.mode);
+      hops.forEach((hop, i) => {
+        expect([hop.from, hop.to]).toEqual([keys[i], keys[i + 1]]);
+        expect(pivotChords(hop.from, hop.to)).toContainEqual(hop.pivot);
+      });
+    }
+  });
+
+  it("keeps to the limit", () => {
+    expect(modulationPaths(C, key("F#"), "auto", 1)).toHaveLength(1);
+  });
+});
+
+describe("cadenceFor", () => {
+  it("plays the home tonic, then pivot, V7 and tonic per hop", () => {
+    const [path] = modulationPaths(C, key("G"), "auto");
+    expect(cadenceFor(path)).toEqual([
+      { label: "I", tones: ["C", "E", "G"] },
+      { label: "I = IV", tones: ["C", "E", "G"] },
+      { label: "V7", tones: ["D", "F#", "A", "C"] },
+      { label: "I", tones: ["G", "B", "D"] },
+    ]);
+  });
+
+  it("labels minor tonics in lower case", () => {
+    const [path] = modulationPaths(key("E", "aeolian"), key("D", "aeolian"), "auto");
+    const labels = cadenceFor(path).map(c => c.label);
+    expect(labels[0]).toBe("i");
+    expect(labels[labels.length - 1]).toBe("i");
+    expect(labels.filter(l => l === "V7")).toHaveLength(path.hops.length);
+    expect(labels).toHaveLength(1 + 3 * path.hops.length);
+  });
+});
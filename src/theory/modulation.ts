@@ -0,0 +1,128 @@
+/* ============================================================
+   Theory — modulation: circle distance, pivot chords, paths
+   ============================================================ */
+import { diatonicSevenths, diatonicTriads } from "./chords";
+import type { Chord } from "./chords";
+import { transposeByInterval } from "./intervals";
+import { buildScaleFromKeyName, parentMajorOf, positionOfTonic, POSITIONS, tonicAt } from "./keys";
+import type { EnhPref } from "./keys";
+import type { Mode } from "./modes";
+import { pitchClass } from "./notes";
+
+export type KeyRef = { tonic: string; mode: Mode };
+
+/** A chord diatonic to both keys, with its numeral in each. */
+export type PivotChord = { tones: string[]; fromRn: string; toRn: string };
+
+export type ModulationHop = { from: KeyRef; to: KeyRef; pivot: PivotChord };
+export type ModulationPath = { keys: KeyRef[]; hops: ModulationHop[] };
+
+/** A labelled chord of a playable cadence. */
+export type CadenceChord = { label: string; tones: string[] };
+
+// Keys a path may pass through on the way
+const WAYPOINT_MODES: Mode[] = ["major", "aeolian"];
+/** Longest chain of hops `modulationPaths` suggests. */
+export const MAX_HOPS = 6;
+
+/** Spoke of a key's signature on the circle (modes sit on their parent major's spoke). */
+export const keySpoke = (k: KeyRef) => positionOfTonic(pitchClass(parentMajorOf(k.tonic, k.mode)), false);
+
+/** Shortest way around the circle between two keys' signatures: signed (clockwise > 0) and absolute. */
+export function circleDistance(a: KeyRef, b: KeyRef) {
+  const d = ((keySpoke(b) - keySpoke(a)) % 12 + 12) % 12;
+  const steps = d > 6 ? d - 12 : d;
+  return { steps, distance: Math.abs(steps) };
+}
+
+const sameKey = (a: KeyRef, b: KeyRef) => a.mode === b.mode && pitchClass(a.tonic) === pitchClass(b.tonic);
+const pcSet = (tones: string[]) => tones.map(pitchClass).sort((x,y)=> x-y).join(",");
+const palette = (k: KeyRef, sevenths: boolean): Chord[] => {
+  const scale = buildScaleFromKeyName(k.tonic, k.mode);
+  return sevenths ? diatonicSevenths(scale, k.mode) : diatonicTriads(scale, k.mode);
+};
+
+// Pivots that lead well into the new key: predominants first, then the submediant and tonic
+const PIVOT_WEIGHT = [1, 3, 0.5, 3, 0, 2, 0];
+
+/** Shared chords of two palettes with how well each leads into the second key, best first. */
+function sharedChords(from: Chord[], to: Chord[]) {
+  return from
+    .flatMap(c => {
+      const j = to.findIndex(t => pcSet(t.tones) === pcSet(c.tones));
+      return j < 0 ? [] : [{ pivot: { tones: c.tones, fromRn: c.rn, toRn: to[j].rn }, weight: PIVOT_WEIGHT[j] }];
+    })
+    .sort((x,y)=> y.weight - x.weight);
+}
+
+/** Chords diatonic to both keys (matched by sound, spelled as in `a`), best pivots first; none within one key. */
+export function pivotChords(a: KeyRef, b: KeyRef, sevenths = false): PivotChord[] {
+  if (sameKey(a, b)) return [];
+  return sharedChords(palette(a, sevenths), palette(b, sevenths)).map(p => p.pivot);
+}
+
+/** Major and natural-minor keys on every spoke, spelled with the enharmonic preference. */
+function waypoints(enhPref: EnhPref): KeyRef[] {
+  return POSITIONS.flatMap(p => WAYPOINT_MODES.map(mode => ({ tonic: tonicAt(p, mode, enhPref), mode })));
+}
+
+/** Shortest chains of keys from `a` to `b` where each hop shares a pivot triad, best first.
+ *  Intermediate keys are major or natural minor; among equally short paths, hops with
+ *  strong pivots and small steps around the circle win.
+ */
+export function modulationPaths(a: KeyRef, b: KeyRef, enhPref: EnhPref, limit = 3): ModulationPath[] {
+  if (sameKey(a, b)) return [];
+  const nodes = [a, ...waypoints(enhPref).filter(k => !sameKey(k, a) && !sameKey(k, b)), b];
+  const target = nodes.length - 1;
+  const triads = nodes.map(k => palette(k, false));
+  const pivots = triads.map((x, i) => triads.map((y, j) => i === j ? [] : sharedChords(x, y)));
+
+  // Hops to the destination from every node, so the search below only walks shortest paths
+  const dist = nodes.map(() => Infinity);
+  dist[target] = 0;
+  for (let frontier = [target]; frontier.length; ) {
+    const next: number[] = [];
+    for (const j of frontier) nodes.forEach((_, i) => {
+      if (dist[i] === Infinity && pivots[i][j].length) { dist[i] = dist[j] + 1; next.push(i); }
+    });
+    frontier = next;
+  }
+  if (dist[0] > MAX_HOPS) return [];
+
+  const found: { path: number[]; score: number }[] = [];
+  const walk = (path: number[], score: number) => {
+    const at = path[path.length - 1];
+    if (at === target) { found.push({ path, score }); return; }
+    nodes.forEach((_, j) => {
+      if (dist[j] !== dist[at] - 1 || !pivots[at][j].length) return;
+      const shared = pivots[at][j];
+      walk([...path, j], score + shared[0].weight + shared.length * 0.25 - circleDistance(nodes[at], nodes[j]).distance);
+    });
+  };
+  walk([0], 0);
+
+  return found
+    .sort((x,y)=> y.score - x.score)
+    .slice(0, limit)
+    .map(({ path }) => ({
+      keys: path.map(i => nodes[i]),
+      hops: path.slice(1).map((j, h) => ({ from: nodes[path[h]], to: nodes[j], pivot: pivots[path[h]][j][0].pivot })),
+    }));
+}
+
+/** Chords to play a path: the home tonic, then per hop the pivot, the new key's V7 and its tonic. */
+export function cadenceFor(path: ModulationPath): CadenceChord[] {
+  const tonicTriad = (k: KeyRef) => {
+    const s = buildScaleFromKeyName(k.tonic, k.mode);
+    return [s[0], s[2], s[4]];
+  };
+  const start = path.keys[0];
+  const out: CadenceChord[] = [{ label: palette(start, false)[0].rn, tones: tonicTriad(start) }];
+  for (const hop of path.hops) {
+    const dominant = transposeByInterval(hop.to.tonic, "P5");
+    out.push({ label: `${hop.pivot.fromRn} = ${hop.pivot.toRn}`, tones: hop.pivot.tones });
+    out.push({ label: "V7", tones: ["P1","M3","P5","m7"].map(iv => transposeByInterval(dominant, iv)) });
+    out.push({ label: palette(hop.to, false)[0].rn, tones: tonicTriad(hop.to) });
+  }
+  return out;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { LETTERS, buildScaleFromKeyName, formatNote, noteName, parseNote, parseNoteName } from ".";
+import type { NoteNaming } from ".";
+
+// Every spelling from triple flat to triple sharp
+const SPELLINGS = LETTERS.flatMap(letter => [-3, -2, -1, 0, 1, 2, 3].map(acc => formatNote({ letter, acc })));
+
+describe("noteName", () => {
+  it.each([
+    ["C", "C"], ["B", "H"], ["Bb", "B"], ["Bbb", "Heses"], ["B#", "His"],
+    ["F#", "Fis"], ["F##", "Fisis"], ["Eb", "Es"], ["Ebb", "Eses"], ["Ab", "As"], ["Abb", "Ases"],
+    ["Db", "Des"], ["Gb", "Ges"], ["Cb", "Ces"], ["E#", "Eis"], ["A#", "Ais"],
+  ])("writes %s in German as %s", (note, german) => {
+    expect(noteName(note, "german")).toBe(german);
+  });
+
+  it("writes fixed do from the letter, whatever the key", () => {
+    expect(["C", "D", "E", "F", "G", "A", "B"].map(n => noteName(n, "fixedDo"))).toEqual(["Do", "Re", "Mi", "Fa", "Sol", "La", "Si"]);
+    expect(noteName("F#", "fixedDo", "D")).toBe("Fa♯");
+    expect(noteName("Bb", "fixedDo", "F")).toBe("Si♭");
+  });
+
+  it("writes movable do and degrees from the tonic", () => {
+    expect(buildScaleFromKeyName("C", "aeolian").map(n => noteName(n, "movableDo", "C"))).toEqual(["Do", "Re", "Me", "Fa", "Sol", "Le", "Te"]);
+    expect(buildScaleFromKeyName("D", "major").map(n => noteName(n, "movableDo", "D"))).toEqual(["Do", "Re", "Mi", "Fa", "Sol", "La", "Ti"]);
+    expect(noteName("G#", "movableDo", "D")).toBe("Fi");
+    expect(buildScaleFromKeyName("E", "dorian").map(n => noteName(n, "degrees", "E"))).toEqual(["1", "2", "♭3", "4", "5", "6", "♭7"]);
+  });
+});
+
+describe("parseNoteName", () => {
+  it.each([
+    ["H", "B"], ["B", "Bb"], ["Hes", "Bb"], ["Heses", "Bbb"], ["His", "B#"],
+    ["Fis", "F#"], ["es", "Eb"], ["AS", "Ab"], ["Ases", "Abb"], ["Asas", "Abb"], ["Des", "Db"],
+  ])("reads German %s as %s", (text, note) => {
+    expect(parseNoteName(text, "german")).toBe(note);
+  });
+
+  it("reads fixed do with ASCII or Unicode accidentals and the usual aliases", () => {
+    expect(parseNoteName("Sol#", "fixedDo")).toBe("G#");
+    expect(parseNoteName("si♭", "fixedDo")).toBe("Bb");
+    expect(parseNoteName("Ti", "fixedDo")).toBe("B");
+    expect(parseNoteName("Ut", "fixedDo")).toBe("C");
+  });
+
+  it("reads movable do and degrees against the tonic", () => {
+    expect(parseNoteName("Me", "movableDo", "C")).toBe("Eb");
+    expect(parseNoteName("Fi", "movableDo", "D")).toBe("G#");
+    expect(parseNoteName("Sol#", "movableDo", "C")).toBe("G#");
+    expect(parseNoteName("b3", "degrees", "A")).toBe("C");
+  });
+
+  it("throws on names the system doesn't have", () => {
+    expect(() => parseNoteName("H", "english")).toThrow("Unknown note name: H");
+    expect(() => parseNoteName("Fis", "fixedDo")).toThrow();
+    expect(() => parseNoteName("Xyz", "german")).toThrow();
+  });
+
+  it.each<NoteNaming>(["english", "german", "fixedDo"])("round-trips every spelling in %s", naming => {
+    for (const note of SPELLINGS) expect(parseNoteName(noteName(note, naming), naming)).toBe(note);
+  });
+
+  it.each<[NoteNaming, string]>([["movableDo", "C"], ["movableDo", "Eb"], ["degrees", "F#"], ["degrees", "Bb"]])(
+    "round-trips the chromatic notes of a key in %s from %s",
+    (naming, tonic) => {
+      const notes = buildScaleFromKeyName(tonic, "major").flatMap(n => {
+        const { letter, acc } = parseNote(n);
+        return [-1, 0, 1].map(d => formatNote({ letter, acc: acc + d }));
+      });
+      for (const note of notes) expect(parseNoteName(noteName(note, naming, tonic), naming, tonic)).toBe(note);
+    }
+  );
+});
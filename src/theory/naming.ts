@@ -0,0 +1,108 @@
+/* ============================================================
+   Theory — note naming: English, German, solfège, scale degrees
+   ============================================================ */
+import { transposeByInterval } from "./intervals";
+import { MAJOR_DEGREE_INTERVALS } from "./modes";
+import { LETTERS, asciiNote, formatNote, parseNote, pretty } from "./notes";
+import type { Letter } from "./notes";
+
+export type NoteNaming = "english" | "german" | "fixedDo" | "movableDo" | "degrees";
+
+export const NOTE_NAMINGS: { naming: NoteNaming; label: string }[] = [
+  { naming: "english",   label: "C D E" },
+  { naming: "german",    label: "German (H, Fis)" },
+  { naming: "fixedDo",   label: "Fixed do" },
+  { naming: "movableDo", label: "Movable do" },
+  { naming: "degrees",   label: "Scale degrees" },
+];
+
+const FIXED_DO: Record<Letter, string> = { C: "Do", D: "Re", E: "Mi", F: "Fa", G: "Sol", A: "La", B: "Si" };
+// Movable do: plain, raised and lowered syllable per degree ("" = no syllable, write the accidental)
+const MOVABLE_DO = ["Do", "Re", "Mi", "Fa", "Sol", "La", "Ti"];
+const MOVABLE_UP = ["Di", "Ri", "", "Fi", "Si", "Li", ""];
+const MOVABLE_DOWN = ["", "Ra", "Me", "", "Se", "Le", "Te"];
+
+const accidentals = (acc: number) => pretty(acc >= 0 ? "#".repeat(acc) : "b".repeat(-acc));
+
+/** German name: H for B, B for B♭, -is/-es suffixes (Fis, Es, As, Heses). */
+function germanName(letter: Letter, acc: number) {
+  if (acc > 0) return (letter === "B" ? "H" : letter) + "is".repeat(acc);
+  if (acc === 0) return letter === "B" ? "H" : letter;
+  if (letter === "B") return acc === -1 ? "B" : "H" + "es".repeat(-acc);
+  if (letter === "E" || letter === "A") return letter + "s" + "es".repeat(-acc - 1);
+  return letter + "es".repeat(-acc);
+}
+
+/** Degree 0–6 of `note` above `tonic` by letter, and how far it is raised (+) or lowered (−) from the major scale. */
+function degreeOf(note: string, tonic: string) {
+  const n = parseNote(note), t = parseNote(tonic);
+  const degree = (LETTERS.indexOf(n.letter) - LETTERS.indexOf(t.letter) + 7) % 7;
+  const plain = parseNote(transposeByInterval(formatNote(t), MAJOR_DEGREE_INTERVALS[degree]));
+  return { degree, alter: n.acc - plain.acc };
+}
+
+/** The note at a degree of `tonic`'s major scale, raised or lowered. */
+function noteAtDegree(tonic: string, degree: number, alter: number) {
+  const plain = parseNote(transposeByInterval(tonic, MAJOR_DEGREE_INTERVALS[degree]));
+  return formatNote({ letter: plain.letter, acc: plain.acc + alter });
+}
+
+/** A spelled note ("F#", "Bb") as shown in a naming system. Movable do and scale degrees are
+ *  relative to `tonic` (do-based: C minor is Do Re Me Fa Sol Le Te); the others ignore it.
+ */
+export function noteName(note: string, naming: NoteNaming, tonic = "C") {
+  const { letter, acc } = parseNote(note);
+  switch (naming) {
+    case "english": return pretty(formatNote({ letter, acc }));
+    case "german": return germanName(letter, acc);
+    case "fixedDo": return FIXED_DO[letter] + accidentals(acc);
+    case "movableDo": {
+      const { degree, alter } = degreeOf(note, tonic);
+      if (alter === 1 && MOVABLE_UP[degree]) return MOVABLE_UP[degree];
+      if (alter === -1 && MOVABLE_DOWN[degree]) return MOVABLE_DOWN[degree];
+      return MOVABLE_DO[degree] + accidentals(alter);
+    }
+    case "degrees": {
+      const { degree, alter } = degreeOf(note, tonic);
+      return accidentals(alter) + (degree + 1);
+    }
+  }
+}
+
+// ---------- Parsing ------------------------------------------------------------
+const SPELLINGS = LETTERS.flatMap(letter => [-3, -2, -1, 0, 1, 2, 3].map(acc => ({ letter, acc })));
+const key = (s: string) => asciiNote(s).trim().toLowerCase();
+
+/** Every name a system gives, lowercased, to the note it stands for. */
+function namesFor(naming: NoteNaming, tonic: string) {
+  const names = new Map<string, string>();
+  const tonicLetter = LETTERS.indexOf(parseNote(tonic).letter);
+  for (const s of SPELLINGS) {
+    if (naming === "movableDo" || naming === "degrees") {
+      const degree = (LETTERS.indexOf(s.letter) - tonicLetter + 7) % 7;
+      const note = noteAtDegree(tonic, degree, s.acc);
+      names.set(key(noteName(note, naming, tonic)), note);
+      if (naming === "movableDo") names.set(key(MOVABLE_DO[degree] + accidentals(s.acc)), note);   // Sol♯ as well as Si
+    } else {
+      names.set(key(noteName(formatNote(s), naming)), formatNote(s));
+    }
+  }
+  return names;
+}
+
+// Other ways people write a name: Hes for B, Ti for Si, So for Sol
+const ALIASES: Partial<Record<NoteNaming, Record<string, string>>> = {
+  german: { hes: "B", bes: "B", asas: "Ases" },
+  fixedDo: { ti: "Si", so: "Sol", ut: "Do" },
+  movableDo: { so: "Sol" },
+};
+
+/** Read a note written in a naming system ("Fis", "Sol#", "Me", "b3"), in any case, with ASCII or
+ *  ♯/♭ accidentals. Returns the ASCII spelling ("F#", "Eb"). Throws on names the system doesn't have.
+ */
+export function parseNoteName(text: string, naming: NoteNaming, tonic = "C"): string {
+  const k = key(text);
+  const note = namesFor(naming, tonic).get(key(ALIASES[naming]?.[k] ?? k));
+  if (!note) throw new Error(`Unknown note name: ${text}`);
+  return note;
+}
@@ -0,0 +1,78 @@
+/* ============================================================
+   Theory — spelled notes & pitch classes
+   ============================================================ */
+
+export type Letter = "C" | "D" | "E" | "F" | "G" | "A" | "B";
+
+/** Pitch class 0–11, C = 0. */
+export type PitchClass = number;
+
+/** A note as written: letter plus signed accidental count (+1 = ♯, −2 = 𝄫). */
+export type SpelledNote = { letter: Letter; acc: number };
+
+export const LETTERS: readonly Letter[] = ["C","D","E","F","G","A","B"];
+export const NAT_PC: Record<Letter, PitchClass> = { C:0, D:2, E:4, F:5, G:7, A:9, B:11 };
+
+/** Wrap any integer into 0..11. */
+export const mod12 = (n: number) => ((n % 12) + 12) % 12;
+
+// ---------- String helpers ---------------------------------------------------
+export function asciiNote(n: string) {
+  return n.replace(/♯/g, "#").replace(/𝄪/g, "##").replace(/♭/g, "b").replace(/𝄫/g, "bb");
+}
+export function normalizeToken(n: string) {
+  if (!n) return "C";
+  let t = asciiNote(n);
+  t = t.split("/")[0].trim();
+  const L = t[0]?.toUpperCase() ?? "C";
+  const rest = t.slice(1).replace(/[^#b]/g, "");
+  return L + rest;
+}
+export function normalizeMinorToken(n: string) {
+  const t = asciiNote(n).split("/")[0].trim();
+  const L = t[0]?.toLowerCase() ?? "a";
+  const rest = t.slice(1).replace(/[^#b]/g, "");
+  return L + rest;
+}
+export function pretty(n: string) {
+  return n.replace(/##/g,"𝄪").replace(/bb/g,"𝄫").replace(/#/g,"♯").replace(/b/g,"♭");
+}
+
+// ---------- Spelled notes ----------------------------------------------------
+/** Parse "F#", "bb", "E𝄫" etc. into letter + accidental count. Throws on unknown letters. */
+export function parseNote(n: string): SpelledNote {
+  const t = normalizeToken(n);
+  const letter = t[0] as Letter;
+  if (!(letter in NAT_PC)) throw new Error(`Unknown note name: ${n}`);
+  const rest = t.slice(1);
+  const acc = (rest.match(/#/g)?.length ?? 0) - (rest.match(/b/g)?.length ?? 0);
+  return { letter, acc };
+}
+/** ASCII spelling of a note ("F#", "Bbb"). */
+export function formatNote(n: SpelledNote) {
+  return n.letter + (n.acc >= 0 ? "#".repeat(n.acc) : "b".repeat(-n.acc));
+}
+export function pitchClass(n: string | SpelledNote): PitchClass {
+  const s = typeof n === "string" ? parseNote(n) : n;
+  return mod12(NAT_PC[s.letter] + s.acc);
+}
+/** MIDI number for a spelled note; the octave follows the letter's pitch class (B♯4 → C4). */
+export function spelledToMidi(note: string, oct = 4) {
+  return 12*(oct+1) + pitchClass(note);
+}
+/** Same sounding pitch class, regardless of spelling. */
+export const enharmonic = (a: string, b: string) => pitchClass(a) === pitchClass(b);
+
+// ---------- Line of fifths ---------------------------------------------------
+const FIFTHS_LETTERS: readonly Letter[] = ["F","C","G","D","A","E","B"];
+
+/** Place on the line of fifths, C = 0: G = 1, F = −1, F♯ = 6, G♭ = −6. Enharmonic spellings differ. */
+export function fifthsIndex(note: string) {
+  const { letter, acc } = parseNote(note);
+  return FIFTHS_LETTERS.indexOf(letter) - 1 + 7 * acc;
+}
+/** Note at a place on the line of fifths: 8 → G♯, −8 → F♭, 14 → C𝄪. */
+export function noteAtFifths(k: number) {
+  const i = k + 1;
+  return formatNote({ letter: FIFTHS_LETTERS[((i % 7) + 7) % 7], acc: Math.floor(i / 7) });
+}
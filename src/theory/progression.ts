@@ -0,0 +1,34 @@
+/* ============================================================
+   Theory — progressions stored as Roman numerals
+   ============================================================ */
+import { diatonicSevenths, diatonicTriads } from "./chords";
+import type { Chord } from "./chords";
+import { extendedPalette } from "./harmony";
+import type { Mode } from "./modes";
+
+/** A progression slot. Stored key-free so the same progression follows the selected key. */
+export type ProgressionStep = { rn: string; beats: number };
+
+/** A whole progression with its playback settings. */
+export type Progression = { steps: ProgressionStep[]; bpm: number; loop: boolean; click: boolean };
+
+const NUMERAL_RE = /^[#b♯♭]*(VII|VI|IV|V|III|II|I)/i;
+const DEGREES = ["I","II","III","IV","V","VI","VII"];
+
+/** Scale degree (0–6) of a Roman numeral label, ignoring case, prefixes and suffixes. */
+export function numeralDegree(rn: string) {
+  const m = NUMERAL_RE.exec(rn.trim());
+  return m ? DEGREES.indexOf(m[1].toUpperCase()) : -1;
+}
+
+/** Spell a stored numeral in a key. Exact diatonic or chromatic palette labels win ("V7/ii", "N6");
+ *  otherwise fall back to the diatonic chord on the same degree (e.g. "bVII" from Dorian read in major gives vii°).
+ */
+export function chordForNumeral(rn: string, scale: string[], mode: Mode): Chord | undefined {
+  const sevenths = rn.includes("7");
+  const palette = sevenths ? diatonicSevenths(scale, mode) : diatonicTriads(scale, mode);
+  const exact = palette.find(c => c.rn === rn) ?? extendedPalette(scale, mode, sevenths).find(c => c.rn === rn);
+  if (exact) return exact;
+  const degree = numeralDegree(rn);
+  return degree < 0 ? undefined : palette[degree];
+}
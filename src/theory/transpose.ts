@@ -0,0 +1,54 @@
+/* ============================================================
+   Theory — transposing chord symbols between keys
+   ============================================================ */
+import { spellInKey } from "./chordName";
+import type { ChordSymbol } from "./chordSymbol";
+import { intervalBetween, intervalName, transposeByInterval } from "./intervals";
+import { parseNote, pitchClass } from "./notes";
+
+/** Interval that carries one tonic to another, letter-correct (C → E♭ is m3, not A2). */
+export const keyInterval = (from: string, to: string) => intervalName(intervalBetween(from, to));
+
+/** Respell a transposed note for the target key: the scale's own spelling when it is diatonic,
+ *  otherwise the transposed spelling unless it fights the signature (A♯ in a flat key) or is doubled.
+ */
+export function fitToKey(note: string, scale: string[]) {
+  const inScale = scale.find(n => pitchClass(n) === pitchClass(note));
+  if (inScale) return inScale;
+  const { acc } = parseNote(note);
+  const flats = scale.some(n => n.includes("b")), sharps = scale.some(n => n.includes("#"));
+  const clashes = (acc > 0 && flats && !sharps) || (acc < 0 && sharps && !flats);
+  return Math.abs(acc) > 1 || clashes ? spellInKey(pitchClass(note), scale) : note;
+}
+
+/** Move a chord symbol by `interval`, spelling the root for the target `scale`. A chromatic bass keeps
+ *  its interval to the root (F♯m7♭5/C♯ → Bm7♭5/F♯), a diatonic one takes the scale's spelling.
+ *  The suffix is kept as written.
+ */
+export function transposeChordSymbol(cs: ChordSymbol, interval: string, scale: string[]): ChordSymbol {
+  const root = fitToKey(transposeByInterval(cs.root, interval), scale);
+  if (!cs.bass) return { ...cs, root };
+  const bassPc = pitchClass(transposeByInterval(cs.bass, interval));
+  const bass = scale.find(n => pitchClass(n) === bassPc) ?? transposeByInterval(root, intervalBetween(cs.root, cs.bass));
+  return { ...cs, root, bass };
+}
+
+/** Nashville degree of a note against a tonic's major scale: "1", "b3", "#4". */
+export function nashvilleDegree(note: string, tonic: string) {
+  const { quality, num } = intervalBetween(tonic, note);
+  const perfect = num === 1 || num === 4 || num === 5;
+  const prefix =
+    quality === "A" ? "#" : quality === "AA" ? "##" :
+    quality === "dd" ? (perfect ? "bb" : "bbb") :
+    quality === "d" ? (perfect ? "b" : "bb") :
+    quality === "m" ? "b" : "";
+  return prefix + num;
+}
+
+/** Chord symbol as a Nashville number in a key: "Am7/G" in C → "6m7/5". A suffix that would run into
+ *  the degree (a number or an accidental) goes in parentheses: C♯7 in A → "3(7)", D♭2 in C → "b2(2)".
+ */
+export function nashvilleNumber(cs: ChordSymbol, tonic: string) {
+  const suffix = /^[\d#b(]/.test(cs.suffix) ? `(${cs.suffix.replace(/[()]/g, "")})` : cs.suffix;
+  return nashvilleDegree(cs.root, tonic) + suffix + (cs.bass ? `/${nashvilleDegree(cs.bass, tonic)}` : "");
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { TUNING_SYSTEMS, centsOffset, frequencyOf } from ".";
+import type { Temperament, TuningSystem } from ".";
+
+const tuning = (system: TuningSystem, tonic = "C", a4 = 440): Temperament => ({ system, a4, tonic });
+const cents = (ratio: number) => 1200 * Math.log2(ratio);
+/** Interval from the tonic up to `note` in the same octave, in cents. */
+const above = (note: string, t: Temperament, oct = 4) => cents(frequencyOf(note, oct, t) / frequencyOf(t.tonic, 4, t));
+
+describe("frequencyOf", () => {
+  it("tunes equal temperament from A4", () => {
+    expect(frequencyOf("A", 4, tuning("equal"))).toBe(440);
+    expect(frequencyOf("C", 4, tuning("equal"))).toBeCloseTo(261.626, 3);
+    expect(frequencyOf("A", 4, tuning("equal", "C", 415))).toBe(415);
+    expect(frequencyOf("Bb", 3, tuning("equal"))).toBeCloseTo(frequencyOf("A#", 3, tuning("equal")), 10);
+  });
+
+  it.each(TUNING_SYSTEMS.map(t => t.system))("keeps A4 on the reference in %s, whatever the tonic", system => {
+    for (const tonic of ["C", "F#", "Eb", "A", "G#"]) {
+      expect(frequencyOf("A", 4, tuning(system, tonic))).toBeCloseTo(440, 9);
+      expect(frequencyOf("A", 4, tuning(system, tonic, 432))).toBeCloseTo(432, 9);
+    }
+  });
+
+  it("tunes Pythagorean C a pure major sixth under A", () => {
+    expect(frequencyOf("C", 4, tuning("pythagorean"))).toBeCloseTo(440 * 16 / 27, 9);
+    expect(centsOffset("C", tuning("pythagorean"))).toBeCloseTo(-5.865, 3);
+  });
+});
+
+describe("centsOffset", () => {
+  it.each<[TuningSystem, string, number]>([
+    ["pythagorean", "G", cents(3 / 2)],
+    ["pythagorean", "D", cents(9 / 8)],
+    ["pythagorean", "E", cents(81 / 64)],
+    ["pythagorean", "F", cents(4 / 3)],
+    ["meantone", "E", cents(5 / 4)],
+    ["meantone", "G", cents(5) / 4],
+    ["meantone", "D", cents(5) / 2 - 1200],
+    ["just", "D", cents(9 / 8)],
+    ["just", "E", cents(5 / 4)],
+    ["just", "F", cents(4 / 3)],
+    ["just", "G", cents(3 / 2)],
+    ["just", "A", cents(5 / 3)],
+    ["just", "B", cents(15 / 8)],
+    ["just", "Bb", cents(9 / 5)],
+    ["just", "F#", cents(45 / 32)],
+  ])("%s %s sits at its ratio above C", (system, note, expected) => {
+    expect(above(note, tuning(system))).toBeCloseTo(expected, 6);
+  });
+
+  it("builds on the tonic, so the same ratios hold in another key", () => {
+    expect(above("B", tuning("just", "G"))).toBeCloseTo(cents(5 / 4), 6);
+    expect(above("C#", tuning("meantone", "A"), 5)).toBeCloseTo(cents(5 / 4), 6);
+  });
+
+  it("splits G♯ from A♭ in the fifth-based systems", () => {
+    const diff = (system: TuningSystem) => centsOffset("G#", tuning(system)) - centsOffset("Ab", tuning(system));
+    expect(diff("equal")).toBe(0);
+    expect(diff("pythagorean")).toBeCloseTo(cents(531441 / 524288), 6);   // G♯ a Pythagorean comma high
+    expect(diff("meantone")).toBeCloseTo(-cents(128 / 125), 6);           // G♯ a lesser diesis low
+    expect(diff("werckmeister")).toBe(0);                                 // a well temperament: one key per pitch
+  });
+
+  it("uses the fixed Werckmeister III offsets, A at zero", () => {
+    expect(centsOffset("A", tuning("werckmeister", "F#"))).toBe(0);
+    expect(centsOffset("C", tuning("werckmeister", "F#"))).toBeCloseTo(11.73, 6);
+    expect(centsOffset("F#", tuning("werckmeister"))).toBeCloseTo(0, 6);
+  });
+});
@@ -0,0 +1,56 @@
+/* ============================================================
+   Theory — tuning systems: spelled notes to frequencies
+   ============================================================ */
+import { fifthsIndex, pitchClass, spelledToMidi } from "./notes";
+
+export type TuningSystem = "equal" | "pythagorean" | "meantone" | "just" | "werckmeister";
+
+/** How notes turn into hertz: the system, the A4 reference and the tonic that fifth-based systems are built on. */
+export type Temperament = { system: TuningSystem; a4: number; tonic: string };
+
+export const DEFAULT_TEMPERAMENT: Temperament = { system: "equal", a4: 440, tonic: "C" };
+
+export const TUNING_SYSTEMS: { system: TuningSystem; label: string }[] = [
+  { system: "equal",        label: "Equal temperament" },
+  { system: "pythagorean",  label: "Pythagorean" },
+  { system: "meantone",     label: "Quarter-comma meantone" },
+  { system: "just",         label: "Just intonation (5-limit)" },
+  { system: "werckmeister", label: "Werckmeister III" },
+];
+
+// How far each system's pure or tempered fifth sits from the equal-tempered one, in cents
+const PYTHAGOREAN_FIFTH = 1200 * Math.log2(3 / 2) - 700;
+const MEANTONE_FIFTH = 1200 * Math.log2(5) / 4 - 700;
+const SYNTONIC_COMMA = 1200 * Math.log2(81 / 80);
+
+// Werckmeister III is a fixed well temperament: cents from equal temperament by pitch class, A at 0
+const WERCKMEISTER: readonly number[] = [11.73, 1.955, 3.91, 5.865, 1.955, 9.775, 0, 7.82, 3.91, 0, 7.82, 3.91];
+
+/** Syntonic commas a 5-limit just note sits off its Pythagorean spelling, `k` fifths from the tonic.
+ *  F C G D stay Pythagorean; A E B F♯ (5/3, 5/4, 15/8, 45/32) drop a comma, B♭ E♭ A♭ D♭ rise one, and so on.
+ */
+const justCommas = (k: number) => -Math.floor((k + 1) / 4);
+
+/** Cents off equal temperament with the tonic held where equal temperament puts it. */
+function fromTonic(note: string, t: Temperament) {
+  const k = fifthsIndex(note) - fifthsIndex(t.tonic);
+  switch (t.system) {
+    case "equal": return 0;
+    case "pythagorean": return k * PYTHAGOREAN_FIFTH;
+    case "meantone": return k * MEANTONE_FIFTH;
+    case "just": return k * PYTHAGOREAN_FIFTH + justCommas(k) * SYNTONIC_COMMA;
+    case "werckmeister": return WERCKMEISTER[pitchClass(note)];
+  }
+}
+
+/** Cents a spelled note sits away from its equal-tempered pitch. Fifth-based systems count fifths out
+ *  from the tonic, so G♯ and A♭ come apart, then shift the whole scale so A stays on the A4 reference.
+ */
+export function centsOffset(note: string, t: Temperament) {
+  return fromTonic(note, t) - fromTonic("A", t);
+}
+
+/** Frequency of a spelled note in an octave (octave as `spelledToMidi` counts it). */
+export function frequencyOf(note: string, oct: number, t: Temperament) {
+  return t.a4 * 2 ** ((spelledToMidi(note, oct) - 69 + centsOffset(note, t) / 100) / 12);
+}
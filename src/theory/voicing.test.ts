@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VOICING, VOICING_STYLES, voiceChord, voiceLead, voiceMotion, voiceSequence, voicedMidi } from ".";
+import type { VoicedNote, VoicingOptions } from ".";
+
+const CMAJ7 = ["C", "E", "G", "B"];
+const opts = (o: Partial<VoicingOptions> = {}): VoicingOptions => ({ ...DEFAULT_VOICING, low: 48, high: 84, ...o });
+const names = (v: VoicedNote[]) => v.map(n => `${n.note}${n.oct}`).join(" ");
+const parse = (s: string) => s.split(" ").map(t => ({ note: t.slice(0, -1), oct: Number(t.slice(-1)) }));
+
+describe("voiceChord", () => {
+  it.each([
+    ["close", ["C3 E3 G3 B3", "E3 G3 B3 C4", "G3 B3 C4 E4", "B3 C4 E4 G4"]],
+    ["open",  ["C3 G3 E4 B4", "E3 B3 G4 C5", "G3 C4 B4 E5", "B3 E4 C5 G5"]],
+    ["drop2", ["C3 G3 B3 E4", "E3 B3 C4 G4", "G3 C4 E4 B4", "B3 E4 G4 C5"]],
+    ["drop3", ["C3 B3 E4 G4", "E3 C4 G4 B4", "G3 E4 B4 C5", "B3 G4 C5 E5"]],
+  ] as const)("%s voices every inversion of a 7th chord", (style, expected) => {
+    expect([0, 1, 2, 3].map(inversion => names(voiceChord(CMAJ7, opts({ style, inversion }))))).toEqual(expected);
+  });
+
+  it("gives each style its own 7th-chord voicing", () => {
+    for (const inversion of [0, 1, 2, 3]) {
+      const voicings = VOICING_STYLES.map(s => names(voiceChord(CMAJ7, opts({ style: s.style, inversion }))));
+      expect(new Set(voicings).size).toBe(VOICING_STYLES.length);
+    }
+  });
+
+  it("spreads an open triad root-fifth-tenth", () => {
+    expect(names(voiceChord(["C", "E", "G"], opts({ style: "open" })))).toBe("C3 G3 E4");
+  });
+
+  it("wraps inversions past the chord size to the highest", () => {
+    expect(names(voiceChord(["C", "E", "G"], opts({ inversion: 5 })))).toBe("G3 C4 E4");
+  });
+
+  it("keeps every voicing inside the register", () => {
+    for (const { style } of VOICING_STYLES) for (const inversion of [0, 1, 2, 3]) {
+      const v = voiceChord(CMAJ7, { style, inversion, low: 48, high: 84, lead: false }).map(voicedMidi);
+      expect(Math.min(...v)).toBeGreaterThanOrEqual(48);
+      expect(Math.max(...v)).toBeLessThanOrEqual(84);
+    }
+  });
+
+  it("gives up the low bound before the high one when the register is too narrow", () => {
+    const v = voiceChord(CMAJ7, { style: "open", inversion: 3, low: 60, high: 76, lead: false }).map(voicedMidi);
+    expect(Math.max(...v)).toBeLessThanOrEqual(76);
+    expect(v).toEqual([47, 52, 60, 67]);
+  });
+});
+
+describe("voiceMotion", () => {
+  it("pairs voices bottom-up for same-size chords", () => {
+    expect(voiceMotion(parse("C4 E4 G4"), parse("C4 F4 A4"))).toBe(3);
+    expect(voiceMotion(parse("G4 B4 D5"), parse("C4 E4 G4"))).toBe(21);
+  });
+
+  it("matches nearest notes for different sizes", () => {
+    expect(voiceMotion(parse("C4 E4 G4"), parse("C4 E4 G4 B4"))).toBe(2);
+    expect(voiceMotion([], parse("C4 E4 G4"))).toBe(0);
+  });
+});
+
+describe("voice leading", () => {
+  const lead = opts({ lead: true, low: 55, high: 84 });
+
+  it("takes the inversion that moves least", () => {
+    expect(names(voiceLead(parse("C4 E4 G4"), ["F", "A", "C"], lead))).toBe("C4 F4 A4");
+    expect(names(voiceLead(parse("C4 E4 G4"), ["G", "B", "D"], lead))).toBe("B3 D4 G4");
+    expect(names(voiceLead(parse("C4 F4 A4"), ["G", "B", "D", "F"], lead))).toBe("B3 D4 F4 G4");
+  });
+
+  it("moves no more than any other voicing in the register", () => {
+    const prev = parse("E4 G4 C5");
+    const shift = (v: VoicedNote[], k: number) => v.map(n => ({ note: n.note, oct: n.oct + k }));
+    for (const tones of [["D", "F", "A"], ["G", "B", "D", "F"], ["A", "C", "E"], ["Bb", "D", "F"]]) {
+      const best = voiceMotion(prev, voiceLead(prev, tones, lead));
+      for (let inversion = 0; inversion < tones.length; inversion++) {
+        const v = voiceChord(tones, { ...lead, inversion });
+        for (let k = -2; k <= 2; k++) {
+          const w = shift(v, k).map(voicedMidi);
+          if (w[0] >= lead.low && w[w.length - 1] <= lead.high) expect(best).toBeLessThanOrEqual(voiceMotion(prev, shift(v, k)));
+        }
+      }
+    }
+  });
+
+  it("keeps common tones in place through ii–V–I", () => {
+    const [ii, V, I] = voiceSequence([["D", "F", "A", "C"], ["G", "B", "D", "F"], ["C", "E", "G", "B"]], lead);
+    const common = (a: VoicedNote[], b: VoicedNote[]) => a.filter(n => b.some(m => voicedMidi(m) === voicedMidi(n))).length;
+    expect(common(ii, V)).toBe(2);   // D and F stay
+    expect(common(V, I)).toBe(2);    // G and B stay
+    expect(voiceMotion(ii, V) + voiceMotion(V, I)).toBeLessThanOrEqual(6);
+  });
+
+  it("passes rests through without breaking the chain", () => {
+    const [a, rest, b] = voiceSequence([["C", "E", "G"], [], ["F", "A", "C"]], lead);
+    expect(rest).toEqual([]);
+    expect(voiceMotion(a, b)).toBe(3);
+  });
+
+  it("voices each chord on its own without lead", () => {
+    const seq = voiceSequence([["C", "E", "G"], ["F", "A", "C"]], opts({ low: 55 }));
+    expect(seq.map(names)).toEqual(["C4 E4 G4", "F4 A4 C5"]);
+  });
+});
@@ -0,0 +1,116 @@
+/* ============================================================
+   Theory — placing spelled notes in octaves, chord voicings
+   ============================================================ */
+import { spelledToMidi } from "./notes";
+
+/** A chord or scale tone with its octave (octave numbering as in `spelledToMidi`). */
+export type VoicedNote = { note: string; oct: number };
+
+export const voicedMidi = (v: VoicedNote) => spelledToMidi(v.note, v.oct);
+
+/** Octaves that make `notes` strictly ascend, starting in `startOct`. */
+export function ascendingLine(notes: string[], startOct = 4): VoicedNote[] {
+  let prev = -Infinity;
+  let oct = startOct;
+  return notes.map(note => {
+    while (spelledToMidi(note, oct) <= prev) oct++;
+    prev = spelledToMidi(note, oct);
+    return { note, oct };
+  });
+}
+
+// ---------- Voicing engine ---------------------------------------------------
+export type VoicingStyle = "close" | "open" | "drop2" | "drop3";
+
+/** How chords are voiced. `inversion` picks the bass (0 = root); `low`/`high` bound the register in MIDI
+ *  numbers; with `lead` each chord after the first takes whichever inversion moves least from the one before.
+ */
+export type VoicingOptions = { style: VoicingStyle; inversion: number; low: number; high: number; lead: boolean };
+
+export const DEFAULT_VOICING: VoicingOptions = { style: "close", inversion: 0, low: 60, high: 88, lead: false };
+
+export const VOICING_STYLES: { style: VoicingStyle; label: string }[] = [
+  { style: "close", label: "Close" },
+  { style: "open", label: "Open" },
+  { style: "drop2", label: "Drop 2" },
+  { style: "drop3", label: "Drop 3" },
+];
+
+const shiftOct = (v: VoicedNote[], k: number) => v.map(n => ({ note: n.note, oct: n.oct + k }));
+const byPitch = (v: VoicedNote[]) => [...v].sort((a,b)=> voicedMidi(a) - voicedMidi(b));
+
+/** One voicing shape with tones in close order from `tones[0]` up, near octave 0.
+ *  Open keeps every other voice and raises the rest an octave (1-5-10 for a triad, 1-5-10-14 for a 7th);
+ *  drop-2/drop-3 lower the second/third voice from the top.
+ */
+function shape(tones: string[], style: VoicingStyle): VoicedNote[] {
+  const v = ascendingLine(tones, 0);
+  const n = v.length;
+  const move = (i: number, k: number) => { v[i] = { note: v[i].note, oct: v[i].oct + k }; };
+  if (style === "open" && n >= 3) for (let i = 1; i < n; i += 2) move(i, 1);
+  if (style === "drop2" && n >= 3) move(n - 2, -1);
+  if (style === "drop3") move(n >= 4 ? n - 3 : n - 2, -1);
+  return byPitch(v);
+}
+
+/** Every shape of a style, one per rotation of the chord. */
+const shapes = (tones: string[], style: VoicingStyle) =>
+  tones.map((_, r) => shape([...tones.slice(r), ...tones.slice(0, r)], style));
+
+/** Lowest octave placement with the bass at or above `low`. */
+function placeAbove(v: VoicedNote[], low: number) {
+  const k = Math.ceil((low - voicedMidi(v[0])) / 12);
+  return shiftOct(v, k);
+}
+
+/** Voice one chord (tones root first). Inversions past the chord's size wrap to the highest available.
+ *  The top voice stays at or under `high`; a register narrower than the voicing gives up `low` first.
+ */
+export function voiceChord(tones: string[], opts: VoicingOptions = DEFAULT_VOICING): VoicedNote[] {
+  if (tones.length === 0) return [];
+  const bass = tones[Math.min(opts.inversion, tones.length - 1)];
+  const all = shapes(tones, opts.style);
+  const v = placeAbove(all.find(v => v[0].note === bass) ?? all[0], opts.low);
+  const over = voicedMidi(v[v.length - 1]) - opts.high;
+  return over > 0 ? shiftOct(v, -Math.ceil(over / 12)) : v;
+}
+
+/** Total semitones the voices travel between two voicings. Same-size chords pair voices bottom-up;
+ *  otherwise each note is matched to the nearest note of the other chord (both ways, halved).
+ */
+export function voiceMotion(from: VoicedNote[], to: VoicedNote[]) {
+  const a = from.map(voicedMidi).sort((x,y)=> x-y), b = to.map(voicedMidi).sort((x,y)=> x-y);
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.length === b.length) return a.reduce((sum, m, i) => sum + Math.abs(m - b[i]), 0);
+  const nearest = (m: number, other: number[]) => Math.min(...other.map(o => Math.abs(o - m)));
+  return (a.reduce((s, m) => s + nearest(m, b), 0) + b.reduce((s, m) => s + nearest(m, a), 0)) / 2;
+}
+
+/** Voicing of `tones` that moves least from `prev`, staying inside the register when it can.
+ *  Ties go to the voicing centred nearest the middle of the register, so long progressions don't drift.
+ */
+export function voiceLead(prev: VoicedNote[], tones: string[], opts: VoicingOptions = DEFAULT_VOICING): VoicedNote[] {
+  if (prev.length === 0 || tones.length === 0) return voiceChord(tones, opts);
+  const mid = (opts.low + opts.high) / 2;
+  const center = (v: VoicedNote[]) => v.reduce((s, n) => s + voicedMidi(n), 0) / v.length;
+  let best: VoicedNote[] | undefined, bestCost = Infinity, bestDrift = Infinity;
+  for (const s of shapes(tones, opts.style)) {
+    for (let v = placeAbove(s, opts.low); voicedMidi(v[v.length - 1]) <= opts.high; v = shiftOct(v, 1)) {
+      const cost = voiceMotion(prev, v), drift = Math.abs(center(v) - mid);
+      if (cost < bestCost || (cost === bestCost && drift < bestDrift)) { best = v; bestCost = cost; bestDrift = drift; }
+    }
+  }
+  return best ?? voiceChord(tones, opts);
+}
+
+/** Voice a run of chords: each on its own, or led from the one before when `opts.lead` is set.
+ *  Empty entries (rests) pass through and don't break the chain.
+ */
+export function voiceSequence(chords: string[][], opts: VoicingOptions = DEFAULT_VOICING): VoicedNote[][] {
+  let prev: VoicedNote[] = [];
+  return chords.map(tones => {
+    const v = opts.lead ? voiceLead(prev, tones, opts) : voiceChord(tones, opts);
+    if (v.length) prev = v;
+    return v;
+  });
+}